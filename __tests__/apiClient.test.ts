@@ -1,20 +1,39 @@
-import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'; // Import Jest globals for ESM
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'; // Import Jest globals for ESM
 
 // Statically import types needed for annotations
 import type {
   BraveWeb,
   BravePoiResponse,
   BraveDescription,
+  BraveImageResponse,
+  BraveVideoResponse,
+  BraveNewsResponse,
+  BraveSummaryResponse,
   BraveApiError as BraveApiErrorType // Import the type alias for BraveApiError
 } from '../apiClient.js';
 
 // Dynamically import functions and class constructor after resetting modules
 let fetchWebSearch: typeof import('../apiClient.js').fetchWebSearch;
 let fetchInitialLocalSearch: typeof import('../apiClient.js').fetchInitialLocalSearch;
+let fetchLocalFallbackSearch: typeof import('../apiClient.js').fetchLocalFallbackSearch;
 let fetchPoiDetails: typeof import('../apiClient.js').fetchPoiDetails;
 let fetchPoiDescriptions: typeof import('../apiClient.js').fetchPoiDescriptions;
+let fetchImageSearch: typeof import('../apiClient.js').fetchImageSearch;
+let fetchVideoSearch: typeof import('../apiClient.js').fetchVideoSearch;
+let fetchNewsSearch: typeof import('../apiClient.js').fetchNewsSearch;
+let fetchDeepWebSearch: typeof import('../apiClient.js').fetchDeepWebSearch;
+let fetchSuggestions: typeof import('../apiClient.js').fetchSuggestions;
+let fetchSpellcheck: typeof import('../apiClient.js').fetchSpellcheck;
+let fetchSummarizerKey: typeof import('../apiClient.js').fetchSummarizerKey;
+let fetchSummary: typeof import('../apiClient.js').fetchSummary;
 let BraveApiErrorClass: typeof import('../apiClient.js').BraveApiError; // Variable to hold the class constructor
 let _resetRateLimiterForTest: typeof import('../apiClient.js')._resetRateLimiterForTest; // Import reset function type
+let _setRetryPolicyForTest: typeof import('../apiClient.js')._setRetryPolicyForTest;
+let _resetQuotaTrackerForTest: typeof import('../apiClient.js')._resetQuotaTrackerForTest;
+let _resetCacheForTest: typeof import('../apiClient.js')._resetCacheForTest;
+let _resetKeyPoolForTest: typeof import('../apiClient.js')._resetKeyPoolForTest;
+let getApiKeyStatus: typeof import('../apiClient.js').getApiKeyStatus;
+let getQuotaStatus: typeof import('../apiClient.js').getQuotaStatus;
 let BRAVE_API_KEY: typeof import('../config.js').BRAVE_API_KEY;
 
 // Mock the global fetch function with correct typing
@@ -27,9 +46,9 @@ describe('Brave API Client (apiClient.ts)', () => {
   const mockLocalSuccessResponse: BraveWeb = { locations: { results: [{ id: 'poi123', title: 'Local Place' }] } };
   const mockPoiResponse: BravePoiResponse = { results: [{ id: 'poi1', name: 'POI One', address: {} }] };
   const mockDescResponse: BraveDescription = { descriptions: { 'poi1': 'Desc One', 'poi2': 'Desc Two' } };
-
-  // Spy instance for Date.now - managed within Rate Limiting describe block
-  let dateSpy: ReturnType<typeof jest.spyOn> | null = null;
+  const mockImageResponse: BraveImageResponse = { results: [{ title: 'Image', url: 'http://example.com/page', properties: { url: 'http://example.com/image.png' } }] };
+  const mockVideoResponse: BraveVideoResponse = { results: [{ title: 'Video', url: 'http://example.com/watch', video: { duration: '10:00', views: 1234 } }] };
+  const mockNewsResponse: BraveNewsResponse = { results: [{ title: 'News', url: 'http://example.com/story', page_age: '2024-05-01T12:00:00', breaking: true }] };
 
   beforeEach(async () => {
     // Reset modules to clear internal state like rate limiter counts
@@ -42,18 +61,31 @@ describe('Brave API Client (apiClient.ts)', () => {
     const config = await import('../config.js');
     fetchWebSearch = apiClient.fetchWebSearch;
     fetchInitialLocalSearch = apiClient.fetchInitialLocalSearch;
+    fetchLocalFallbackSearch = apiClient.fetchLocalFallbackSearch;
     fetchPoiDetails = apiClient.fetchPoiDetails;
     fetchPoiDescriptions = apiClient.fetchPoiDescriptions;
+    fetchImageSearch = apiClient.fetchImageSearch;
+    fetchVideoSearch = apiClient.fetchVideoSearch;
+    fetchNewsSearch = apiClient.fetchNewsSearch;
+    fetchDeepWebSearch = apiClient.fetchDeepWebSearch;
+    fetchSuggestions = apiClient.fetchSuggestions;
+    fetchSpellcheck = apiClient.fetchSpellcheck;
+    fetchSummarizerKey = apiClient.fetchSummarizerKey;
+    fetchSummary = apiClient.fetchSummary;
     BraveApiErrorClass = apiClient.BraveApiError; // Assign class constructor
     _resetRateLimiterForTest = apiClient._resetRateLimiterForTest; // Assign reset function
+    _setRetryPolicyForTest = apiClient._setRetryPolicyForTest;
+    _resetQuotaTrackerForTest = apiClient._resetQuotaTrackerForTest;
+    _resetCacheForTest = apiClient._resetCacheForTest;
+    _resetKeyPoolForTest = apiClient._resetKeyPoolForTest;
+    getApiKeyStatus = apiClient.getApiKeyStatus;
+    getQuotaStatus = apiClient.getQuotaStatus;
+    // Keep quota counts in memory so tests never touch the real quota file
+    _resetQuotaTrackerForTest();
+    _resetCacheForTest(); // Likewise for the response cache
     BRAVE_API_KEY = config.BRAVE_API_KEY;
   });
 
-   afterEach(() => {
-     // Ensure Date.now spy is restored if it was set up
-     dateSpy?.mockRestore();
-   });
-
 
   // --- Tests for fetchWebSearch ---
   describe('fetchWebSearch', () => {
@@ -107,6 +139,47 @@ describe('Brave API Client (apiClient.ts)', () => {
        expect(url.searchParams.has('offset')).toBe(false);
     });
 
+    it('should pass locale, filtering and formatting options when provided', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchWebSearch('test', 10, 0, {
+        country: 'FR',
+        search_lang: 'fr',
+        ui_lang: 'fr-FR',
+        safesearch: 'strict',
+        freshness: 'pm',
+        units: 'metric',
+        spellcheck: false,
+        text_decorations: false,
+        extra_snippets: true,
+      });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('country')).toBe('FR');
+      expect(url.searchParams.get('search_lang')).toBe('fr');
+      expect(url.searchParams.get('ui_lang')).toBe('fr-FR');
+      expect(url.searchParams.get('safesearch')).toBe('strict');
+      expect(url.searchParams.get('freshness')).toBe('pm');
+      expect(url.searchParams.get('units')).toBe('metric');
+      expect(url.searchParams.get('spellcheck')).toBe('false');
+      expect(url.searchParams.get('text_decorations')).toBe('false');
+      expect(url.searchParams.get('extra_snippets')).toBe('true');
+      expect(url.searchParams.get('result_filter')).toBe('web');
+    });
+
+    it('should use a caller-chosen result_filter', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchWebSearch('test', 10, 0, { result_filter: ['web', 'discussions', 'faq'] });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('result_filter')).toBe('web,discussions,faq');
+    });
+
+    it('should add included sections to the result_filter', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchWebSearch('test', 10, 0, { include: ['faq', 'news'] });
+      await fetchWebSearch('test', 10, 0, { result_filter: ['web', 'faq'], include: ['faq', 'videos'] });
+      const urls = (global.fetch as jest.Mock).mock.calls.map(call => call[0] as URL);
+      expect(urls.map(url => url.searchParams.get('result_filter'))).toEqual(['web,faq,news', 'web,faq,videos']);
+    });
+
     it('should return the parsed JSON data on success', async () => {
       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
       const result = await fetchWebSearch('test', 10, 0);
@@ -126,6 +199,34 @@ describe('Brave API Client (apiClient.ts)', () => {
       expect(options.headers).toEqual({ 'Accept': 'application/json', 'Accept-Encoding': 'gzip', 'X-Subscription-Token': BRAVE_API_KEY });
     });
 
+    it('should send the user location as X-Loc headers and cache per location', async () => {
+      _resetRateLimiterForTest({ perSecond: 1000, perEndpointPerSecond: 1000 });
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockLocalSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const location = { latitude: 30.27, longitude: -97.74, city: 'Austin', state: 'Texas', country: 'us', postal_code: '78701', timezone: 'America/Chicago' };
+      await fetchInitialLocalSearch('coffee', 5, { search_lang: 'es', country: 'US', location });
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0] as [URL, RequestInit];
+      expect(url.searchParams.get('search_lang')).toBe('es');
+      expect(url.searchParams.get('country')).toBe('US');
+      expect(options.headers).toEqual({
+        'Accept': 'application/json',
+        'Accept-Encoding': 'gzip',
+        'X-Loc-Lat': '30.27',
+        'X-Loc-Long': '-97.74',
+        'X-Loc-City': 'Austin',
+        'X-Loc-State-Name': 'Texas',
+        'X-Loc-Country': 'US',
+        'X-Loc-Postal-Code': '78701',
+        'X-Loc-Timezone': 'America/Chicago',
+        'X-Subscription-Token': BRAVE_API_KEY,
+      });
+
+      await fetchInitialLocalSearch('coffee', 5, { search_lang: 'es', country: 'US', location });
+      expect(global.fetch).toHaveBeenCalledTimes(1); // Same place, served from the cache
+      await fetchInitialLocalSearch('coffee', 5, { search_lang: 'es', country: 'US', location: { ...location, city: 'Dallas' } });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
     it('should clamp count parameter correctly (max 20)', async () => {
       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockLocalSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
       await fetchInitialLocalSearch('local', 30);
@@ -141,6 +242,34 @@ describe('Brave API Client (apiClient.ts)', () => {
     });
   });
 
+  // --- Tests for fetchLocalFallbackSearch ---
+  describe('fetchLocalFallbackSearch', () => {
+    it('should search the web in the language, country and location of the local search', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchLocalFallbackSearch('coffee', 5, { search_lang: 'es', country: 'US', location: { city: 'Austin', state: 'TX', country: 'us' } });
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0] as [URL, RequestInit];
+      expect(url.toString()).toBe('https://api.search.brave.com/res/v1/web/search?q=coffee&count=5&offset=0&country=US&search_lang=es&result_filter=web');
+      expect(options.headers).toEqual({
+        'Accept': 'application/json',
+        'Accept-Encoding': 'gzip',
+        'X-Loc-City': 'Austin',
+        'X-Loc-State': 'TX',
+        'X-Loc-Country': 'US',
+        'X-Subscription-Token': BRAVE_API_KEY,
+      });
+    });
+
+    it('should use the local search language when none is given', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchLocalFallbackSearch('coffee', 5);
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('search_lang')).toBe('en');
+      expect(url.searchParams.has('country')).toBe(false);
+    });
+  });
+
   // --- Tests for fetchPoiDetails ---
    describe('fetchPoiDetails', () => {
     const poiIds = ['poi1', 'poi2', 'poi3'];
@@ -175,6 +304,47 @@ describe('Brave API Client (apiClient.ts)', () => {
     });
   });
 
+  describe('POI chunking', () => {
+    const manyIds = Array.from({ length: 45 }, (_, index) => `poi${index}`);
+    const requestedIds = (call: unknown[]) => (call[0] as URL).searchParams.getAll('ids');
+    const respondWith = (body: (ids: string[]) => unknown, failChunk?: number) => {
+      let chunk = 0;
+      (global.fetch as jest.Mock).mockImplementation(async (url: any) => {
+        const ids = (url as URL).searchParams.getAll('ids');
+        if (chunk++ === failChunk) {
+          return { ok: false, json: async () => ({}), text: async () => 'Bad Request', status: 400, statusText: 'Bad Request', headers: new Headers() };
+        }
+        return { ok: true, json: async () => body(ids), text: async () => '', status: 200, statusText: 'OK', headers: new Headers() };
+      });
+    };
+
+    beforeEach(() => {
+      _resetRateLimiterForTest({ perSecond: 1000, perEndpointPerSecond: 1000 });
+    });
+
+    it('should request at most 20 ids at a time and merge details in the order asked for', async () => {
+      respondWith(ids => ({ results: [...ids].reverse().map(id => ({ id, name: id, address: {} })) })); // Brave's order needn't match
+      const result = await fetchPoiDetails([...manyIds, 'poi3', '']);
+
+      expect((global.fetch as jest.Mock).mock.calls.map(call => requestedIds(call).length)).toEqual([20, 20, 5]);
+      expect(result.results.map(poi => poi.id)).toEqual(manyIds);
+      expect(result.failed_ids).toBeUndefined();
+    });
+
+    it('should keep the chunks that succeeded and list the ids of those that failed', async () => {
+      respondWith(ids => ({ descriptions: Object.fromEntries(ids.map(id => [id, `About ${id}`])) }), 1);
+      const result = await fetchPoiDescriptions(manyIds);
+
+      expect(Object.keys(result.descriptions)).toEqual([...manyIds.slice(0, 20), ...manyIds.slice(40)]);
+      expect(result.failed_ids).toEqual(manyIds.slice(20, 40));
+    });
+
+    it('should fail when every chunk fails', async () => {
+      respondWith(() => ({}), 0);
+      await expect(fetchPoiDetails(['poi1'])).rejects.toThrow('API request failed');
+    });
+  });
+
   // --- Tests for fetchPoiDescriptions ---
   describe('fetchPoiDescriptions', () => {
     const poiIds = ['poi1', 'poi2', 'poi3'];
@@ -209,8 +379,271 @@ describe('Brave API Client (apiClient.ts)', () => {
     });
   });
 
+  // --- Tests for fetchImageSearch ---
+  describe('fetchImageSearch', () => {
+    it('should call fetch with the correct URL and headers', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockImageResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchImageSearch('cute cats', 10);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0] as [URL, RequestInit];
+      const expectedUrl = 'https://api.search.brave.com/res/v1/images/search?q=cute+cats&count=10&safesearch=strict';
+      expect(url.toString()).toBe(expectedUrl);
+      expect(options.headers).toEqual({ 'Accept': 'application/json', 'Accept-Encoding': 'gzip', 'X-Subscription-Token': BRAVE_API_KEY });
+    });
+
+    it('should pass through the safesearch level', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockImageResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchImageSearch('cats', 10, 'off');
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('safesearch')).toBe('off');
+    });
+
+    it('should clamp count parameter correctly (max 100)', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockImageResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchImageSearch('cats', 500);
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('count')).toBe('100');
+    });
+
+    it('should return parsed JSON data on success', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockImageResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchImageSearch('cats', 10);
+      expect(result).toEqual(mockImageResponse);
+    });
+  });
+
+  // --- Tests for fetchVideoSearch ---
+  describe('fetchVideoSearch', () => {
+    it('should call fetch with the correct URL and headers', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockVideoResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchVideoSearch('typescript tutorial', 10, 2);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0] as [URL, RequestInit];
+      const expectedUrl = 'https://api.search.brave.com/res/v1/videos/search?q=typescript+tutorial&count=10&offset=2';
+      expect(url.toString()).toBe(expectedUrl);
+      expect(options.headers).toEqual({ 'Accept': 'application/json', 'Accept-Encoding': 'gzip', 'X-Subscription-Token': BRAVE_API_KEY });
+    });
+
+    it('should clamp count and offset parameters correctly', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockVideoResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchVideoSearch('talks', 50, 20);
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('count')).toBe('20');
+      expect(url.searchParams.get('offset')).toBe('9');
+    });
+
+    it('should return parsed JSON data on success', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockVideoResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchVideoSearch('talks', 10, 0);
+      expect(result).toEqual(mockVideoResponse);
+    });
+  });
+
+  // --- Tests for fetchNewsSearch ---
+  describe('fetchNewsSearch', () => {
+    it('should call fetch with the correct URL and headers for basic query', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockNewsResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchNewsSearch('election results', 10, 0);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0] as [URL, RequestInit];
+      const expectedUrl = 'https://api.search.brave.com/res/v1/news/search?q=election+results&count=10&offset=0';
+      expect(url.toString()).toBe(expectedUrl);
+      expect(options.headers).toEqual({ 'Accept': 'application/json', 'Accept-Encoding': 'gzip', 'X-Subscription-Token': BRAVE_API_KEY });
+    });
+
+    it('should pass freshness, country and search_lang when provided', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockNewsResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchNewsSearch('wahlen', 10, 0, { freshness: 'pw', country: 'DE', search_lang: 'de' });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('freshness')).toBe('pw');
+      expect(url.searchParams.get('country')).toBe('DE');
+      expect(url.searchParams.get('search_lang')).toBe('de');
+    });
+
+    it('should clamp count parameter correctly (max 50)', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockNewsResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchNewsSearch('news', 80, 0);
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('count')).toBe('50');
+    });
+
+    it('should return parsed JSON data on success', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockNewsResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchNewsSearch('news', 10, 0);
+      expect(result).toEqual(mockNewsResponse);
+    });
+  });
+
+  // --- Tests for fetchDeepWebSearch ---
+  describe('fetchDeepWebSearch', () => {
+    const page = (offset: number, size: number, more?: boolean): BraveWeb => ({
+      query: { original: 'rust', ...(more === undefined ? {} : { more_results_available: more }) },
+      web: { results: Array.from({ length: size }, (_, i) => ({ title: `R${offset * 20 + i}`, description: '', url: `https://example.com/${offset * 20 + i}` })) },
+    });
+    const servePages = (pages: BraveWeb[]) => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: unknown) => {
+        const data = pages[Number((url as URL).searchParams.get('offset'))];
+        return { ok: true, json: async () => data, text: async () => '', status: 200, statusText: 'OK' };
+      });
+    };
+
+    beforeEach(() => {
+      _resetRateLimiterForTest({ perSecond: 1000, perEndpointPerSecond: 1000 });
+    });
+
+    it('should request consecutive pages until the total is reached', async () => {
+      servePages([page(0, 20, true), page(1, 20, true), page(2, 20, true)]);
+      const result = await fetchDeepWebSearch('rust', 50);
+      const offsets = (global.fetch as jest.Mock).mock.calls.map(call => (call[0] as URL).searchParams.get('offset'));
+      expect(offsets).toEqual(['0', '1', '2']);
+      expect((global.fetch as jest.Mock).mock.calls.every(call => (call[0] as URL).searchParams.get('count') === '20')).toBe(true);
+      expect(result.results).toHaveLength(50);
+      expect(result.results[49].title).toBe('R49');
+      expect(result.pages).toBe(3);
+      expect(result.more_results_available).toBe(true);
+    });
+
+    it('should stop when Brave reports no more results', async () => {
+      servePages([page(0, 20, true), page(1, 20, false), page(2, 20, true)]);
+      const result = await fetchDeepWebSearch('rust', 100);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.results).toHaveLength(40);
+      expect(result.more_results_available).toBe(false);
+    });
+
+    it('should stop after a short page when Brave does not say', async () => {
+      servePages([page(0, 20), page(1, 5), page(2, 20)]);
+      const result = await fetchDeepWebSearch('rust', 100);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.results).toHaveLength(25);
+    });
+
+    it('should drop results whose URL already appeared on an earlier page', async () => {
+      const second = page(1, 20, false);
+      second.web!.results![0] = { title: 'Dup', description: '', url: 'http://www.example.com/3/?utm_source=x' };
+      servePages([page(0, 20, true), second]);
+      const result = await fetchDeepWebSearch('rust', 100);
+      expect(result.results).toHaveLength(39);
+      expect(result.results.some(r => r.title === 'Dup')).toBe(false);
+      expect(result.duplicates).toBe(1);
+    });
+
+    it('should keep every result that has no URL', async () => {
+      const first = page(0, 3, false);
+      first.web!.results![0].url = '';
+      first.web!.results![2].url = undefined as any;
+      servePages([first]);
+      const result = await fetchDeepWebSearch('rust', 100);
+      expect(result.results.map(r => r.title)).toEqual(['R0', 'R1', 'R2']);
+      expect(result.duplicates).toBe(0);
+    });
+
+    it('should never request more than 10 pages', async () => {
+      servePages(Array.from({ length: 12 }, (_, i) => page(i, 20, true)));
+      const result = await fetchDeepWebSearch('rust', 1000);
+      expect(global.fetch).toHaveBeenCalledTimes(10);
+      expect(result.results).toHaveLength(200);
+      expect(result.more_results_available).toBe(false);
+    });
+  });
+
+  // --- Tests for fetchSuggestions and fetchSpellcheck ---
+  describe('fetchSuggestions and fetchSpellcheck', () => {
+    const okJson = (body: unknown) => async () => ({ ok: true, json: async () => body, text: async () => '', status: 200, statusText: 'OK' });
+
+    it('should request rich suggestions with a clamped count', async () => {
+      const suggestResponse = { type: 'suggest', query: { original: 'hel' }, results: [{ query: 'hello world', is_entity: false }] };
+      (global.fetch as jest.Mock).mockImplementation(okJson(suggestResponse));
+      const result = await fetchSuggestions('hel', 50, { country: 'US' });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.toString()).toBe('https://api.search.brave.com/res/v1/suggest/search?q=hel&count=20&country=US&rich=true');
+      expect(result).toEqual(suggestResponse);
+    });
+
+    it('should allow plain suggestions', async () => {
+      (global.fetch as jest.Mock).mockImplementation(okJson({ query: { original: 'hel' }, results: [] }));
+      await fetchSuggestions('hel', 5, { rich: false });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.searchParams.get('rich')).toBe('false');
+    });
+
+    it('should call the spellcheck endpoint', async () => {
+      (global.fetch as jest.Mock).mockImplementation(okJson({ query: { original: 'helo' }, results: [{ query: 'hello' }] }));
+      const result = await fetchSpellcheck('helo', 'GB');
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.toString()).toBe('https://api.search.brave.com/res/v1/spellcheck/search?q=helo&country=GB');
+      expect(result.results).toEqual([{ query: 'hello' }]);
+    });
+  });
+
+  // --- Tests for the Summarizer ---
+  describe('fetchSummarizerKey and fetchSummary', () => {
+    const completeSummary: BraveSummaryResponse = {
+      type: 'summarizer',
+      status: 'complete',
+      title: 'Rust',
+      summary: [{ type: 'token', data: 'Rust is a systems language.' }, { type: 'inline_reference', data: { url: 'https://rust-lang.org' } }],
+    };
+
+    beforeEach(() => {
+      _resetRateLimiterForTest({ perSecond: 1000, perEndpointPerSecond: 1000 });
+    });
+
+    it('should request a summary with the web search and return its key', async () => {
+      const webResponse: BraveWeb = { ...mockSuccessResponse, summarizer: { type: 'summarizer', key: 'summary-key' } };
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => webResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchSummarizerKey('what is rust', { country: 'US' });
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.pathname).toBe('/res/v1/web/search');
+      expect(url.searchParams.get('summary')).toBe('1');
+      expect(url.searchParams.get('result_filter')).toBe('web,summarizer');
+      expect(url.searchParams.get('country')).toBe('US');
+      expect(result).toEqual({ key: 'summary-key', web: webResponse });
+    });
+
+    it('should return no key when Brave has no summary for the query', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchSummarizerKey('asdfgh');
+      expect(result.key).toBeUndefined();
+    });
+
+    it('should redeem the key at the summarizer endpoint', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => completeSummary, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchSummary('summary-key');
+      const [url] = (global.fetch as jest.Mock).mock.calls[0] as [URL];
+      expect(url.toString()).toBe('https://api.search.brave.com/res/v1/summarizer/search?key=summary-key&inline_references=true&entity_info=1');
+      expect(result).toEqual(completeSummary);
+    });
+
+    it('should poll until the summary is finished, bypassing the cache', async () => {
+      const sleep = jest.fn(async (_ms: number) => {});
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce(async () => ({ ok: true, json: async () => ({ type: 'summarizer', status: 'running' }), text: async () => '', status: 200, statusText: 'OK' }))
+        .mockImplementation(async () => ({ ok: true, json: async () => completeSummary, text: async () => '', status: 200, statusText: 'OK' }));
+      const result = await fetchSummary('summary-key', { intervalMs: 250, sleep });
+      expect(result).toEqual(completeSummary);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(250);
+    });
+
+    it('should give up on a summary that never finishes', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => ({ type: 'summarizer' }), text: async () => '', status: 200, statusText: 'OK' }));
+      await expect(fetchSummary('summary-key', { maxPolls: 3, sleep: async () => {} })).rejects.toThrow('Summary was not ready after 3 attempts');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
   // --- Tests for callBraveApi error handling ---
   describe('callBraveApi (Error Handling)', () => {
+    let retrySleep: jest.Mock<(ms: number) => Promise<void>>;
+
+    beforeEach(() => {
+      // Retries must not wait in real time, neither for backoff nor for the rate limiter
+      retrySleep = jest.fn(async () => {});
+      _setRetryPolicyForTest({ maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000, budgetMs: 15000, sleep: retrySleep, random: () => 0.5 });
+      _resetRateLimiterForTest({ perSecond: 1000 });
+    });
+
     it('should throw BraveApiError on non-OK response (e.g., 400)', async () => {
       const errorText = 'Invalid request parameters';
       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: false, status: 400, statusText: 'Bad Request', text: async () => errorText, json: async () => ({ error: errorText }) }));
@@ -240,7 +673,7 @@ describe('Brave API Client (apiClient.ts)', () => {
         expect(error.details).toContain('Internal Server Error');
         expect(error.details).toContain(errorText);
       }
-       expect(global.fetch).toHaveBeenCalledTimes(1);
+       expect(global.fetch).toHaveBeenCalledTimes(3); // Retried until maxAttempts
     });
 
     it('should throw BraveApiError on network error', async () => {
@@ -256,38 +689,245 @@ describe('Brave API Client (apiClient.ts)', () => {
         expect(error.status).toBeUndefined();
         expect(error.details).toBeUndefined();
       }
+      expect(global.fetch).toHaveBeenCalledTimes(3); // Transient failures are retried
+    });
+
+    it('should not retry client errors other than 429', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: false, status: 422, statusText: 'Unprocessable Entity', text: async () => 'bad', json: async () => ({}) }));
+      await expect(fetchWebSearch('test', 10, 0)).rejects.toMatchObject({ status: 422 });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(retrySleep).not.toHaveBeenCalled();
+    });
+
+    it('should succeed after a transient 503 using jittered exponential backoff', async () => {
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce(async () => ({ ok: false, status: 503, statusText: 'Service Unavailable', text: async () => '', json: async () => ({}) }))
+        .mockImplementationOnce(async () => ({ ok: false, status: 503, statusText: 'Service Unavailable', text: async () => '', json: async () => ({}) }))
+        .mockImplementationOnce(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await expect(fetchWebSearch('test', 10, 0)).resolves.toEqual(mockSuccessResponse);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      // random() = 0.5 of a 500ms, then 1000ms ceiling
+      expect(retrySleep.mock.calls.map(call => call[0])).toEqual([250, 500]);
+    });
+
+    it('should honor the Retry-After header', async () => {
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce(async () => ({ ok: false, status: 429, statusText: 'Too Many Requests', text: async () => '', json: async () => ({}), headers: new Headers({ 'Retry-After': '2' }) }))
+        .mockImplementationOnce(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchWebSearch('test', 10, 0);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(retrySleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should honor X-RateLimit-Reset on 429 responses', async () => {
+      const headers = new Headers({ 'X-RateLimit-Remaining': '0, 1500', 'X-RateLimit-Reset': '1, 1419704' });
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce(async () => ({ ok: false, status: 429, statusText: 'Too Many Requests', text: async () => '', json: async () => ({}), headers }))
+        .mockImplementationOnce(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+      await fetchWebSearch('test', 10, 0);
+      expect(retrySleep).toHaveBeenCalledWith(1000);
+    });
+
+    it('should give up when the next wait would exceed the retry budget', async () => {
+      // Monthly quota exhausted: the reset is weeks away
+      const headers = new Headers({ 'X-RateLimit-Remaining': '1, 0', 'X-RateLimit-Reset': '1, 1419704' });
+      (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: false, status: 429, statusText: 'Too Many Requests', text: async () => '', json: async () => ({}), headers }));
+      await expect(fetchWebSearch('test', 10, 0)).rejects.toMatchObject({ status: 429 });
       expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(retrySleep).not.toHaveBeenCalled();
     });
   });
 
+   // --- Tests for Quota Tracking ---
+   describe('Quota Tracking', () => {
+     it('should record usage and Brave rate-limit headers from responses', async () => {
+       const headers = new Headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1234', 'X-RateLimit-Reset': '1, 86400' });
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK', headers }));
+       await fetchWebSearch('test', 10, 0);
+       const status = getQuotaStatus();
+       expect(status.used).toBe(1);
+       expect(status.monthlyLimit).toBe(2000);
+       expect(status.monthlyRemaining).toBe(1234);
+       expect(status.perSecondLimit).toBe(1);
+       expect(status.monthlyResetAt).toBeDefined();
+     });
+
+     it('should reject calls with a clear message once the soft cap is reached', async () => {
+       _resetQuotaTrackerForTest({ softCap: 766 });
+       const headers = new Headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1234' });
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK', headers }));
+       await fetchWebSearch('test', 10, 0); // Brave reports 766 used
+       await expect(fetchWebSearch('test again', 10, 0)).rejects.toMatchObject({
+         name: 'BraveApiError',
+         status: 429,
+         message: expect.stringContaining('Monthly quota soft cap reached'),
+       });
+       expect(global.fetch).toHaveBeenCalledTimes(1);
+     });
+   });
+
+   // --- Tests for API Key Rotation ---
+   describe('API Key Rotation', () => {
+     let retrySleep: jest.Mock<(ms: number) => Promise<void>>;
+     const okResponse = async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' });
+     const errorResponse = (status: number) => async () => ({ ok: false, status, statusText: 'Error', text: async () => '', json: async () => ({}) });
+     const usedKeys = () => (global.fetch as jest.Mock).mock.calls.map(call => (call[1] as RequestInit & { headers: Record<string, string> }).headers['X-Subscription-Token']);
+
+     beforeEach(() => {
+       retrySleep = jest.fn(async () => {});
+       _setRetryPolicyForTest({ maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000, budgetMs: 15000, sleep: retrySleep, random: () => 0.5 });
+       _resetRateLimiterForTest({ perSecond: 1000, perEndpointPerSecond: 1000 });
+       _resetKeyPoolForTest({ keys: ['key-a', 'key-b'], keyFile: undefined, strategy: 'round-robin', cooldownMs: 60000 });
+     });
+
+     it('should rotate keys between requests', async () => {
+       (global.fetch as jest.Mock).mockImplementation(okResponse);
+       await fetchWebSearch('one', 10, 0);
+       await fetchWebSearch('two', 10, 0);
+       expect(usedKeys()).toEqual(['key-a', 'key-b']);
+     });
+
+     it('should switch to another key on 401, 402 or 429 without waiting', async () => {
+       for (const status of [401, 402, 429]) {
+         (global.fetch as jest.Mock).mockReset();
+         _resetKeyPoolForTest({ keys: ['key-a', 'key-b'], keyFile: undefined, strategy: 'round-robin', cooldownMs: 60000 });
+         (global.fetch as jest.Mock).mockImplementationOnce(errorResponse(status)).mockImplementation(okResponse);
+         await expect(fetchWebSearch(`failover ${status}`, 10, 0)).resolves.toEqual(mockSuccessResponse);
+         expect(usedKeys()).toEqual(['key-a', 'key-b']);
+       }
+       expect(retrySleep).not.toHaveBeenCalled();
+     });
+
+     it('should keep a failed key out of rotation for later requests', async () => {
+       (global.fetch as jest.Mock).mockImplementationOnce(errorResponse(401)).mockImplementation(okResponse);
+       await fetchWebSearch('first', 10, 0);
+       await fetchWebSearch('second', 10, 0);
+       expect(usedKeys()).toEqual(['key-a', 'key-b', 'key-b']);
+       expect(getApiKeyStatus().map(key => key.healthy)).toEqual([false, true]);
+     });
+
+     it('should fail with the last error once every key has been rejected', async () => {
+       (global.fetch as jest.Mock).mockImplementation(errorResponse(401));
+       await expect(fetchWebSearch('bad keys', 10, 0)).rejects.toMatchObject({ name: 'BraveApiError', status: 401 });
+       expect(usedKeys()).toEqual(['key-a', 'key-b']);
+     });
+
+     it('should record rate-limit headers per key instead of in the global quota', async () => {
+       const headers = new Headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1500' });
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ...(await okResponse()), headers }));
+       await fetchWebSearch('quota', 10, 0);
+       expect(getApiKeyStatus()[0].quota).toMatchObject({ used: 1, monthlyRemaining: 1500 });
+       expect(getQuotaStatus().used).toBe(1);
+       expect(getQuotaStatus().monthlyRemaining).toBeUndefined(); // Brave's numbers only describe the key that made the request
+     });
+   });
+
+   // --- Tests for Response Caching ---
+   describe('Response Caching', () => {
+     let clock: number;
+
+     beforeEach(() => {
+       clock = 10000;
+       _resetCacheForTest({ maxEntries: 10, defaultTtlMs: 60000, ttlMs: { 'news/search': 1000 }, now: () => clock });
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockSuccessResponse, text: async () => '', status: 200, statusText: 'OK' }));
+     });
+
+     it('should serve repeated requests from the cache without using quota', async () => {
+       await fetchWebSearch('cached', 10, 0);
+       const second = await fetchWebSearch('cached', 10, 0);
+       expect(second).toEqual(mockSuccessResponse);
+       expect(global.fetch).toHaveBeenCalledTimes(1);
+       expect(getQuotaStatus().used).toBe(1);
+     });
+
+     it('should treat requests with the same parameters in a different order as the same entry', async () => {
+       await fetchWebSearch('cached', 10, 0, { country: 'DE', safesearch: 'strict' });
+       await fetchWebSearch('cached', 10, 0, { safesearch: 'strict', country: 'DE' });
+       expect(global.fetch).toHaveBeenCalledTimes(1);
+     });
+
+     it('should bypass the cache lookup but refresh the entry when noCache is set', async () => {
+       await fetchWebSearch('cached', 10, 0);
+       await fetchWebSearch('cached', 10, 0, {}, { noCache: true });
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+       await fetchWebSearch('cached', 10, 0);
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+     });
+
+     it('should expire entries after the TTL configured for their endpoint', async () => {
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => mockNewsResponse, text: async () => '', status: 200, statusText: 'OK' }));
+       await fetchNewsSearch('news', 10, 0);
+       clock += 1001;
+       await fetchNewsSearch('news', 10, 0);
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+     });
+
+     it('should not cache failed responses', async () => {
+       _setRetryPolicyForTest({ maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, budgetMs: 0 });
+       (global.fetch as jest.Mock).mockImplementationOnce(async () => ({ ok: false, status: 400, statusText: 'Bad Request', text: async () => 'bad', json: async () => ({}) }));
+       await expect(fetchWebSearch('flaky', 10, 0)).rejects.toMatchObject({ status: 400 });
+       await expect(fetchWebSearch('flaky', 10, 0)).resolves.toEqual(mockSuccessResponse);
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+     });
+   });
+
    // --- Tests for Rate Limiting ---
    describe('Rate Limiting', () => {
-     // Setup spy for Date.now specifically for this block
+     // Fake clock driven by the limiter's injected sleep, so queued requests resolve without real delays
+     let clock: number;
+     let sleep: jest.Mock<(ms: number) => Promise<void>>;
+
      beforeEach(() => {
-       dateSpy = jest.spyOn(Date, 'now');
+       clock = 10000;
+       sleep = jest.fn(async (ms: number) => { clock += ms; });
+       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => ({}), text: async () => '', status: 200, statusText: 'OK' }));
      });
-     // afterEach to restore is handled globally now
 
-     it('should throw error if rate limit is exceeded within one second', async () => {
-       (global.fetch as jest.Mock).mockImplementation(async () => ({ ok: true, json: async () => ({}), text: async () => '', status: 200, statusText: 'OK' }));
+     it('should queue requests that exceed the per-second limit instead of rejecting them', async () => {
+       _resetRateLimiterForTest({ perSecond: 1, perEndpointPerSecond: 1, maxWaitMs: 30000, now: () => clock, sleep });
 
-       // Set initial time *then* reset the limiter state using that time
-       dateSpy!.mockReturnValue(10000);
-       _resetRateLimiterForTest(); // Now uses the mocked 10000 for initial lastSecondReset
+       // Both calls are issued together; the second waits for the next token
+       await expect(Promise.all([
+         fetchWebSearch('first', 1, 0),
+         fetchWebSearch('second', 1, 0),
+       ])).resolves.toHaveLength(2);
 
-       // First call should succeed (now = 10000)
-       await expect(fetchWebSearch('req1', 1, 0)).resolves.toBeDefined();
-       expect(global.fetch).toHaveBeenCalledTimes(1);
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+       expect(sleep).toHaveBeenCalledWith(1000);
+       const queries = (global.fetch as jest.Mock).mock.calls.map(call => (call[0] as URL).searchParams.get('q'));
+       expect(queries).toEqual(['first', 'second']); // FIFO order
+     });
+
+     it('should apply the per-second limit globally across endpoints', async () => {
+       _resetRateLimiterForTest({ perSecond: 1, perEndpointPerSecond: 5, maxWaitMs: 30000, now: () => clock, sleep });
 
-       // Second call immediately after should fail
-       dateSpy!.mockReturnValue(10500);
-       await expect(fetchWebSearch('req2', 1, 0)).rejects.toThrow(/Rate limit exceeded: > 1\/second/);
+       await fetchWebSearch('web', 1, 0);
+       await fetchPoiDetails(['poi1']);
+
+       expect(global.fetch).toHaveBeenCalledTimes(2);
+       expect(sleep).toHaveBeenCalledWith(1000);
+     });
+
+     it('should reject with a 429 BraveApiError when the wait would exceed maxWaitMs', async () => {
+       _resetRateLimiterForTest({ perSecond: 1, maxWaitMs: 500, now: () => clock, sleep });
+
+       await fetchWebSearch('first', 1, 0);
+       await expect(fetchWebSearch('second', 1, 0)).rejects.toMatchObject({
+         name: 'BraveApiError',
+         status: 429,
+         message: expect.stringContaining('Rate limit exceeded'),
+       });
        expect(global.fetch).toHaveBeenCalledTimes(1); // Fetch not called again
+       expect(sleep).not.toHaveBeenCalled();
+     });
+
+     it('should reject once the monthly limit is reached', async () => {
+       _resetRateLimiterForTest({ perSecond: 100, perMonth: 2, maxWaitMs: 30000, now: () => clock, sleep });
 
-       // Third call after > 1 second should succeed
-       dateSpy!.mockReturnValue(11500);
-       await expect(fetchWebSearch('req3', 1, 0)).resolves.toBeDefined();
-       expect(global.fetch).toHaveBeenCalledTimes(2); // Fetch called again
+       await fetchWebSearch('one', 1, 0);
+       await fetchWebSearch('two', 1, 0);
+       await expect(fetchWebSearch('three', 1, 0)).rejects.toThrow(/monthly limit of 2 requests reached/);
+       expect(global.fetch).toHaveBeenCalledTimes(2);
      });
    });
 
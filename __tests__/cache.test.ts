@@ -0,0 +1,145 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'; // Import Jest globals for ESM
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ResponseCache, ResponseCacheOptions, normalizeCacheKey } from '../cache.js';
+
+describe('ResponseCache (cache.ts)', () => {
+  let clock: number;
+  let tmpDir: string;
+  let filePath: string;
+
+  const createCache = (options: Partial<ResponseCacheOptions> = {}) => new ResponseCache({
+    maxEntries: 3,
+    defaultTtlMs: 1000,
+    now: () => clock,
+    ...options,
+  });
+
+  beforeEach(() => {
+    clock = 10000;
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brave-cache-'));
+    filePath = path.join(tmpDir, 'nested', 'cache.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return stored values until their TTL expires', () => {
+    const cache = createCache();
+    cache.set('a', 'web/search', { value: 1 });
+    clock += 999;
+    expect(cache.get('a')).toEqual({ value: 1 });
+    clock += 1;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should use per-endpoint TTLs and skip endpoints with a TTL of zero', () => {
+    const cache = createCache({ ttlMs: { 'news/search': 100, 'local/pois': 0 } });
+    cache.set('news', 'news/search', 'n');
+    cache.set('pois', 'local/pois', 'p');
+    expect(cache.get('pois')).toBeUndefined();
+    clock += 100;
+    expect(cache.get('news')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = createCache();
+    cache.set('a', 'web/search', 1);
+    cache.set('b', 'web/search', 2);
+    cache.set('c', 'web/search', 3);
+    cache.get('a'); // "b" is now the least recently used
+    cache.set('d', 'web/search', 4);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('d')).toBe(4);
+    expect(cache.size).toBe(3);
+  });
+
+  it('should do nothing when maxEntries is 0', () => {
+    const cache = createCache({ maxEntries: 0 });
+    expect(cache.enabled).toBe(false);
+    cache.set('a', 'web/search', 1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should persist entries to the cache file and drop expired ones on load', () => {
+    const first = createCache({ filePath, ttlMs: { 'news/search': 100 } });
+    first.set('web', 'web/search', 'w');
+    first.set('news', 'news/search', 'n');
+    first.flush();
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    clock += 500;
+    const second = createCache({ filePath, ttlMs: { 'news/search': 100 } });
+    expect(second.get('web')).toBe('w');
+    expect(second.get('news')).toBeUndefined();
+  });
+
+  it('should write changes together after the write delay, through a temporary file', () => {
+    jest.useFakeTimers();
+    try {
+      const writeSpy = jest.spyOn(fs, 'writeFileSync');
+      const cache = createCache({ filePath, writeDelayMs: 500 });
+      cache.set('a', 'web/search', 1);
+      cache.set('b', 'web/search', 2);
+      expect(fs.existsSync(filePath)).toBe(false);
+
+      jest.advanceTimersByTime(500);
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      expect(writeSpy.mock.calls[0][0]).not.toBe(filePath);
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['cache.json']);
+      expect(createCache({ filePath }).get('b')).toBe(2);
+      writeSpy.mockRestore();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should start empty when the cache file is corrupt', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{not json');
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      const cache = createCache({ filePath });
+      expect(cache.size).toBe(0);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  it('should clear all entries', () => {
+    const cache = createCache({ filePath });
+    cache.set('a', 'web/search', 1);
+    cache.flush();
+    cache.clear();
+    cache.flush();
+    expect(cache.get('a')).toBeUndefined();
+    expect(createCache({ filePath }).size).toBe(0);
+  });
+});
+
+describe('normalizeCacheKey (cache.ts)', () => {
+  it('should sort parameters by name', () => {
+    const a = new URL('https://api.search.brave.com/res/v1/web/search?q=test&count=10&offset=0');
+    const b = new URL('https://api.search.brave.com/res/v1/web/search?offset=0&q=test&count=10');
+    expect(normalizeCacheKey(a)).toBe(normalizeCacheKey(b));
+  });
+
+  it('should keep the order of repeated parameters', () => {
+    const a = new URL('https://api.search.brave.com/res/v1/local/pois?ids=1&ids=2');
+    const b = new URL('https://api.search.brave.com/res/v1/local/pois?ids=2&ids=1');
+    expect(normalizeCacheKey(a)).not.toBe(normalizeCacheKey(b));
+  });
+
+  it('should tell requests apart by their headers, in any order', () => {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search?q=coffee');
+    expect(normalizeCacheKey(url, { 'X-Loc-City': 'Austin', 'X-Loc-State': 'TX' })).toBe(normalizeCacheKey(url, { 'x-loc-state': 'TX', 'X-Loc-City': 'Austin' }));
+    expect(normalizeCacheKey(url, { 'X-Loc-City': 'Austin' })).not.toBe(normalizeCacheKey(url, { 'X-Loc-City': 'Boston' }));
+    expect(normalizeCacheKey(url, {})).toBe(normalizeCacheKey(url));
+  });
+});
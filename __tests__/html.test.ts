@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { decodeEntities, findFirst, htmlToMarkdown, parseHtml, textContent } from '../html.js';
+
+describe('parseHtml (html.ts)', () => {
+  it('should build a tree, closing <p> and <li> implicitly', () => {
+    const doc = parseHtml('<ul><li>One<li>Two</ul><p>First<p>Second');
+    const list = findFirst(doc, 'ul')!;
+    expect(list.children.map(textContent)).toEqual(['One', 'Two']);
+    expect(doc.children.filter(child => child.type === 'element' && child.tag === 'p')).toHaveLength(2);
+  });
+
+  it('should keep script content as text and skip comments', () => {
+    const doc = parseHtml('<!DOCTYPE html><!-- <p>hidden</p> --><script>if (a < b) {}</script><p>Shown</p>');
+    expect(textContent(findFirst(doc, 'script')!)).toBe('if (a < b) {}');
+    expect(textContent(doc)).toBe('if (a < b) {}Shown');
+  });
+
+  it('should drop elements nested too deep but keep their text', () => {
+    const depth = 20000;
+    const doc = parseHtml(`${'<div>'.repeat(depth)}<b>Deep</b>${'</div>'.repeat(depth)}<p>After</p>`);
+    expect(textContent(doc)).toBe('DeepAfter');
+    expect(doc.children.map(child => child.type === 'element' && child.tag)).toEqual(['div', 'p']);
+    expect(htmlToMarkdown(doc)).toBe('Deep\n\nAfter');
+  });
+
+  it('should read quoted, unquoted and valueless attributes', () => {
+    const doc = parseHtml('<a href="/x?a=1&amp;b=2" title=\'a > b\' data-id=7 hidden>Link</a>');
+    expect(findFirst(doc, 'a')!.attrs).toEqual({ href: '/x?a=1&b=2', title: 'a > b', 'data-id': '7', hidden: '' });
+  });
+
+  it('should decode named and numeric entities', () => {
+    expect(decodeEntities('&lt;tag&gt; &amp; &#8212; &#x2713; &unknown;')).toBe('<tag> & — ✓ &unknown;');
+  });
+});
+
+describe('htmlToMarkdown (html.ts)', () => {
+  const render = (html: string, baseUrl?: string) => htmlToMarkdown(parseHtml(html), baseUrl);
+
+  it('should render headings, paragraphs and inline formatting', () => {
+    expect(render('<h2>Title</h2>\n  <p>Some <strong>bold</strong> and <em> soft </em> <code>x()</code>.</p>'))
+      .toBe('## Title\n\nSome **bold** and *soft* `x()`.');
+  });
+
+  it('should resolve links and images against the base URL', () => {
+    expect(render('<p><a href="/docs">Docs</a> <a href="#top">Top</a> <img src="a.png" alt="A"></p>', 'https://example.com/guide/'))
+      .toBe('[Docs](https://example.com/docs) Top ![A](https://example.com/guide/a.png)');
+  });
+
+  it('should render nested lists with indentation', () => {
+    expect(render('<ul><li>One<ul><li>Inner</li></ul></li><li>Two</li></ul><ol start="3"><li>Three</li></ol>'))
+      .toBe('- One\n  - Inner\n- Two\n\n3. Three');
+  });
+
+  it('should keep preformatted text as a fenced block', () => {
+    expect(render('<p>Run:</p><pre><code>npm   install\n  npm test\n</code></pre>'))
+      .toBe('Run:\n\n```\nnpm   install\n  npm test\n```');
+  });
+
+  it('should render tables and blockquotes', () => {
+    expect(render('<table><tr><th>Name</th><th>Size</th></tr><tr><td>a|b</td><td>1</td></tr></table><blockquote><p>Quoted</p></blockquote>'))
+      .toBe('| Name | Size |\n| --- | --- |\n| a\\|b | 1 |\n\n> Quoted');
+  });
+
+  it('should find the end of raw text elements whatever their case', () => {
+    const doc = parseHtml('<SCRIPT>var a = "</p>";</ScRiPt><p>After</p><style>b {}</STYLE>');
+    expect(textContent(findFirst(doc, 'script')!)).toBe('var a = "</p>";');
+    expect(textContent(findFirst(doc, 'p')!)).toBe('After');
+    expect(textContent(findFirst(doc, 'style')!)).toBe('b {}');
+  });
+
+  it('should skip scripts, styles and forms controls', () => {
+    expect(render('<style>p { color: red }</style><p>Text<button>Click</button></p><script>alert(1)</script>')).toBe('Text');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'; // Import Jest globals for ESM
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { createHttpServer, HttpServerOptions } from '../httpServer.js';
+
+// A bare MCP server keeps these tests independent of the Brave tools and configuration
+function createTestMcpServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'jest', version: '1.0.0' } },
+};
+
+const MCP_HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+// Streamable HTTP answers POSTs with a short SSE stream; pull the JSON-RPC message out of it
+async function readMessage(response: Response): Promise<any> {
+  const body = await response.text();
+  const data = body.split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(data ? data.slice('data: '.length) : body);
+}
+
+describe('HTTP transport (httpServer.ts)', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const start = async (options: Partial<HttpServerOptions> = {}) => {
+    server = createHttpServer({ createMcpServer: createTestMcpServer, ...options });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(async () => {
+    await start({ authToken: 'secret-token', corsOrigins: ['https://allowed.example'] });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should answer /healthz without authentication', async () => {
+    const response = await fetch(`${baseUrl}/healthz`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: { streamableHttp: 0, sse: 0 } });
+  });
+
+  it('should reject MCP requests without the bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: MCP_HEADERS, body: JSON.stringify(INITIALIZE_REQUEST) });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...MCP_HEADERS, Authorization: 'Bearer nope' }, body: JSON.stringify(INITIALIZE_REQUEST) });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should create a Streamable HTTP session on initialize and route later requests to it', async () => {
+    const headers = { ...MCP_HEADERS, Authorization: 'Bearer secret-token' };
+    const init = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: JSON.stringify(INITIALIZE_REQUEST) });
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    expect((await readMessage(init)).result.serverInfo.name).toBe('test');
+
+    const sessionHeaders = { ...headers, 'Mcp-Session-Id': sessionId!, 'Mcp-Protocol-Version': '2025-06-18' };
+    await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: sessionHeaders, body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) });
+    const list = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: sessionHeaders, body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) });
+    expect((await readMessage(list)).result).toEqual({ tools: [] });
+
+    const health = await (await fetch(`${baseUrl}/healthz`)).json();
+    expect(health.sessions.streamableHttp).toBe(1);
+  });
+
+  it('should reject non-initialize requests without a session and unknown sessions', async () => {
+    const headers = { ...MCP_HEADERS, Authorization: 'Bearer secret-token' };
+    const noSession = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) });
+    expect(noSession.status).toBe(400);
+
+    const unknown = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...headers, 'Mcp-Session-Id': 'missing' }, body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should reject malformed JSON bodies', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...MCP_HEADERS, Authorization: 'Bearer secret-token' }, body: '{oops' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('not valid JSON');
+  });
+
+  it('should open an SSE stream that announces the message endpoint', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, { headers: { Authorization: 'Bearer secret-token' }, signal: controller.signal });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    controller.abort();
+    expect(new TextDecoder().decode(value)).toMatch(/event: endpoint\ndata: \/messages\?sessionId=[\w-]+/);
+  });
+
+  it('should answer CORS preflights for allowed origins only', async () => {
+    const allowed = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://allowed.example' } });
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://allowed.example');
+    expect(allowed.headers.get('access-control-expose-headers')).toBe('Mcp-Session-Id');
+
+    const denied = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://evil.example' } });
+    expect(denied.status).toBe(403);
+  });
+
+  it('should accept any origin and skip authentication when so configured', async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await start({ corsOrigins: ['*'] });
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...MCP_HEADERS, Origin: 'https://any.example' }, body: JSON.stringify(INITIALIZE_REQUEST) });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+  });
+});
@@ -1,13 +1,28 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals'; // Import Jest globals for ESM
 
 // Import types needed for mock function signatures
-import type { BraveWeb, BravePoiResponse, BraveDescription } from '../apiClient.js';
+import type { BraveWeb, BraveDeepSearchResponse, BravePoiResponse, BraveDescription, BraveImageResponse, BraveVideoResponse, BraveNewsResponse, BraveSummarizerSearch, BraveSummaryResponse, BraveSuggestResponse, BraveSpellcheckResponse } from '../apiClient.js';
+import type { QuotaStatus } from '../quota.js';
+import type { ApiKeyStatus } from '../keyPool.js';
+import type { FetchedPage } from '../pageFetcher.js';
 
 // Mock the apiClient module - Ensure all functions used by index.ts are mocked with correct types
 const mockFetchWebSearch = jest.fn<() => Promise<BraveWeb>>();
+const mockFetchDeepWebSearch = jest.fn<() => Promise<BraveDeepSearchResponse>>();
 const mockFetchInitialLocalSearch = jest.fn<() => Promise<BraveWeb>>();
+const mockFetchLocalFallbackSearch = jest.fn<() => Promise<BraveWeb>>();
 const mockFetchPoiDetails = jest.fn<() => Promise<BravePoiResponse>>();
 const mockFetchPoiDescriptions = jest.fn<() => Promise<BraveDescription>>();
+const mockFetchImageSearch = jest.fn<() => Promise<BraveImageResponse>>();
+const mockFetchVideoSearch = jest.fn<() => Promise<BraveVideoResponse>>();
+const mockFetchNewsSearch = jest.fn<() => Promise<BraveNewsResponse>>();
+const mockFetchSuggestions = jest.fn<() => Promise<BraveSuggestResponse>>();
+const mockFetchSpellcheck = jest.fn<() => Promise<BraveSpellcheckResponse>>();
+const mockFetchSummarizerKey = jest.fn<() => Promise<BraveSummarizerSearch>>();
+const mockFetchSummary = jest.fn<() => Promise<BraveSummaryResponse>>();
+const mockFetchPage = jest.fn<() => Promise<FetchedPage>>();
+const mockGetQuotaStatus = jest.fn<() => QuotaStatus>();
+const mockGetApiKeyStatus = jest.fn<() => ApiKeyStatus[]>(() => []);
 class MockBraveApiError extends Error {
     status?: number;
     details?: string;
@@ -19,19 +34,32 @@ class MockBraveApiError extends Error {
     }
 }
 
-jest.mock('../apiClient.js', () => ({
+// ESM modules must be mocked with unstable_mockModule before they are imported
+jest.unstable_mockModule('../apiClient.js', () => ({
   fetchWebSearch: mockFetchWebSearch,
+  fetchDeepWebSearch: mockFetchDeepWebSearch,
   fetchInitialLocalSearch: mockFetchInitialLocalSearch,
+  fetchLocalFallbackSearch: mockFetchLocalFallbackSearch,
   fetchPoiDetails: mockFetchPoiDetails,
   fetchPoiDescriptions: mockFetchPoiDescriptions,
+  fetchImageSearch: mockFetchImageSearch,
+  fetchVideoSearch: mockFetchVideoSearch,
+  fetchNewsSearch: mockFetchNewsSearch,
+  fetchSuggestions: mockFetchSuggestions,
+  fetchSpellcheck: mockFetchSpellcheck,
+  fetchSummarizerKey: mockFetchSummarizerKey,
+  fetchSummary: mockFetchSummary,
+  fetchPage: mockFetchPage,
+  getQuotaStatus: mockGetQuotaStatus,
+  getApiKeyStatus: mockGetApiKeyStatus,
   BraveApiError: MockBraveApiError,
   _resetRateLimiterForTest: jest.fn() // Mock the test helper too
 }));
 
 // Import after mocks are set up
 // Import the *handlers* exported from index.ts, not the server instance
-import { listToolsHandler, callToolHandler } from '../index.js';
-import { ALL_TOOLS } from '../tools.js'; // Import actual tools for comparison
+const { listToolsHandler, callToolHandler, listResourcesHandler, listResourceTemplatesHandler, readResourceHandler, listPromptsHandler, getPromptHandler } = await import('../index.js');
+const { ALL_TOOLS } = await import('../tools.js'); // Import actual tools for comparison
 // SDK types might not be needed if we don't interact with server directly
 // import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 
@@ -40,9 +68,19 @@ describe('Brave Search MCP Server (index.ts)', () => {
   beforeEach(() => {
     // Reset mocks before each test
     mockFetchWebSearch.mockClear();
+    mockFetchDeepWebSearch.mockClear();
     mockFetchInitialLocalSearch.mockClear();
+    mockFetchLocalFallbackSearch.mockClear();
     mockFetchPoiDetails.mockClear();
     mockFetchPoiDescriptions.mockClear();
+    mockFetchImageSearch.mockClear();
+    mockFetchVideoSearch.mockClear();
+    mockFetchNewsSearch.mockClear();
+    mockFetchSuggestions.mockClear();
+    mockFetchSpellcheck.mockClear();
+    mockFetchSummarizerKey.mockClear();
+    mockFetchSummary.mockClear();
+    mockFetchPage.mockClear();
   });
 
   // --- ListTools Handler ---
@@ -69,10 +107,137 @@ describe('Brave Search MCP Server (index.ts)', () => {
       expect(response.isError).toBe(false); // Check response status
       // Check that the correct *mocked* function was called by the handler's internal logic
       expect(mockFetchWebSearch).toHaveBeenCalledTimes(1);
-      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0); // Check args and defaults
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0, {}, { noCache: undefined }); // Check args and defaults
       expect(mockFetchInitialLocalSearch).not.toHaveBeenCalled();
     });
 
+    it('should pass web search options through to fetchWebSearch', async () => {
+      mockFetchWebSearch.mockResolvedValueOnce({ web: { results: [{ title: 'Web Result', url: 'url', description: 'desc', extra_snippets: ['More context'] }] } });
+      const request = {
+        params: { name: 'brave_web_search', arguments: { query: 'web test', country: 'DE', search_lang: 'de', safesearch: 'strict', extra_snippets: true, result_filter: ['web', 'faq'] } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0, { country: 'DE', search_lang: 'de', safesearch: 'strict', extra_snippets: true, result_filter: ['web', 'faq'] }, { noCache: undefined });
+      expect(response.content[0].text).toContain('Extra Snippets:\n- More context');
+    });
+
+    it('should render included sections in Brave\'s mixed ranking order', async () => {
+      mockFetchWebSearch.mockResolvedValueOnce({
+        mixed: { main: [{ type: 'news', all: true }, { type: 'web', index: 0, all: false }, { type: 'discussions', index: 0, all: false }] },
+        web: { results: [{ title: 'Web Result', url: 'https://web.example', description: 'desc' }] },
+        news: { results: [{ title: 'Headline', url: 'https://news.example', source: 'Daily', breaking: true }] },
+        discussions: { results: [{ title: 'Thread', url: 'https://forum.example', description: 'talk', data: { forum_name: 'r/test', num_answers: 3 } }] },
+      });
+      const response = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'web test', include: ['news', 'discussions'] } } } as any);
+
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0, { include: ['news', 'discussions'] }, { noCache: undefined });
+      expect(response.content[0].text).toBe([
+        'News:',
+        '[BREAKING] Title: Headline\nSource: Daily\nURL: https://news.example',
+        'Web results:',
+        'Title: Web Result\nDescription: desc\nURL: https://web.example',
+        'Discussions:',
+        'Title: Thread\nForum: r/test\nAnswers: 3\nDescription: talk\nURL: https://forum.example',
+      ].join('\n\n'));
+      expect((response.structuredContent as any).ranking).toEqual([{ section: 'news' }, { section: 'web', index: 0 }, { section: 'discussions', index: 0 }]);
+    });
+
+    it('should pass no_cache as a request option rather than a search option', async () => {
+      mockFetchWebSearch.mockResolvedValueOnce({ web: { results: [] } });
+      const request = {
+        params: { name: 'brave_web_search', arguments: { query: 'web test', no_cache: true } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0, {}, { noCache: true });
+    });
+
+    it('should tell the agent when Brave searched for a corrected query', async () => {
+      mockFetchWebSearch.mockResolvedValueOnce({ query: { original: 'helo wrld', altered: 'hello world' }, web: { results: [{ title: 'Hello', url: 'url', description: 'desc' }] } });
+      const response = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'helo wrld' } } } as any);
+
+      expect(response.content[0].text).toMatch(/^Showing results for "hello world" instead of "helo wrld"\./);
+      expect((response.structuredContent as any).query).toEqual({ original: 'helo wrld', altered: 'hello world' });
+    });
+
+    it('should return error for web search options outside Brave\'s allowed values', async () => {
+      const request = {
+        params: { name: 'brave_web_search', arguments: { query: 'web test', ui_lang: 'en-XX' } }
+      };
+      const response = await callToolHandler(request as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid arguments for tool "brave_web_search"');
+      expect(mockFetchWebSearch).not.toHaveBeenCalled();
+    });
+
+    it('should route to performDeepSearch for brave_deep_search tool', async () => {
+      mockFetchDeepWebSearch.mockResolvedValueOnce({
+        results: [{ title: 'First', url: 'https://a.example', description: 'a' }, { title: 'Second', url: 'https://b.example', description: 'b' }],
+        pages: 3,
+        duplicates: 4,
+        more_results_available: false,
+      });
+      const request = {
+        params: { name: 'brave_deep_search', arguments: { query: 'survey', total: 100, freshness: 'py' } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchDeepWebSearch).toHaveBeenCalledWith('survey', 100, { country: undefined, search_lang: undefined, safesearch: undefined, freshness: 'py' }, { noCache: undefined });
+      expect(response.content[0].text).toMatch(/^2 results from 3 page\(s\), 4 duplicate\(s\) removed\. No more results available\.\n\nTitle: First/);
+      expect(response.structuredContent).toMatchObject({ pages_fetched: 3, duplicates_removed: 4, more_results_available: false });
+    });
+
+    it('should merge brave_multi_search results with reciprocal rank fusion', async () => {
+      mockFetchWebSearch
+        .mockResolvedValueOnce({ web: { results: [{ title: 'Only One', url: 'https://one.example', description: '' }, { title: 'Shared', url: 'https://shared.example/page', description: '' }] } })
+        .mockResolvedValueOnce({ web: { results: [{ title: 'Shared', url: 'http://www.shared.example/page/', description: '' }, { title: 'Only Two', url: 'https://two.example', description: '' }] } });
+      const request = {
+        params: { name: 'brave_multi_search', arguments: { queries: ['rust memory', 'rust ownership', 'rust memory'], count: 5 } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchWebSearch).toHaveBeenCalledTimes(2); // Repeated queries run once
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('rust ownership', 5, 0, { country: undefined, search_lang: undefined, safesearch: undefined, freshness: undefined }, { noCache: undefined });
+      const structured = response.structuredContent as any;
+      expect(structured.results.map((r: any) => r.title)).toEqual(['Shared', 'Only One', 'Only Two']);
+      expect(structured.results[0].matched_queries).toEqual(['rust memory', 'rust ownership']);
+      expect(response.content[0].text).toMatch(/^Rank: 1\nTitle: Shared\n.*\nURL: http:\/\/www.shared.example\/page\/\nMatched queries: rust memory \| rust ownership/);
+    });
+
+    it('should not merge multi search results that have no URL', async () => {
+      mockFetchWebSearch
+        .mockResolvedValueOnce({ web: { results: [{ title: 'No URL A', url: '', description: '' }, { title: 'No URL B', url: '', description: '' }] } })
+        .mockResolvedValueOnce({ web: { results: [{ title: 'No URL C', url: '', description: '' }] } });
+      const response = await callToolHandler({ params: { name: 'brave_multi_search', arguments: { queries: ['one', 'two'] } } } as any);
+
+      const results = (response.structuredContent as any).results;
+      expect(results.map((r: any) => r.title)).toEqual(['No URL A', 'No URL C', 'No URL B']);
+      expect(results.map((r: any) => r.matched_queries)).toEqual([['one'], ['two'], ['one']]);
+    });
+
+    it('should report failed queries and keep the results of the others', async () => {
+      mockFetchWebSearch
+        .mockResolvedValueOnce({ web: { results: [{ title: 'Fine', url: 'https://fine.example', description: '' }] } })
+        .mockRejectedValueOnce(new MockBraveApiError('API request failed', 500));
+      const response = await callToolHandler({ params: { name: 'brave_multi_search', arguments: { queries: ['good', 'bad'] } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].text).toContain('Query "bad" failed: Brave API Error (500): API request failed');
+      expect((response.structuredContent as any).failed_queries).toEqual([{ query: 'bad', error: 'Brave API Error (500): API request failed' }]);
+      expect((response.structuredContent as any).results).toHaveLength(1);
+    });
+
+    it('should return error for an empty brave_multi_search query list', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_multi_search', arguments: { queries: [] } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid arguments for tool "brave_multi_search"');
+    });
+
     it('should route to performLocalSearch for brave_local_search tool', async () => {
       // Mock the sequence: initial local search -> POI details -> POI descriptions
       mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }] } });
@@ -87,17 +252,132 @@ describe('Brave Search MCP Server (index.ts)', () => {
 
       expect(response.isError).toBe(false); // Check response status
       expect(mockFetchInitialLocalSearch).toHaveBeenCalledTimes(1);
-      expect(mockFetchInitialLocalSearch).toHaveBeenCalledWith('local test', 3); // Check args
+      expect(mockFetchInitialLocalSearch).toHaveBeenCalledWith('local test', 3, { location: {} }, { noCache: undefined }); // Check args
       expect(mockFetchPoiDetails).toHaveBeenCalledTimes(1);
-      expect(mockFetchPoiDetails).toHaveBeenCalledWith(['poi1']);
+      expect(mockFetchPoiDetails).toHaveBeenCalledWith(['poi1'], { noCache: undefined });
       expect(mockFetchPoiDescriptions).toHaveBeenCalledTimes(1);
-      expect(mockFetchPoiDescriptions).toHaveBeenCalledWith(['poi1']);
+      expect(mockFetchPoiDescriptions).toHaveBeenCalledWith(['poi1'], { noCache: undefined });
       expect(mockFetchWebSearch).not.toHaveBeenCalled();
     });
 
+    it('should pass the user location and language on to local search', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [] } });
+      mockFetchLocalFallbackSearch.mockResolvedValueOnce({ web: { results: [] } });
+      const location = { latitude: 30.27, longitude: -97.74, city: 'Austin', state: 'TX', country: 'us', timezone: 'America/Chicago' };
+      await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'coffee near me', search_lang: 'es', ...location } } } as any);
+      expect(mockFetchInitialLocalSearch).toHaveBeenCalledWith('coffee near me', 5, { search_lang: 'es', country: 'US', location }, { noCache: undefined });
+      expect(mockFetchLocalFallbackSearch).toHaveBeenCalledWith('coffee near me', 5, { search_lang: 'es', country: 'US', location }, { noCache: undefined });
+
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [] } });
+      mockFetchLocalFallbackSearch.mockResolvedValueOnce({ web: { results: [] } });
+      await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'coffee', country: 'IS' } } } as any);
+      expect(mockFetchInitialLocalSearch).toHaveBeenLastCalledWith('coffee', 5, { country: undefined, location: { country: 'IS' } }, { noCache: undefined }); // Brave can't target Iceland
+    });
+
+    it('should sort local results by distance from the user and show it', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'far' }, { id: 'near' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [
+        { id: 'far', name: 'Far Cafe', address: {}, coordinates: { latitude: 40.7061, longitude: -74.0087 }, rating: { ratingValue: 4.9 } },
+        { id: 'near', name: 'Near Cafe', address: {}, coordinates: { latitude: 40.7590, longitude: -73.9845 }, rating: { ratingValue: 4.2 } },
+      ] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: {} });
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe', latitude: 40.758, longitude: -73.9855, sort_by: 'distance', min_rating: 4 } } } as any);
+
+      expect((response.structuredContent as any).places.map((place: any) => place.id)).toEqual(['near', 'far']);
+      expect(response.content[0].text).toMatch(/^Name: Near Cafe[\s\S]*Distance: 140 m\n/);
+    });
+
+    it('should report places dropped by the filters', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [{ id: 'poi1', name: 'Unrated', address: {} }] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: {} });
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe', min_rating: 4 } } } as any);
+
+      expect(response.structuredContent).toEqual({ places: [], filtered_out: 1 });
+      expect(response.content[0].text).toBe('The one place found does not match the filters.');
+    });
+
+    it('should show opening status and keep only open places with open_now', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'always' }, { id: 'never' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [
+        { id: 'always', name: 'Diner', address: {}, openingHours: ['24/7'] },
+        { id: 'never', name: 'Shut', address: {}, openingHours: ['Mo-Su closed'] },
+      ] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: {} });
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'diner', open_now: true } } } as any);
+
+      expect((response.structuredContent as any).places).toMatchObject([{ id: 'always', opening_status: { open_now: true, summary: 'Open 24 hours' } }]);
+      expect(response.content[0].text).toContain('Status: Open 24 hours\n');
+      expect(response.content[0].text).toContain('1 more place was found but did not match the filters.');
+    });
+
+    it('should export POI details as GeoJSON and report places without coordinates', async () => {
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [
+        { id: 'poi1', name: 'Mapped', address: {}, coordinates: { latitude: 1, longitude: 2 } },
+        { id: 'poi2', name: 'Unmapped', address: {} },
+      ] });
+      const response = await callToolHandler({ params: { name: 'brave_poi_details', arguments: { ids: ['poi1', 'poi2'], export_format: 'geojson' } } } as any);
+
+      const collection = JSON.parse(response.content[0].text);
+      expect(collection.features.map((feature: any) => feature.geometry)).toEqual([{ type: 'Point', coordinates: [2, 1] }, null]);
+      expect(response.content[1].text).toBe('1 of the exported places has no coordinates and cannot be placed on a map: Unmapped (poi2)');
+      expect((response.structuredContent as any).places).toHaveLength(2);
+    });
+
+    it('should refuse to sort by distance without a location', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe', sort_by: 'distance' } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('sort_by: needs origin, or latitude and longitude, to sort by distance');
+      expect(mockFetchInitialLocalSearch).not.toHaveBeenCalled();
+    });
+
+    it('should require both coordinates', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'coffee', latitude: 30.27 } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Invalid arguments for tool "brave_local_search":\n- longitude: is required when latitude is given');
+      expect(mockFetchInitialLocalSearch).not.toHaveBeenCalled();
+    });
+
+    it('should keep the places when their descriptions fail', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [{ id: 'poi1', name: 'POI', address: {} }] });
+      mockFetchPoiDescriptions.mockRejectedValueOnce(new MockBraveApiError('API request failed', 500));
+
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe' } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchWebSearch).not.toHaveBeenCalled();
+      expect(response.structuredContent).toEqual({ places: [{ id: 'poi1', name: 'POI' }], unavailable_descriptions: ['poi1'] });
+      expect(response.content[0].text).toContain('Descriptions could not be fetched for 1 place.');
+    });
+
+    it('should report places whose details could not be fetched', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }, { id: 'poi2' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [{ id: 'poi1', name: 'POI', address: {} }], failed_ids: ['poi2'] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: {}, failed_ids: ['poi2'] });
+
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe' } } } as any);
+
+      expect(response.structuredContent).toEqual({ places: [{ id: 'poi1', name: 'POI' }], unavailable_details: ['poi2'] });
+      expect(response.content[0].text).toContain('Details could not be fetched for 1 place (poi2).');
+    });
+
+    it('should fall back to web search when POI details fail', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }] } });
+      mockFetchPoiDetails.mockRejectedValueOnce(new MockBraveApiError('API request failed', 500));
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: { poi1: 'Desc' } });
+      mockFetchLocalFallbackSearch.mockResolvedValueOnce({ web: { results: [{ title: 'Fallback Web', url: 'url', description: 'desc' }] } });
+
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe' } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchLocalFallbackSearch).toHaveBeenCalledWith('cafe', 5, { location: {} }, { noCache: undefined });
+      expect((response.structuredContent as any).web_results).toHaveLength(1);
+    });
+
      it('should handle local search fallback to web search if no location IDs found', async () => {
       mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [] } }); // No locations
-      mockFetchWebSearch.mockResolvedValueOnce({ web: { results: [{ title: 'Fallback Web', url: 'url', description: 'desc' }] } });
+      mockFetchLocalFallbackSearch.mockResolvedValueOnce({ web: { results: [{ title: 'Fallback Web', url: 'url', description: 'desc' }] } });
 
       const request = {
         // method: 'callTool',
@@ -107,11 +387,242 @@ describe('Brave Search MCP Server (index.ts)', () => {
 
       expect(response.isError).toBe(false); // Check response status
       expect(mockFetchInitialLocalSearch).toHaveBeenCalledTimes(1);
-      expect(mockFetchInitialLocalSearch).toHaveBeenCalledWith('no locations here', 5);
+      expect(mockFetchInitialLocalSearch).toHaveBeenCalledWith('no locations here', 5, { location: {} }, { noCache: undefined });
       expect(mockFetchPoiDetails).not.toHaveBeenCalled(); // Details not fetched
       expect(mockFetchPoiDescriptions).not.toHaveBeenCalled(); // Descriptions not fetched
-      expect(mockFetchWebSearch).toHaveBeenCalledTimes(1); // Fallback called
-      expect(mockFetchWebSearch).toHaveBeenCalledWith('no locations here', 5, 0); // Fallback uses original query/count
+      expect(mockFetchLocalFallbackSearch).toHaveBeenCalledTimes(1); // Fallback called
+      expect(mockFetchLocalFallbackSearch).toHaveBeenCalledWith('no locations here', 5, { location: {} }, { noCache: undefined }); // Fallback uses original query/count
+      expect(response.structuredContent).toEqual({ places: [], web_results: [{ title: 'Fallback Web', url: 'url', description: 'desc' }] });
+    });
+
+    it('should return structured content for local search with POI ids and coordinates', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi1' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [{ id: 'poi1', name: 'Cafe', address: { streetAddress: '1 Main St' }, coordinates: { latitude: 52.5, longitude: 13.4 }, rating: { ratingValue: 4.5, ratingCount: 10 } }] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: { 'poi1': 'Cosy' } });
+
+      const response = await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe' } } } as any);
+
+      expect(response.structuredContent).toEqual({
+        places: [{ id: 'poi1', name: 'Cafe', address: '1 Main St', rating: 4.5, rating_count: 10, coordinates: { latitude: 52.5, longitude: 13.4 }, description: 'Cosy' }],
+      });
+      expect(response.content[0].text).toContain('Name: Cafe'); // Text output stays the default
+    });
+
+    it('should render the text block as JSON or markdown when output_format is set', async () => {
+      const webData = { web: { results: [{ title: 'Web [Result]', url: 'https://example.com', description: 'desc' }] } };
+      mockFetchWebSearch.mockResolvedValueOnce(webData).mockResolvedValueOnce(webData);
+
+      const json = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'web test', output_format: 'json' } } } as any);
+      expect(JSON.parse(json.content[0].text)).toEqual({ results: [{ title: 'Web [Result]', url: 'https://example.com', description: 'desc' }] });
+      expect(json.structuredContent).toEqual(JSON.parse(json.content[0].text));
+      expect(mockFetchWebSearch).toHaveBeenCalledWith('web test', 10, 0, {}, { noCache: undefined }); // output_format is not a search option
+
+      const markdown = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'web test', output_format: 'markdown' } } } as any);
+      expect(markdown.content[0].text).toBe('### [Web \\[Result\\]](https://example.com)\n\ndesc');
+    });
+
+    it('should return error for an unsupported output_format', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_quota_status', arguments: { output_format: 'xml' } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid arguments for tool "brave_quota_status"');
+    });
+
+    it('should route to performImageSearch for brave_image_search tool', async () => {
+      mockFetchImageSearch.mockResolvedValueOnce({
+        results: [{
+          title: 'Image Result',
+          url: 'https://example.com/page',
+          source: 'example.com',
+          thumbnail: { src: 'https://example.com/thumb.png' },
+          properties: { url: 'https://example.com/full.png', width: 800, height: 600 }
+        }]
+      });
+      const request = {
+        params: { name: 'brave_image_search', arguments: { query: 'image test', safesearch: 'off' } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchImageSearch).toHaveBeenCalledTimes(1);
+      expect(mockFetchImageSearch).toHaveBeenCalledWith('image test', 10, 'off', { noCache: undefined });
+      expect(response.content[0].text).toContain('Image URL: https://example.com/full.png');
+      expect(response.content[0].text).toContain('Dimensions: 800x600');
+      expect(mockFetchWebSearch).not.toHaveBeenCalled();
+    });
+
+    it('should route to performVideoSearch for brave_video_search tool', async () => {
+      mockFetchVideoSearch.mockResolvedValueOnce({
+        results: [{
+          title: 'Video Result',
+          url: 'https://example.com/watch',
+          age: '2 days ago',
+          video: { duration: '12:34', views: 1500000, creator: 'Some Channel', publisher: 'YouTube' }
+        }]
+      });
+      const request = {
+        params: { name: 'brave_video_search', arguments: { query: 'video test', count: 5, offset: 1 } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchVideoSearch).toHaveBeenCalledTimes(1);
+      expect(mockFetchVideoSearch).toHaveBeenCalledWith('video test', 5, 1, { noCache: undefined });
+      expect(response.content[0].text).toContain('Duration: 12:34');
+      expect(response.content[0].text).toContain('Views: 1,500,000');
+      expect(response.content[0].text).toContain('Creator: Some Channel');
+    });
+
+    it('should route to performNewsSearch and list articles newest first', async () => {
+      mockFetchNewsSearch.mockResolvedValueOnce({
+        results: [
+          { title: 'Older Story', url: 'https://example.com/old', page_age: '2024-05-01T08:00:00' },
+          { title: 'Undated Story', url: 'https://example.com/undated' },
+          { title: 'Newer Story', url: 'https://example.com/new', page_age: '2024-05-02T08:00:00', breaking: true, meta_url: { hostname: 'example.com' } }
+        ]
+      });
+      const request = {
+        params: { name: 'brave_news_search', arguments: { query: 'news test', freshness: 'pd', country: 'US' } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchNewsSearch).toHaveBeenCalledWith('news test', 10, 0, { freshness: 'pd', country: 'US', search_lang: undefined }, { noCache: undefined });
+      const text = response.content[0].text;
+      expect(text.indexOf('Newer Story')).toBeLessThan(text.indexOf('Older Story'));
+      expect(text.indexOf('Older Story')).toBeLessThan(text.indexOf('Undated Story'));
+      expect(text).toContain('[BREAKING] Title: Newer Story');
+      expect(text).toContain('Source: example.com');
+    });
+
+    it('should return error for invalid news freshness values', async () => {
+      const request = {
+        params: { name: 'brave_news_search', arguments: { query: 'news test', freshness: 'yesterday' } }
+      };
+      const response = await callToolHandler(request as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid arguments for tool "brave_news_search"');
+      expect(mockFetchNewsSearch).not.toHaveBeenCalled();
+    });
+
+    it('should route to performSuggest for brave_suggest tool', async () => {
+      mockFetchSuggestions.mockResolvedValueOnce({
+        query: { original: 'tesl' },
+        results: [{ query: 'tesla', is_entity: true, title: 'Tesla, Inc.', description: 'Car maker' }, { query: 'tesla stock' }],
+      });
+      const response = await callToolHandler({ params: { name: 'brave_suggest', arguments: { query: 'tesl', country: 'US' } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchSuggestions).toHaveBeenCalledWith('tesl', 5, { country: 'US', rich: undefined }, { noCache: undefined });
+      expect(response.content[0].text).toBe('Suggestion: tesla\nEntity: Tesla, Inc. - Car maker\n\nSuggestion: tesla stock');
+    });
+
+    it('should route to performSpellcheck for brave_spellcheck tool', async () => {
+      mockFetchSpellcheck.mockResolvedValueOnce({ query: { original: 'helo' }, results: [{ query: 'hello' }] });
+      const response = await callToolHandler({ params: { name: 'brave_spellcheck', arguments: { query: 'helo' } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchSpellcheck).toHaveBeenCalledWith('helo', undefined, { noCache: undefined });
+      expect(response.content[0].text).toBe('Did you mean:\n- hello');
+      expect(response.structuredContent).toEqual({ query: 'helo', corrections: ['hello'] });
+    });
+
+    it('should return the first chunk of a page with a cursor for brave_fetch_page', async () => {
+      const content = `# Guide\n\n${'a'.repeat(150)}\n\n${'b'.repeat(150)}`;
+      mockFetchPage.mockResolvedValueOnce({ url: 'https://example.com/guide', finalUrl: 'https://example.com/guide/', title: 'Guide', content, contentType: 'text/html', truncated: false });
+      const response = await callToolHandler({ params: { name: 'brave_fetch_page', arguments: { url: 'https://example.com/guide', max_chars: 200 } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchPage).toHaveBeenCalledWith('https://example.com/guide', { noCache: undefined });
+      expect(response.structuredContent).toEqual({
+        url: 'https://example.com/guide',
+        final_url: 'https://example.com/guide/',
+        title: 'Guide',
+        content: `# Guide\n\n${'a'.repeat(150)}`,
+        start: 0,
+        end: 161,
+        total_chars: content.length,
+        next_cursor: '161',
+        truncated: false,
+      });
+      expect(response.content[0].text).toContain('Characters 0-161 of 311');
+      expect(response.content[0].text).toContain('Call again with cursor "161" to continue.');
+    });
+
+    it('should continue from the cursor for brave_fetch_page', async () => {
+      mockFetchPage.mockResolvedValueOnce({ url: 'https://example.com', finalUrl: 'https://example.com/', content: 'first part\n\nsecond part', contentType: 'text/plain', truncated: false });
+      const response = await callToolHandler({ params: { name: 'brave_fetch_page', arguments: { url: 'https://example.com', cursor: '12' } } } as any);
+
+      expect((response.structuredContent as any).content).toBe('second part');
+      expect((response.structuredContent as any).next_cursor).toBeUndefined();
+    });
+
+    it('should report why a page could not be fetched', async () => {
+      const { PageFetchError } = await import('../pageFetcher.js');
+      mockFetchPage.mockRejectedValueOnce(new PageFetchError('robots.txt of example.com does not allow fetching /private', 'robots'));
+      const response = await callToolHandler({ params: { name: 'brave_fetch_page', arguments: { url: 'https://example.com/private' } } } as any);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Page Fetch Error (robots): robots.txt of example.com does not allow fetching /private');
+    });
+
+    it('should summarize with numbered citations for brave_summarize', async () => {
+      mockFetchSummarizerKey.mockResolvedValueOnce({
+        key: 'summary-key',
+        web: { web: { results: [{ title: 'Rust Lang', url: 'https://rust-lang.org', description: 'd' }] } },
+      });
+      mockFetchSummary.mockResolvedValueOnce({
+        status: 'complete',
+        summary: [{ type: 'token', data: 'Rust is a systems language.' }, { type: 'inline_reference', data: { url: 'https://rust-lang.org' } }],
+        followups: ['Who created Rust?'],
+      });
+      const request = {
+        params: { name: 'brave_summarize', arguments: { query: 'what is rust', country: 'US' } }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(mockFetchSummarizerKey).toHaveBeenCalledWith('what is rust', { country: 'US', search_lang: undefined }, { noCache: undefined });
+      expect(mockFetchSummary).toHaveBeenCalledWith('summary-key', {}, { noCache: undefined });
+      expect(response.content[0].text).toBe('Rust is a systems language. [1]\n\nSources:\n[1] Rust Lang - https://rust-lang.org\n\nFollow-up questions:\n- Who created Rust?');
+      expect((response.structuredContent as any).citations).toEqual([{ number: 1, title: 'Rust Lang', url: 'https://rust-lang.org' }]);
+    });
+
+    it('should say so when Brave has no summary for the query', async () => {
+      mockFetchSummarizerKey.mockResolvedValueOnce({ web: { web: { results: [] } } });
+      const response = await callToolHandler({ params: { name: 'brave_summarize', arguments: { query: 'asdfgh' } } } as any);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].text).toBe('No summary available for "asdfgh". Try brave_web_search instead.');
+      expect(mockFetchSummary).not.toHaveBeenCalled();
+    });
+
+    it('should report quota usage for brave_quota_status without calling the API', async () => {
+      mockGetQuotaStatus.mockReturnValueOnce({ month: '2024-05', used: 120, monthlyLimit: 2000, monthlyRemaining: 1850, softCap: 1900, softCapRemaining: 1750 });
+      const request = {
+        params: { name: 'brave_quota_status', arguments: {} }
+      };
+      const response = await callToolHandler(request as any);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].text).toContain('Monthly limit: 2000');
+      expect(response.content[0].text).toContain('Monthly remaining: 1850');
+      expect(response.content[0].text).toContain('Soft cap: 1900 (1750 queries left');
+      expect(response.structuredContent).toMatchObject({ month: '2024-05', used: 120, monthlyLimit: 2000 });
+      expect(response.content[0].text).not.toContain('API keys:'); // Only listed when there is more than one
+      expect(mockFetchWebSearch).not.toHaveBeenCalled();
+    });
+
+    it('should list the health and usage of each key when several keys are configured', async () => {
+      mockGetQuotaStatus.mockReturnValueOnce({ month: '2024-05', used: 30 });
+      mockGetApiKeyStatus.mockReturnValueOnce([
+        { key: 'BSAa…1111', healthy: true, quota: { month: '2024-05', used: 20, monthlyLimit: 2000, monthlyRemaining: 1980 } },
+        { key: 'BSAb…2222', healthy: false, unhealthyUntil: '2024-05-15T12:05:00.000Z', lastErrorStatus: 401, quota: { month: '2024-05', used: 10 } },
+      ]);
+      const response = await callToolHandler({ params: { name: 'brave_quota_status', arguments: {} } } as any);
+
+      expect(response.content[0].text).toContain('- BSAa…1111: healthy, 20 used, 1980 of 2000 remaining');
+      expect(response.content[0].text).toContain('- BSAb…2222: cooling down until 2024-05-15T12:05:00.000Z after 401, 10 used, remaining unknown');
+      expect((response.structuredContent as any).keys).toHaveLength(2);
     });
 
     it('should return error for unknown tool name', async () => {
@@ -136,6 +647,20 @@ describe('Brave Search MCP Server (index.ts)', () => {
       expect(response.content[0].text).toContain('Tool arguments are required');
     });
 
+    it('should list each invalid field with the reason', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'test', count: 500, offset: -1 } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Invalid arguments for tool "brave_web_search":\n- count: must be at most 20, got 500\n- offset: must be at least 0, got -1');
+      expect(mockFetchWebSearch).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty POI id list before calling Brave', async () => {
+      const response = await callToolHandler({ params: { name: 'brave_poi_details', arguments: { ids: [] } } } as any);
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('- ids: must not be empty');
+      expect(mockFetchPoiDetails).not.toHaveBeenCalled();
+    });
+
      it('should return error for invalid web search arguments', async () => {
        const request = {
         // method: 'callTool',
@@ -182,6 +707,84 @@ describe('Brave Search MCP Server (index.ts)', () => {
 
   });
 
+  // --- Resource Handlers ---
+  describe('Resource Handlers', () => {
+    it('should list the quota resource', async () => {
+      const response = await listResourcesHandler();
+      expect(response.resources.map(r => r.uri)).toContain('brave://quota');
+    });
+
+    it('should return the quota status as JSON', async () => {
+      mockGetQuotaStatus.mockReturnValueOnce({ month: '2024-05', used: 3 });
+      const response = await readResourceHandler({ params: { uri: 'brave://quota' } });
+      expect(response.contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(response.contents[0].text)).toEqual({ month: '2024-05', used: 3, keys: [] });
+    });
+
+    it('should reject unknown resource URIs', async () => {
+      await expect(readResourceHandler({ params: { uri: 'brave://nope' } })).rejects.toThrow('Unknown resource requested: brave://nope');
+    });
+
+    it('should keep each search as a resource linked from the tool result', async () => {
+      const data = { query: { original: 'stored query' }, web: { results: [{ title: 'Stored', url: 'https://example.com', description: 'desc' }] } };
+      mockFetchWebSearch.mockResolvedValueOnce(data);
+      const response = await callToolHandler({ params: { name: 'brave_web_search', arguments: { query: 'stored query', output_format: 'json' } } } as any);
+
+      const link = response.content[1] as Record<string, string>;
+      expect(link).toMatchObject({ type: 'resource_link', name: 'brave_web_search: "stored query"', mimeType: 'application/json' });
+      expect(link.uri).toMatch(/^brave:\/\/search\/[0-9a-f]+$/);
+      expect((await listResourcesHandler()).resources[1].uri).toBe(link.uri); // Newest search right after the quota
+
+      const resource = await readResourceHandler({ params: { uri: link.uri } });
+      expect(JSON.parse(resource.contents[0].text)).toMatchObject({ tool: 'brave_web_search', arguments: { query: 'stored query' }, response: data });
+      expect(mockFetchWebSearch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should make POIs from local searches readable by id', async () => {
+      mockFetchInitialLocalSearch.mockResolvedValueOnce({ locations: { results: [{ id: 'poi 1' }] } });
+      mockFetchPoiDetails.mockResolvedValueOnce({ results: [{ id: 'poi 1', name: 'Corner Cafe', address: { streetAddress: '1 Main St' } }] });
+      mockFetchPoiDescriptions.mockResolvedValueOnce({ descriptions: { 'poi 1': 'Good coffee' } });
+      await callToolHandler({ params: { name: 'brave_local_search', arguments: { query: 'cafe' } } } as any);
+
+      const resource = await readResourceHandler({ params: { uri: 'brave://poi/poi%201' } });
+      expect(JSON.parse(resource.contents[0].text)).toMatchObject({ id: 'poi 1', name: 'Corner Cafe', description: 'Good coffee' });
+    });
+
+    it('should not link a resource for tools that do not search', async () => {
+      mockGetQuotaStatus.mockReturnValueOnce({ month: '2024-05', used: 3 });
+      const response = await callToolHandler({ params: { name: 'brave_quota_status', arguments: {} } } as any);
+      expect(response.content).toHaveLength(1);
+    });
+
+    it('should explain when a search or POI is no longer kept', async () => {
+      await expect(readResourceHandler({ params: { uri: 'brave://search/missing' } })).rejects.toThrow('Search not found: brave://search/missing');
+      await expect(readResourceHandler({ params: { uri: 'brave://poi/missing' } })).rejects.toThrow('POI not found: brave://poi/missing');
+    });
+
+    it('should list templates for searches and POIs', async () => {
+      const response = await listResourceTemplatesHandler();
+      expect(response.resourceTemplates.map(t => t.uriTemplate)).toEqual(['brave://search/{id}', 'brave://poi/{id}']);
+    });
+  });
+
+  // --- Prompt Handlers ---
+  describe('Prompt Handlers', () => {
+    it('should list the prompts with their arguments', async () => {
+      const response = await listPromptsHandler();
+      const research = response.prompts.find(prompt => prompt.name === 'research_topic');
+      expect(research?.arguments?.find(argument => argument.name === 'topic')?.required).toBe(true);
+    });
+
+    it('should expand a prompt with its arguments', async () => {
+      const response = await getPromptHandler({ params: { name: 'research_topic', arguments: { topic: 'solar panels' } } });
+      expect(response.messages[0].content).toMatchObject({ type: 'text', text: expect.stringContaining('solar panels') });
+    });
+
+    it('should reject missing required arguments', async () => {
+      await expect(getPromptHandler({ params: { name: 'fact_check_claim' } })).rejects.toThrow('Missing required arguments for prompt "fact_check_claim": claim');
+    });
+  });
+
   // TODO: Add tests for formatting functions if they become more complex
   // describe('Formatting Functions', () => {
   //   it.todo('formatWebResults should format data correctly');
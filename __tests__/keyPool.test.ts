@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'; // Import Jest globals for ESM
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { KeyPool, KeyPoolOptions, NoApiKeyError, maskKey, parseKeyFile } from '../keyPool.js';
+
+describe('KeyPool (keyPool.ts)', () => {
+  let clock: number;
+
+  const createPool = (options: Partial<KeyPoolOptions> = {}) => new KeyPool({
+    keys: ['key-a', 'key-b', 'key-c'],
+    strategy: 'round-robin',
+    cooldownMs: 60000,
+    now: () => clock,
+    ...options,
+  });
+
+  beforeEach(() => {
+    clock = Date.UTC(2024, 4, 15, 12, 0, 0);
+  });
+
+  it('should rotate through keys round-robin', () => {
+    const pool = createPool();
+    expect([pool.select(), pool.select(), pool.select(), pool.select()]).toEqual(['key-a', 'key-b', 'key-c', 'key-a']);
+  });
+
+  it('should pick the least used key', () => {
+    const pool = createPool({ strategy: 'least-used' });
+    pool.recordResponse('key-a', undefined, true);
+    pool.recordResponse('key-b', new Headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1990' }), true); // 10 used per Brave
+    expect(pool.select()).toBe('key-c');
+    pool.recordResponse('key-c', undefined, true);
+    pool.recordResponse('key-c', undefined, true);
+    expect(pool.select()).toBe('key-a');
+  });
+
+  it('should skip keys during their cooldown and use them again afterwards', () => {
+    const pool = createPool();
+    pool.markUnhealthy('key-a', 401);
+    expect(pool.select()).toBe('key-b');
+    expect(pool.select()).toBe('key-c');
+    expect(pool.select()).toBe('key-b');
+
+    clock += 60000;
+    expect(pool.hasHealthyKey(new Set(['key-b', 'key-c']))).toBe(true);
+    expect(pool.select(new Set(['key-b', 'key-c']))).toBe('key-a');
+  });
+
+  it('should use the retry hint as the cooldown for 429 responses', () => {
+    const pool = createPool({ keys: ['key-a'] });
+    pool.markUnhealthy('key-a', 429, 2000);
+    expect(pool.msUntilHealthy()).toBe(2000);
+    pool.markUnhealthy('key-a', 429);
+    expect(pool.msUntilHealthy()).toBe(2000); // A shorter default never shortens an existing cooldown
+  });
+
+  it('should fall back to the key that recovers first when all keys are cooling down', () => {
+    const pool = createPool();
+    pool.markUnhealthy('key-a', 402);
+    pool.markUnhealthy('key-b', 429, 5000);
+    pool.markUnhealthy('key-c', 401);
+    expect(pool.hasHealthyKey()).toBe(false);
+    expect(pool.select()).toBe('key-b');
+    expect(pool.msUntilHealthy()).toBe(5000);
+  });
+
+  it('should clear a cooldown after a successful response', () => {
+    const pool = createPool({ keys: ['key-a'] });
+    pool.markUnhealthy('key-a', 429, 5000);
+    pool.recordResponse('key-a', undefined, true);
+    expect(pool.hasHealthyKey()).toBe(true);
+  });
+
+  it('should report masked keys with per-key quota', () => {
+    const pool = createPool({ keys: ['BSA-0123456789-abcd'] });
+    pool.recordResponse('BSA-0123456789-abcd', new Headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1500' }), true);
+    pool.markUnhealthy('BSA-0123456789-abcd', 401);
+    const [status] = pool.status();
+    expect(status.key).toBe('BSA-…abcd');
+    expect(status.healthy).toBe(false);
+    expect(status.lastErrorStatus).toBe(401);
+    expect(status.unhealthyUntil).toBe('2024-05-15T12:01:00.000Z');
+    expect(status.quota).toMatchObject({ used: 1, monthlyLimit: 2000, monthlyRemaining: 1500 });
+  });
+
+  it('should throw NoApiKeyError when no keys are configured', () => {
+    const pool = createPool({ keys: [] });
+    expect(() => pool.select()).toThrow(NoApiKeyError);
+  });
+
+  describe('key file', () => {
+    let tmpDir: string;
+    let keyFile: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brave-keys-'));
+      keyFile = path.join(tmpDir, 'keys.txt');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should combine environment keys with keys from the file, without duplicates', () => {
+      fs.writeFileSync(keyFile, '# team keys\nkey-b\nkey-d  # backup\n\n');
+      const pool = createPool({ keys: ['key-a', 'key-b'], keyFile });
+      expect(pool.size).toBe(3);
+      expect([pool.select(), pool.select(), pool.select()]).toEqual(['key-a', 'key-b', 'key-d']);
+    });
+
+    it('should pick up changes to the file without a restart', () => {
+      fs.writeFileSync(keyFile, 'key-a\n');
+      const pool = createPool({ keys: [], keyFile });
+      expect(pool.select()).toBe('key-a');
+
+      fs.writeFileSync(keyFile, 'key-e\nkey-f\n');
+      fs.utimesSync(keyFile, new Date(), new Date(Date.now() + 5000)); // Make sure the mtime changes
+      const originalError = console.error;
+      console.error = () => {};
+      try {
+        expect(pool.size).toBe(2);
+        expect(['key-e', 'key-f']).toContain(pool.select());
+      } finally {
+        console.error = originalError;
+      }
+    });
+  });
+});
+
+describe('key helpers (keyPool.ts)', () => {
+  it('should mask all but the first and last four characters of long keys', () => {
+    expect(maskKey('BSAabcdefghijklmnop1234')).toBe('BSAa…1234');
+    expect(maskKey('short')).toBe('****');
+  });
+
+  it('should ignore blank lines and comments in key files', () => {
+    expect(parseKeyFile('a\r\n# comment\n  b  # trailing\n\n')).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { getOpeningStatus, isOpenAt, localTime, parseOpeningHours } from '../openingHours.js';
+
+describe('parseOpeningHours (openingHours.ts)', () => {
+  it('should expand day ranges and lists into intervals', () => {
+    expect(parseOpeningHours(['Mo-We 09:00-17:30', 'Sa,Su 10:00-14:00'])).toEqual({
+      intervals: [
+        { day: 0, opens: 600, closes: 840 },
+        { day: 1, opens: 540, closes: 1050 },
+        { day: 2, opens: 540, closes: 1050 },
+        { day: 3, opens: 540, closes: 1050 },
+        { day: 6, opens: 600, closes: 840 },
+      ],
+      days: [0, 1, 2, 3, 6],
+    });
+  });
+
+  it('should accept full day names and ranges that wrap around the week', () => {
+    expect(parseOpeningHours(['Friday-Monday 8:00-12:00'])?.days).toEqual([0, 1, 5, 6]);
+  });
+
+  it('should read several intervals a day, 12-hour clocks and ranges past midnight', () => {
+    expect(parseOpeningHours(['Tu 11:30-14:00, 18:00-01:00'])?.intervals).toEqual([
+      { day: 2, opens: 690, closes: 840 },
+      { day: 2, opens: 1080, closes: 1500 },
+    ]);
+    expect(parseOpeningHours(['Monday: 9:00 AM – 5:30 PM'])?.intervals).toEqual([{ day: 1, opens: 540, closes: 1050 }]);
+    expect(parseOpeningHours(['Sa 12 PM-12 AM'])?.intervals).toEqual([{ day: 6, opens: 720, closes: 1440 }]);
+  });
+
+  it('should apply lines without days to the whole week and let closed days override them', () => {
+    expect(parseOpeningHours(['24/7', 'Su closed'])?.intervals.map(interval => interval.day)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(parseOpeningHours(['24/7', 'Su closed'])?.days).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(parseOpeningHours(['10:00-18:00'])?.intervals).toHaveLength(7);
+  });
+
+  it('should give up on lines it does not understand', () => {
+    expect(parseOpeningHours(['Mo-Fr 09:00-17:00', 'Public holidays closed'])).toBeUndefined();
+    expect(parseOpeningHours(['Mo 25:00-26:00'])).toBeUndefined();
+    expect(parseOpeningHours(['Mo 13 PM-2 PM'])).toBeUndefined();
+    expect(parseOpeningHours([])).toBeUndefined();
+    expect(parseOpeningHours(undefined)).toBeUndefined();
+  });
+
+  it('should have no schedule for places that never open', () => {
+    expect(parseOpeningHours(['Mo-Su closed'])).toBeUndefined();
+  });
+});
+
+describe('getOpeningStatus (openingHours.ts)', () => {
+  const weekdays = parseOpeningHours(['Mo-Fr 09:00-17:00'])!;
+  const wednesday = new Date('2024-05-15T14:00:00Z');
+
+  it('should read the wall clock of the given time zone', () => {
+    expect(localTime(wednesday, 'UTC')).toEqual({ day: 3, minutes: 840 });
+    expect(localTime(wednesday, 'Asia/Tokyo')).toEqual({ day: 3, minutes: 1380 });
+  });
+
+  it('should say when an open place closes, in its own time zone', () => {
+    expect(getOpeningStatus(weekdays, wednesday, 'America/New_York')).toEqual({
+      open_now: true,
+      closes_at: '2024-05-15T17:00:00-04:00',
+      summary: 'Open now, closes at 17:00',
+    });
+  });
+
+  it('should say when a closed place opens next', () => {
+    expect(getOpeningStatus(weekdays, wednesday, 'Asia/Tokyo')).toEqual({ // 23:00 Wednesday there
+      open_now: false,
+      opens_at: '2024-05-16T09:00:00+09:00',
+      summary: 'Closed, opens tomorrow 09:00',
+    });
+    const weekdaysOnly = parseOpeningHours(['Mo-Fr 09:00-17:00', 'Sa-Su closed'])!;
+    expect(getOpeningStatus(weekdaysOnly, new Date('2024-05-18T12:00:00Z'), 'UTC')).toMatchObject({ opens_at: '2024-05-20T09:00:00+00:00', summary: 'Closed, opens Mon 09:00' });
+    expect(isOpenAt(weekdays, new Date('2024-05-15T17:00:00Z'), 'UTC')).toBe(false); // Closing time is exclusive
+  });
+
+  it('should follow ranges past midnight, including Saturday into Sunday', () => {
+    const bar = parseOpeningHours(['Th-Sa 18:00-02:00', 'Su-We closed'])!;
+    expect(getOpeningStatus(bar, new Date('2024-05-19T01:30:00Z'), 'UTC')).toMatchObject({ open_now: true, closes_at: '2024-05-19T02:00:00+00:00', summary: 'Open now, closes at 02:00' });
+    expect(getOpeningStatus(bar, new Date('2024-05-17T23:00:00Z'), 'UTC')).toMatchObject({ open_now: true, summary: 'Open now, closes tomorrow 02:00' });
+    expect(getOpeningStatus(bar, new Date('2024-05-19T03:00:00Z'), 'UTC')).toMatchObject({ open_now: false, summary: 'Closed, opens Thu 18:00' });
+  });
+
+  it('should merge back-to-back days into one opening', () => {
+    const allWeek = parseOpeningHours(['Mo-Su 00:00-24:00'])!;
+    expect(getOpeningStatus(allWeek, wednesday, 'UTC')).toEqual({ open_now: true, summary: 'Open 24 hours' });
+    const lateShift = parseOpeningHours(['Fr 08:00-24:00', 'Sa 00:00-03:00'])!;
+    expect(getOpeningStatus(lateShift, new Date('2024-05-17T20:00:00Z'), 'UTC').summary).toBe('Open now, closes tomorrow 03:00');
+  });
+
+  it('should not call a place closed on days its hours leave out', () => {
+    const saturday = new Date('2024-05-18T12:00:00Z');
+    expect(getOpeningStatus(weekdays, saturday, 'UTC')).toEqual({ summary: 'No hours listed for Sat' });
+    expect(isOpenAt(weekdays, saturday, 'UTC')).toBe(false);
+    expect(getOpeningStatus(weekdays, new Date('2024-05-17T18:00:00Z'), 'UTC')).toEqual({ open_now: false, summary: 'Closed, no hours listed for Sat' });
+    const bar = parseOpeningHours(['Sa 18:00-02:00'])!;
+    expect(getOpeningStatus(bar, new Date('2024-05-19T01:30:00Z'), 'UTC')).toMatchObject({ open_now: true, summary: 'Open now, closes at 02:00' }); // Sunday, from Saturday night
+  });
+});
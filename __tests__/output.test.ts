@@ -0,0 +1,265 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import {
+  renderToolOutput,
+  toWebSearchOutput,
+  orderWebSections,
+  toImageSearchOutput,
+  toVideoSearchOutput,
+  toNewsSearchOutput,
+  toPoiDescriptionsOutput,
+  toLocalSearchOutput,
+  toSummaryOutput,
+  toSuggestOutput,
+  toSpellcheckOutput,
+  webSearchMarkdown,
+  localSearchMarkdown,
+  imageSearchMarkdown,
+  newsSearchMarkdown,
+  poiDescriptionsMarkdown,
+  summaryMarkdown,
+  suggestMarkdown,
+  pageMarkdown
+} from '../output.js';
+
+describe('Tool output (output.ts)', () => {
+  describe('renderToolOutput', () => {
+    const output = { text: 'plain', markdown: '**rich**', structured: { results: [1] } };
+
+    it('should default to the text rendering', () => {
+      expect(renderToolOutput(output)).toBe('plain');
+    });
+
+    it('should render markdown or pretty-printed JSON on request', () => {
+      expect(renderToolOutput(output, 'markdown')).toBe('**rich**');
+      expect(renderToolOutput(output, 'json')).toBe('{\n  "results": [\n    1\n  ]\n}');
+    });
+  });
+
+  describe('structured results', () => {
+    it('should only include extra snippets for web results that have them', () => {
+      const output = toWebSearchOutput({ web: { results: [
+        { title: 'A', url: 'https://a.example', description: 'a', extra_snippets: ['more'] },
+        { title: 'B', url: 'https://b.example', description: 'b', extra_snippets: [] },
+      ] } });
+      expect(output.results).toEqual([
+        { title: 'A', url: 'https://a.example', description: 'a', extra_snippets: ['more'] },
+        { title: 'B', url: 'https://b.example', description: 'b' },
+      ]);
+    });
+
+    const mixedResponse = {
+      query: { original: 'espresso', is_navigational: false, more_results_available: true },
+      mixed: {
+        type: 'mixed',
+        top: [{ type: 'infobox', all: true }],
+        main: [
+          { type: 'web', index: 0, all: false },
+          { type: 'faq', all: true },
+          { type: 'web', index: 1, all: false },
+          { type: 'locations', all: true },
+          { type: 'news', all: true },
+        ],
+        side: [],
+      },
+      web: { results: [
+        { title: 'Espresso', url: 'https://wiki.example/espresso', description: 'Coffee', deep_results: { buttons: [{ type: 'button_result', title: 'History', url: 'https://wiki.example/espresso#history' }] } },
+        { title: 'Recipes', url: 'https://recipes.example', description: 'How to' },
+        { title: 'Unranked', url: 'https://unranked.example', description: 'Left out of mixed' },
+      ] },
+      infobox: { type: 'graph', results: [{ title: 'Espresso', category: 'Drink', long_desc: 'Concentrated coffee', attributes: [['Origin', 'Italy'], ['Caffeine', null]] }] },
+      faq: { results: [{ question: 'How strong?', answer: 'Very', title: 'Coffee FAQ', url: 'https://faq.example' }] },
+      discussions: { results: [{ title: 'Best beans?', url: 'https://forum.example/1', description: 'Thread', data: { forum_name: 'r/coffee', num_answers: 12 } }] },
+      news: { results: [{ title: 'Prices up', url: 'https://news.example', breaking: true }] },
+    };
+
+    it('should convert the sections of a mixed web search response', () => {
+      const output = toWebSearchOutput(mixedResponse);
+      expect(output.query).toEqual({ original: 'espresso' });
+      expect(output.results[0].sitelinks).toEqual([{ title: 'History', url: 'https://wiki.example/espresso#history' }]);
+      expect(output.infobox).toEqual([{ title: 'Espresso', category: 'Drink', description: 'Concentrated coffee', attributes: [{ label: 'Origin', value: 'Italy' }] }]);
+      expect(output.faq).toEqual([{ question: 'How strong?', answer: 'Very', title: 'Coffee FAQ', url: 'https://faq.example' }]);
+      expect(output.discussions).toEqual([{ title: 'Best beans?', url: 'https://forum.example/1', description: 'Thread', forum: 'r/coffee', answers: 12 }]);
+      expect(output.news?.[0]).toMatchObject({ title: 'Prices up', breaking: true });
+      expect(output.videos).toBeUndefined();
+      expect(output.ranking).toEqual([
+        { section: 'infobox' }, { section: 'web', index: 0 }, { section: 'faq' }, { section: 'web', index: 1 }, { section: 'news' },
+      ]);
+    });
+
+    it('should order sections by the mixed ranking and append what it leaves out', () => {
+      expect(orderWebSections(toWebSearchOutput(mixedResponse))).toEqual([
+        { section: 'infobox', indexes: [0] },
+        { section: 'web', indexes: [0] },
+        { section: 'faq', indexes: [0] },
+        { section: 'web', indexes: [1] },
+        { section: 'news', indexes: [0] },
+        { section: 'web', indexes: [2] },
+        { section: 'discussions', indexes: [0] },
+      ]);
+      // Without a ranking, web results come first
+      expect(orderWebSections({ results: [{ title: 'A', url: 'u', description: '' }], faq: [{ question: 'q', answer: 'a', title: 't', url: 'f' }] }))
+        .toEqual([{ section: 'web', indexes: [0] }, { section: 'faq', indexes: [0] }]);
+    });
+
+    it('should prefer full-size image dimensions over thumbnail dimensions', () => {
+      const output = toImageSearchOutput({ results: [{
+        title: 'Cat', url: 'https://page.example', thumbnail: { src: 'https://thumb.example', width: 100, height: 50 },
+        properties: { url: 'https://img.example/cat.png', width: 800, height: 400 }, meta_url: { hostname: 'page.example' },
+      }] });
+      expect(output.results[0]).toMatchObject({ image_url: 'https://img.example/cat.png', width: 800, height: 400, source: 'page.example' });
+    });
+
+    it('should keep video view counts as numbers', () => {
+      const output = toVideoSearchOutput({ results: [{ title: 'Talk', url: 'https://v.example', video: { views: 12345 } }] });
+      expect(output.results[0].views).toBe(12345);
+    });
+
+    it('should sort news newest first and flag breaking stories', () => {
+      const output = toNewsSearchOutput({ results: [
+        { title: 'Undated', url: 'https://n.example/0' },
+        { title: 'Old', url: 'https://n.example/1', page_age: '2024-05-01T00:00:00' },
+        { title: 'New', url: 'https://n.example/2', page_age: '2024-05-02T00:00:00', breaking: true },
+      ] });
+      expect(output.results.map(r => r.title)).toEqual(['New', 'Old', 'Undated']);
+      expect(output.results.map(r => r.breaking)).toEqual([true, false, false]);
+    });
+
+    it('should list POI descriptions with their ids', () => {
+      expect(toPoiDescriptionsOutput({ descriptions: { p1: 'One' } })).toEqual({ descriptions: [{ id: 'p1', description: 'One' }] });
+    });
+
+    it('should report the altered query of a spellchecked web search', () => {
+      expect(toWebSearchOutput({ query: { original: 'helo wrld', altered: 'hello world' }, web: { results: [] } }).query)
+        .toEqual({ original: 'helo wrld', altered: 'hello world' });
+      expect(toWebSearchOutput({ query: { original: 'hello' }, web: { results: [] } }).query).toEqual({ original: 'hello' });
+    });
+
+    it('should flag entity suggestions', () => {
+      const output = toSuggestOutput({ query: { original: 'tesl' }, results: [
+        { query: 'tesla', is_entity: true, title: 'Tesla, Inc.', description: 'Car maker', img: 'https://img.example/t.png' },
+        { query: 'tesla stock' },
+      ] });
+      expect(output.suggestions).toEqual([
+        { query: 'tesla', is_entity: true, title: 'Tesla, Inc.', description: 'Car maker', image_url: 'https://img.example/t.png' },
+        { query: 'tesla stock', is_entity: false, title: undefined, description: undefined, image_url: undefined },
+      ]);
+    });
+
+    it('should drop spellcheck results that only echo the query', () => {
+      expect(toSpellcheckOutput({ query: { original: 'helo' }, results: [{ query: 'hello' }] }).corrections).toEqual(['hello']);
+      expect(toSpellcheckOutput({ query: { original: 'hello' }, results: [{ query: 'hello' }] }).corrections).toEqual([]);
+    });
+
+    it('should number summary sources and turn inline references into citation markers', () => {
+      const output = toSummaryOutput('rust', {
+        status: 'complete',
+        title: 'Rust',
+        summary: [
+          { type: 'token', data: 'Rust is fast.' },
+          { type: 'inline_reference', data: { url: 'https://b.example' } },
+          { type: 'enum_start' },
+          { type: 'enum_item', data: { name: 'Memory safety' } },
+          { type: 'enum_item', data: 'No garbage collector' },
+          { type: 'enum_end' },
+          { type: 'token', data: 'See also the book.' },
+          { type: 'inline_reference', data: { url: 'https://c.example' } },
+        ],
+        enrichments: { context: [{ title: 'A', url: 'https://a.example' }, { title: 'B', url: 'https://b.example' }] },
+        followups: ['Is Rust hard?'],
+      }, { web: { results: [{ title: 'Ignored', url: 'https://w.example', description: '' }] } });
+
+      expect(output.summary).toBe('Rust is fast. [2]\n\n- Memory safety\n- No garbage collector\n\nSee also the book. [3]');
+      expect(output.citations).toEqual([
+        { number: 1, title: 'A', url: 'https://a.example' },
+        { number: 2, title: 'B', url: 'https://b.example' },
+        { number: 3, title: 'https://c.example', url: 'https://c.example' },
+      ]);
+      expect(output.followups).toEqual(['Is Rust hard?']);
+    });
+
+    it('should cite the web results when Brave names no sources, and leave failed summaries empty', () => {
+      const web = { web: { results: [{ title: 'W', url: 'https://w.example', description: '' }] } };
+      expect(toSummaryOutput('q', { status: 'complete', enrichments: { raw: ' Plain summary ' } }, web)).toEqual({
+        query: 'q',
+        title: undefined,
+        summary: 'Plain summary',
+        citations: [{ number: 1, title: 'W', url: 'https://w.example' }],
+      });
+      expect(toSummaryOutput('q', { status: 'failed', enrichments: { raw: 'Partial' } }, web).summary).toBe('');
+    });
+
+    it('should read opening hours in the place\'s own time zone before the given one', () => {
+      const poi = { id: 'p1', name: 'Cafe', address: {}, openingHours: ['Mo-Fr 09:00-17:00'] };
+      const hours = { now: new Date('2024-05-15T14:00:00Z'), timezone: 'Asia/Tokyo' };
+      const places = toLocalSearchOutput({ results: [poi, { ...poi, id: 'p2', timezone: 'Europe/London' }, { ...poi, id: 'p3', openingHours: ['Ask inside'] }] }, { descriptions: {} }, hours).places;
+
+      expect(places[0].opening_status).toEqual({ open_now: false, opens_at: '2024-05-16T09:00:00+09:00', summary: 'Closed, opens tomorrow 09:00' });
+      expect(places[1].opening_status).toEqual({ open_now: true, closes_at: '2024-05-15T17:00:00+01:00', summary: 'Open now, closes at 17:00' });
+      expect(places[2].opening_status).toBeUndefined();
+    });
+  });
+
+  describe('markdown', () => {
+    it('should link web result titles and quote extra snippets', () => {
+      const markdown = webSearchMarkdown({ results: [{ title: 'A', url: 'https://a.example', description: 'Desc', extra_snippets: ['one', 'two'] }] });
+      expect(markdown).toBe('### [A](https://a.example)\n\nDesc\n\n> one\n>\n> two');
+    });
+
+    it('should head each section once a response has more than web results', () => {
+      const markdown = webSearchMarkdown({
+        results: [{ title: 'A', url: 'https://a.example', description: 'Desc', sitelinks: [{ title: 'Docs', url: 'https://a.example/docs' }] }],
+        faq: [{ question: 'Why?', answer: 'Because', title: 'FAQ', url: 'https://faq.example' }],
+        ranking: [{ section: 'faq' }, { section: 'web', index: 0 }],
+      });
+      expect(markdown).toBe('## Frequently asked questions\n\n### Why?\n\nBecause\n\nSource: [FAQ](https://faq.example)\n\n' +
+        '## Web results\n\n### [A](https://a.example)\n\nDesc\n\n- [Docs](https://a.example/docs)');
+    });
+
+    it('should quote a notice above results for an altered query', () => {
+      const markdown = webSearchMarkdown({ query: { original: 'helo', altered: 'hello' }, results: [{ title: 'A', url: 'https://a.example', description: 'Desc' }] });
+      expect(markdown).toBe('> Showing results for "hello" instead of "helo". Set spellcheck to false to search for the original query.\n\n### [A](https://a.example)\n\nDesc');
+    });
+
+    it('should describe entity suggestions inline', () => {
+      expect(suggestMarkdown({ query: 'tesl', suggestions: [{ query: 'tesla', is_entity: true, title: 'Tesla, Inc.', description: 'Car maker' }, { query: 'tesla stock', is_entity: false }] }))
+        .toBe('- tesla (Tesla, Inc. - Car maker)\n- tesla stock');
+    });
+
+    it('should list place fields and skip missing ones', () => {
+      const markdown = localSearchMarkdown({ places: [{ id: 'p1', name: 'Cafe', rating: 4.5, rating_count: 10 }] });
+      expect(markdown).toBe('### Cafe\n\n- **Rating:** 4.5 (10 reviews)\n- **ID:** `p1`');
+    });
+
+    it('should render fallback web results for local search', () => {
+      const markdown = localSearchMarkdown({ places: [], web_results: [{ title: 'W', url: 'https://w.example', description: 'd' }] });
+      expect(markdown).toContain('### [W](https://w.example)');
+    });
+
+    it('should embed image thumbnails', () => {
+      const markdown = imageSearchMarkdown({ results: [{ title: 'Cat', page_url: 'https://p.example', thumbnail_url: 'https://t.example' }] });
+      expect(markdown).toContain('![Cat](https://t.example)');
+    });
+
+    it('should mark breaking news', () => {
+      const markdown = newsSearchMarkdown({ results: [{ title: 'Story', url: 'https://n.example', breaking: true }] });
+      expect(markdown).toContain('### **BREAKING** [Story](https://n.example)');
+    });
+
+    it('should list numbered sources under the summary', () => {
+      const markdown = summaryMarkdown({ query: 'q', title: 'Title', summary: 'Answer [1]', citations: [{ number: 1, title: 'A', url: 'https://a.example' }] });
+      expect(markdown).toBe('### Title\n\nAnswer [1]\n\n#### Sources\n\n1. [A](https://a.example)');
+    });
+
+    it('should tell the reader how to continue a chunked page', () => {
+      const markdown = pageMarkdown({ url: 'https://a.example', final_url: 'https://a.example/', title: 'Page', content: 'Body', start: 0, end: 4, total_chars: 10, next_cursor: '4', truncated: false });
+      expect(markdown).toBe('### [Page](https://a.example/)\n\n*Characters 0-4 of 10*\n\nBody\n\n---\n\n*More content available. Call again with cursor "4" to continue.*');
+    });
+
+    it('should fall back to the same empty messages as the text output', () => {
+      expect(webSearchMarkdown({ results: [] })).toBe('No web results found.');
+      expect(localSearchMarkdown({ places: [] })).toBe('No local results found.');
+      expect(poiDescriptionsMarkdown({ descriptions: [] })).toBe('No descriptions found for the provided IDs.');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'; // Import Jest globals for ESM
+
+import { PageFetcher, PageFetcherOptions, PageFetchError, takeChunk } from '../pageFetcher.js';
+
+type Route = (init?: RequestInit) => Response | Promise<Response>;
+
+describe('PageFetcher (pageFetcher.ts)', () => {
+  let routes: Record<string, Route>;
+  let requested: string[];
+  let clock: number;
+
+  const fetchMock = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    requested.push(url);
+    const route = routes[url];
+    return route ? route(init) : new Response('Not found', { status: 404 });
+  });
+
+  const createFetcher = (options: Partial<PageFetcherOptions> = {}) => new PageFetcher({
+    userAgent: 'TestBot/1.0',
+    maxBytes: 100000,
+    timeoutMs: 1000,
+    fetch: fetchMock as unknown as typeof fetch,
+    lookup: async () => ['93.184.216.34'],
+    now: () => clock,
+    ...options,
+  });
+
+  const html = (body: string, headers: Record<string, string> = {}) => () =>
+    new Response(`<html><head><title>Test page</title></head><body>${body}</body></html>`, { headers: { 'Content-Type': 'text/html; charset=utf-8', ...headers } });
+
+  const expectFailure = async (promise: Promise<unknown>, reason: string) => {
+    const error = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect((error as PageFetchError).reason).toBe(reason);
+  };
+
+  beforeEach(() => {
+    routes = {};
+    requested = [];
+    clock = 0;
+    fetchMock.mockClear();
+  });
+
+  it('should return the readable content as markdown', async () => {
+    routes['https://example.com/article'] = html('<nav><a href="/">Home</a></nav><main><h1>Hello</h1><p>See <a href="/docs">the docs</a>.</p></main>');
+    const page = await createFetcher().fetchPage('https://example.com/article');
+
+    expect(page).toEqual({
+      url: 'https://example.com/article',
+      finalUrl: 'https://example.com/article',
+      title: 'Test page',
+      content: '# Hello\n\nSee [the docs](https://example.com/docs).',
+      contentType: 'text/html',
+      truncated: false,
+    });
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({ redirect: 'manual', headers: { 'User-Agent': 'TestBot/1.0' } });
+  });
+
+  it('should return plain text as it is and refuse binary content', async () => {
+    routes['https://example.com/notes.txt'] = () => new Response('  Plain *text*  ', { headers: { 'Content-Type': 'text/plain' } });
+    routes['https://example.com/file.pdf'] = () => new Response('%PDF', { headers: { 'Content-Type': 'application/pdf' } });
+    const fetcher = createFetcher();
+
+    expect((await fetcher.fetchPage('https://example.com/notes.txt')).content).toBe('Plain *text*');
+    await expectFailure(fetcher.fetchPage('https://example.com/file.pdf'), 'unsupported');
+  });
+
+  it('should follow redirects and check every hop', async () => {
+    routes['https://example.com/old'] = () => new Response(null, { status: 301, headers: { Location: '/new' } });
+    routes['https://example.com/new'] = html('<p>Moved here</p>');
+    routes['https://example.com/away'] = () => new Response(null, { status: 302, headers: { Location: 'https://blocked.test/page' } });
+    const fetcher = createFetcher({ deniedDomains: ['blocked.test'] });
+
+    const page = await fetcher.fetchPage('https://example.com/old');
+    expect(page.finalUrl).toBe('https://example.com/new');
+    expect(page.content).toBe('Moved here');
+    await expectFailure(fetcher.fetchPage('https://example.com/away'), 'blocked');
+  });
+
+  it('should obey robots.txt and remember it per site', async () => {
+    routes['https://example.com/robots.txt'] = () => new Response('User-agent: *\nDisallow: /private');
+    routes['https://example.com/public'] = html('<p>Public</p>');
+    const fetcher = createFetcher();
+
+    await expectFailure(fetcher.fetchPage('https://example.com/private/page'), 'robots');
+    await fetcher.fetchPage('https://example.com/public');
+    expect(requested.filter(url => url.endsWith('/robots.txt'))).toHaveLength(1);
+  });
+
+  it('should stay out when robots.txt fails with a server error', async () => {
+    routes['https://example.com/robots.txt'] = () => new Response('Down', { status: 503 });
+    routes['https://example.com/page'] = html('<p>Page</p>');
+    await expectFailure(createFetcher().fetchPage('https://example.com/page'), 'robots');
+  });
+
+  it('should check every hop of a robots.txt redirect and stay out when one is refused', async () => {
+    routes['https://example.com/robots.txt'] = () => new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } });
+    routes['https://example.com/page'] = html('<p>Page</p>');
+    routes['https://moved.example/robots.txt'] = () => new Response(null, { status: 301, headers: { Location: 'https://www.moved.example/robots.txt' } });
+    routes['https://www.moved.example/robots.txt'] = () => new Response('User-agent: *\nDisallow: /private');
+    routes['https://moved.example/public'] = html('<p>Public</p>');
+    const fetcher = createFetcher({ lookup: async hostname => hostname === '169.254.169.254' ? ['169.254.169.254'] : ['93.184.216.34'] });
+
+    await expectFailure(fetcher.fetchPage('https://example.com/page'), 'robots');
+    expect(requested.some(url => url.includes('169.254.169.254'))).toBe(false);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+
+    expect((await fetcher.fetchPage('https://moved.example/public')).content).toBe('Public');
+    await expectFailure(fetcher.fetchPage('https://moved.example/private'), 'robots');
+  });
+
+  it('should apply the allow and deny lists to subdomains', async () => {
+    routes['https://docs.example.com/page'] = html('<p>Docs</p>');
+    const fetcher = createFetcher({ allowedDomains: ['example.com'], deniedDomains: ['ads.example.com'] });
+
+    expect((await fetcher.fetchPage('https://docs.example.com/page')).content).toBe('Docs');
+    await expectFailure(fetcher.fetchPage('https://ads.example.com/page'), 'blocked');
+    await expectFailure(fetcher.fetchPage('https://other.org/page'), 'blocked');
+    expect(requested.some(url => url.includes('other.org'))).toBe(false);
+  });
+
+  it('should refuse hosts on private networks unless allowed', async () => {
+    routes['http://intranet.local/'] = html('<p>Internal</p>');
+    await expectFailure(createFetcher({ lookup: async () => ['10.0.0.5'] }).fetchPage('http://intranet.local/'), 'blocked');
+    await expectFailure(createFetcher().fetchPage('http://127.0.0.1:8080/admin'), 'blocked');
+    await expectFailure(createFetcher().fetchPage('http://[::1]/'), 'blocked');
+    await expectFailure(createFetcher().fetchPage('http://[::ffff:127.0.0.1]/'), 'blocked'); // URL rewrites it to ::ffff:7f00:1
+    await expectFailure(createFetcher().fetchPage('http://[::ffff:a9fe:a9fe]/latest/meta-data/'), 'blocked');
+    await expectFailure(createFetcher().fetchPage('http://[0:0:0:0:0:0:0:1]/'), 'blocked');
+    expect(requested).toEqual([]);
+    expect((await createFetcher({ lookup: async () => ['10.0.0.5'], allowPrivateNetworks: true }).fetchPage('http://intranet.local/')).content).toBe('Internal');
+  });
+
+  it('should connect only to the addresses it checked when DNS answers differently the second time', async () => {
+    const lookup = jest.fn(async () => ['93.184.216.34']).mockResolvedValueOnce(['93.184.216.34']).mockResolvedValue(['127.0.0.1']);
+    const fetcher = createFetcher({ fetch: undefined, lookup });
+
+    await expectFailure(fetcher.fetchPage('http://rebind.example/'), 'blocked');
+    expect(lookup.mock.calls.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should reject URLs that are not http or https', async () => {
+    await expectFailure(createFetcher().fetchPage('file:///etc/passwd'), 'invalid_url');
+    await expectFailure(createFetcher().fetchPage('not a url'), 'invalid_url');
+  });
+
+  it('should cut off bodies beyond the size limit', async () => {
+    routes['https://example.com/big.txt'] = () => new Response('x'.repeat(5000), { headers: { 'Content-Type': 'text/plain' } });
+    const page = await createFetcher({ maxBytes: 1000 }).fetchPage('https://example.com/big.txt');
+    expect(page.content).toHaveLength(1000);
+    expect(page.truncated).toBe(true);
+  });
+
+  it('should time out slow pages', async () => {
+    routes['https://example.com/slow'] = init => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+    await expectFailure(createFetcher({ timeoutMs: 20 }).fetchPage('https://example.com/slow'), 'timeout');
+  });
+
+  it('should report HTTP errors', async () => {
+    routes['https://example.com/gone'] = () => new Response('Gone', { status: 410 });
+    const error = await createFetcher().fetchPage('https://example.com/gone').catch(caught => caught);
+    expect(error).toMatchObject({ reason: 'http', status: 410 });
+  });
+
+  it('should decode the charset the page declares', async () => {
+    routes['https://example.com/latin1'] = () => new Response(Buffer.from('<meta charset="iso-8859-1"><p>Caf\xe9</p>', 'latin1'), { headers: { 'Content-Type': 'text/html' } });
+    expect((await createFetcher().fetchPage('https://example.com/latin1')).content).toBe('Café');
+  });
+
+  it('should serve repeated fetches from the cache until it expires or no_cache is set', async () => {
+    routes['https://example.com/page'] = html('<p>Page</p>');
+    const fetcher = createFetcher({ cacheTtlMs: 60000 });
+    const pageRequests = () => requested.filter(url => url.endsWith('/page')).length;
+
+    await fetcher.fetchPage('https://example.com/page');
+    await fetcher.fetchPage('https://example.com/page');
+    expect(pageRequests()).toBe(1);
+    await fetcher.fetchPage('https://example.com/page', true);
+    expect(pageRequests()).toBe(2);
+    clock += 60000;
+    await fetcher.fetchPage('https://example.com/page');
+    expect(pageRequests()).toBe(3);
+  });
+});
+
+describe('takeChunk (pageFetcher.ts)', () => {
+  const content = 'First paragraph here.\n\nSecond paragraph is a bit longer.\n\nThird.';
+
+  it('should end chunks at a paragraph break and hand out a cursor', () => {
+    const chunk = takeChunk(content, 40);
+    expect(chunk).toEqual({ content: 'First paragraph here.', start: 0, end: 23, nextCursor: '23' });
+  });
+
+  it('should continue from the cursor until the content ends', () => {
+    expect(takeChunk(content, 40, '23')).toMatchObject({ content: 'Second paragraph is a bit longer.', nextCursor: '58' });
+    expect(takeChunk(content, 40, '58')).toEqual({ content: 'Third.', start: 58, end: content.length, nextCursor: undefined });
+  });
+
+  it('should cut words apart only when there is no break to use', () => {
+    expect(takeChunk('abcdefghij', 4)).toMatchObject({ content: 'abcd', nextCursor: '4' });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import type { PlaceItem } from '../output.js';
+import { exportPlaces, missingCoordinatesNotice } from '../placeExport.js';
+
+describe('exportPlaces (placeExport.ts)', () => {
+  const places: PlaceItem[] = [
+    {
+      id: 'p1', name: 'Joe\'s "Best" Pizza', address: '7 Carmine St, New York', phone: '+1 212-366-1182', rating: 4.5, rating_count: 120,
+      price_range: '$', opening_hours: ['Mo-Su 10:00-04:00'], coordinates: { latitude: 40.7306, longitude: -74.0021 }, description: 'Slices & pies',
+    },
+    { id: 'p2', name: 'Pop-up Stand', rating: 3.9 },
+  ];
+
+  it('should write a GeoJSON FeatureCollection with null geometry for places without coordinates', () => {
+    const exported = exportPlaces(places, 'geojson');
+    const collection = JSON.parse(exported.content);
+
+    expect(exported.mimeType).toBe('application/geo+json');
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features[0]).toEqual({
+      type: 'Feature',
+      id: 'p1',
+      geometry: { type: 'Point', coordinates: [-74.0021, 40.7306] }, // Longitude first
+      properties: {
+        id: 'p1', name: 'Joe\'s "Best" Pizza', address: '7 Carmine St, New York', phone: '+1 212-366-1182', rating: 4.5, rating_count: 120,
+        price_range: '$', opening_hours: 'Mo-Su 10:00-04:00', description: 'Slices & pies',
+      },
+    });
+    expect(collection.features[1]).toMatchObject({ id: 'p2', geometry: null, properties: { name: 'Pop-up Stand', rating: 3.9 } });
+    expect(exported.missing_coordinates).toEqual([{ id: 'p2', name: 'Pop-up Stand' }]);
+  });
+
+  it('should write escaped KML placemarks', () => {
+    const kml = exportPlaces(places, 'kml').content;
+
+    expect(kml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<kml xmlns="http:\/\/www.opengis.net\/kml\/2.2">/);
+    expect(kml).toContain('<name>Joe&apos;s &quot;Best&quot; Pizza</name>');
+    expect(kml).toContain('<description>Slices &amp; pies</description>');
+    expect(kml).toContain('<Data name="rating"><value>4.5</value></Data>');
+    expect(kml).toContain('<Point><coordinates>-74.0021,40.7306</coordinates></Point>');
+    expect(kml.match(/<Placemark /g)).toHaveLength(2);
+    expect(kml.match(/<Point>/g)).toHaveLength(1);
+  });
+
+  it('should write CSV with quoting and empty cells for missing values', () => {
+    const lines = exportPlaces(places, 'csv').content.split('\r\n');
+
+    expect(lines[0]).toBe('id,name,latitude,longitude,address,phone,rating,rating_count,price_range,opening_hours,open_now,distance_km,description');
+    expect(lines[1]).toBe('p1,"Joe\'s ""Best"" Pizza",40.7306,-74.0021,"7 Carmine St, New York",+1 212-366-1182,4.5,120,$,Mo-Su 10:00-04:00,,,Slices & pies');
+    expect(lines[2]).toBe('p2,Pop-up Stand,,,,,3.9,,,,,,');
+    expect(lines[3]).toBe('');
+    expect(exportPlaces([], 'csv').content).toBe(`${lines[0]}\r\n`);
+  });
+
+  it('should list the places that could not be placed on a map', () => {
+    expect(missingCoordinatesNotice(exportPlaces(places, 'kml'))).toBe('1 of the exported places has no coordinates and cannot be placed on a map: Pop-up Stand (p2)');
+    expect(missingCoordinatesNotice(exportPlaces(places.slice(0, 1), 'kml'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import type { PlaceItem } from '../output.js';
+import { filterAndSortPlaces, formatDistance, haversineDistanceKm, priceLevel } from '../places.js';
+
+describe('haversineDistanceKm (places.ts)', () => {
+  it('should compute great-circle distances', () => {
+    const paris = { latitude: 48.8566, longitude: 2.3522 };
+    const london = { latitude: 51.5074, longitude: -0.1278 };
+    expect(haversineDistanceKm(paris, london)).toBeCloseTo(343.5, 0);
+    expect(haversineDistanceKm(paris, paris)).toBe(0);
+  });
+});
+
+describe('priceLevel (places.ts)', () => {
+  it('should count repeated currency symbols', () => {
+    expect(priceLevel('$$')).toBe(2);
+    expect(priceLevel('€€€')).toBe(3);
+    expect(priceLevel('$10-20')).toBeUndefined();
+    expect(priceLevel(undefined)).toBeUndefined();
+  });
+});
+
+describe('filterAndSortPlaces (places.ts)', () => {
+  const origin = { latitude: 40.7580, longitude: -73.9855 }; // Times Square
+  const places: PlaceItem[] = [
+    { id: 'far', name: 'Far', rating: 4.8, rating_count: 40, price_range: '$$$', coordinates: { latitude: 40.7061, longitude: -74.0087 }, opening_status: { open_now: true, summary: 'Open now, closes at 22:00' } },
+    { id: 'near', name: 'Near', rating: 4.1, rating_count: 900, price_range: '$', coordinates: { latitude: 40.7590, longitude: -73.9845 }, opening_status: { open_now: false, summary: 'Closed, opens tomorrow 07:00' } },
+    { id: 'unknown', name: 'Unknown', price_range: '$$' },
+  ];
+
+  it('should keep Brave order by default and add distances from the origin', () => {
+    const { places: result, filtered_out } = filterAndSortPlaces(places, { origin });
+    expect(result.map(place => place.id)).toEqual(['far', 'near', 'unknown']);
+    expect(result[0].distance_km).toBeCloseTo(6.0, 0);
+    expect(result[1].distance_km).toBe(0.14);
+    expect(result[2].distance_km).toBeUndefined();
+    expect(filtered_out).toBe(0);
+  });
+
+  it('should sort by distance, rating or review count with unknown values last', () => {
+    const order = (sort_by: 'distance' | 'rating' | 'review_count') => filterAndSortPlaces(places, { origin, sort_by }).places.map(place => place.id);
+    expect(order('distance')).toEqual(['near', 'far', 'unknown']);
+    expect(order('rating')).toEqual(['far', 'near', 'unknown']);
+    expect(order('review_count')).toEqual(['near', 'far', 'unknown']);
+  });
+
+  it('should drop places below the rating, above the price or closed, counting them', () => {
+    expect(filterAndSortPlaces(places, { min_rating: 4.5 })).toMatchObject({ places: [{ id: 'far' }], filtered_out: 2 });
+    expect(filterAndSortPlaces(places, { max_price_range: 2 }).places.map(place => place.id)).toEqual(['near', 'unknown']);
+    expect(filterAndSortPlaces(places, { open_now: true }).places.map(place => place.id)).toEqual(['far']); // No hours count as closed
+    const weekend = { id: 'weekend', name: 'Weekend', opening_status: { summary: 'No hours listed for Mon' } };
+    expect(filterAndSortPlaces([...places, weekend], { open_now: true }).places.map(place => place.id)).toEqual(['far', 'weekend']);
+  });
+});
+
+describe('formatDistance (places.ts)', () => {
+  it('should use metres below a kilometre', () => {
+    expect(formatDistance(0.14)).toBe('140 m');
+    expect(formatDistance(3.21)).toBe('3.2 km');
+    expect(formatDistance(42.6)).toBe('43 km');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { ALL_PROMPTS, getPromptMessages } from '../prompts.js';
+import { ALL_TOOLS } from '../tools.js';
+
+describe('Prompt templates (prompts.ts)', () => {
+  const promptText = (name: string, args: Record<string, string>) => {
+    const { messages } = getPromptMessages(name, args);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('user');
+    return (messages[0].content as { text: string }).text;
+  };
+
+  it('should offer the research, local business and fact-check prompts', () => {
+    expect(ALL_PROMPTS.map(prompt => prompt.name)).toEqual(['research_topic', 'find_local_business', 'fact_check_claim']);
+  });
+
+  it('should only mention tools the server has', () => {
+    const toolNames = new Set(ALL_TOOLS.map(tool => tool.name));
+    ALL_PROMPTS.forEach(prompt => {
+      const args = Object.fromEntries((prompt.arguments ?? []).map(argument => [argument.name, 'x']));
+      args.recency = 'week';
+      const mentioned = promptText(prompt.name, args).match(/brave_\w+/g) ?? [];
+      expect(mentioned.length).toBeGreaterThan(0);
+      mentioned.forEach(name => expect(toolNames).toContain(name));
+    });
+  });
+
+  it('should steer research toward web and news search with citations', () => {
+    const text = promptText('research_topic', { topic: 'heat pumps', focus: 'running costs', recency: 'Month' });
+    expect(text).toContain('Research this topic and write an overview: heat pumps');
+    expect(text).toContain('Concentrate on: running costs');
+    expect(text).toContain('Call brave_web_search');
+    expect(text).toContain('Call brave_news_search for recent developments with freshness "pm"');
+    expect(text).toContain('[1]');
+  });
+
+  it('should build the local search query from the business and location', () => {
+    const text = promptText('find_local_business', { what: 'bike repair', location: ' Utrecht ' });
+    expect(text).toContain('Call brave_local_search with the query "bike repair in Utrecht"');
+    expect(text).not.toContain('What matters most');
+  });
+
+  it('should ask for contrasting queries when fact-checking', () => {
+    const text = promptText('fact_check_claim', { claim: 'The Great Wall is visible from space' });
+    expect(text).toContain('Fact-check this claim: "The Great Wall is visible from space"');
+    expect(text).toContain('Call brave_multi_search');
+  });
+
+  it('should reject unknown prompts and missing or invalid arguments', () => {
+    expect(() => getPromptMessages('nope')).toThrow('Unknown prompt requested: nope');
+    expect(() => getPromptMessages('find_local_business', { what: 'cafe', location: '  ' })).toThrow('Missing required arguments for prompt "find_local_business": location');
+    expect(() => getPromptMessages('research_topic', { topic: 'x', recency: 'decade' })).toThrow('Invalid recency "decade". Use one of: day, week, month, year.');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'; // Import Jest globals for ESM
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { QuotaTracker, QuotaExceededError } from '../quota.js';
+
+describe('QuotaTracker (quota.ts)', () => {
+  let clock: number;
+  let tmpDir: string;
+  let filePath: string;
+
+  const headers = (values: Record<string, string>) => new Headers(values);
+
+  beforeEach(() => {
+    clock = Date.UTC(2024, 4, 15, 12, 0, 0);
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brave-quota-'));
+    filePath = path.join(tmpDir, 'nested', 'quota.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should count successful requests and parse Brave rate-limit headers', () => {
+    const tracker = new QuotaTracker({ now: () => clock });
+    tracker.recordResponse(headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 1990', 'X-RateLimit-Reset': '1, 3600' }), true);
+    tracker.recordResponse(undefined, false); // Failed requests are not counted as usage
+
+    const status = tracker.status();
+    expect(status.month).toBe('2024-05');
+    expect(status.used).toBe(1);
+    expect(status.perSecondLimit).toBe(1);
+    expect(status.monthlyLimit).toBe(2000);
+    expect(status.monthlyRemaining).toBe(1990);
+    expect(status.monthlyResetAt).toBe('2024-05-15T13:00:00.000Z');
+  });
+
+  it('should persist usage to the quota file and load it again', () => {
+    const first = new QuotaTracker({ filePath, now: () => clock });
+    first.recordResponse(undefined, true);
+    first.recordResponse(undefined, true);
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const second = new QuotaTracker({ filePath, now: () => clock });
+    expect(second.status().used).toBe(2);
+  });
+
+  it('should start from zero in a new month', () => {
+    const tracker = new QuotaTracker({ filePath, now: () => clock });
+    tracker.recordResponse(undefined, true);
+
+    clock = Date.UTC(2024, 5, 1, 0, 0, 1);
+    const reloaded = new QuotaTracker({ filePath, now: () => clock });
+    expect(reloaded.status()).toMatchObject({ month: '2024-06', used: 0 });
+  });
+
+  it('should ignore an unreadable quota file', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json');
+    const tracker = new QuotaTracker({ filePath, now: () => clock });
+    expect(tracker.status().used).toBe(0);
+  });
+
+  it('should refuse requests once the soft cap is reached', () => {
+    const tracker = new QuotaTracker({ softCap: 2, now: () => clock });
+    tracker.recordResponse(undefined, true);
+    expect(() => tracker.checkSoftCap()).not.toThrow();
+    expect(tracker.status().softCapRemaining).toBe(1);
+
+    tracker.recordResponse(undefined, true);
+    expect(() => tracker.checkSoftCap()).toThrow(QuotaExceededError);
+    expect(() => tracker.checkSoftCap()).toThrow(/2 of 2 allowed queries/);
+  });
+
+  it('should use Brave\'s reported usage when it is higher than the local count', () => {
+    const tracker = new QuotaTracker({ softCap: 1900, now: () => clock });
+    tracker.recordResponse(headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 50' }), true);
+    expect(() => tracker.checkSoftCap()).toThrow(/1950 of 1900/);
+  });
+
+  it('should not enforce a soft cap when none is configured', () => {
+    const tracker = new QuotaTracker({ now: () => clock });
+    tracker.recordResponse(headers({ 'X-RateLimit-Limit': '1, 2000', 'X-RateLimit-Remaining': '0, 0' }), true);
+    expect(() => tracker.checkSoftCap()).not.toThrow();
+    expect(tracker.status().softCap).toBeUndefined();
+  });
+});
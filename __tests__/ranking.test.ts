@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { reciprocalRankFusion, RRF_K } from '../ranking.js';
+
+describe('reciprocalRankFusion (ranking.ts)', () => {
+  const identity = (item: string) => item;
+
+  it('should score items by 1 / (k + rank) summed over the lists they appear in', () => {
+    const fused = reciprocalRankFusion([
+      { source: 'q1', items: ['a', 'b', 'c'] },
+      { source: 'q2', items: ['b', 'd'] },
+    ], identity);
+    expect(fused.map(f => f.item)).toEqual(['b', 'a', 'd', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    expect(fused[0].sources).toEqual(['q1', 'q2']);
+    expect(fused[1].sources).toEqual(['q1']);
+  });
+
+  it('should merge items with the same key and keep the best-ranked occurrence', () => {
+    const fused = reciprocalRankFusion([
+      { source: 'q1', items: [{ id: 'x', from: 'q1' }, { id: 'y', from: 'q1' }] },
+      { source: 'q2', items: [{ id: 'y', from: 'q2' }] },
+    ], item => item.id);
+    expect(fused.find(f => f.item.id === 'y')!.item.from).toBe('q2');
+  });
+
+  it('should count an item only once per list', () => {
+    const fused = reciprocalRankFusion([{ source: 'q1', items: ['a', 'a', 'b'] }], identity);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 1));
+    expect(fused[0].sources).toEqual(['q1']);
+    expect(fused[1].score).toBeCloseTo(1 / (RRF_K + 3));
+  });
+
+  it('should keep first-seen order for ties', () => {
+    const fused = reciprocalRankFusion([
+      { source: 'q1', items: ['a'] },
+      { source: 'q2', items: ['b'] },
+    ], identity);
+    expect(fused.map(f => f.item)).toEqual(['a', 'b']);
+  });
+
+  it('should pass the list and position to the key function', () => {
+    const fused = reciprocalRankFusion([
+      { source: 'q1', items: ['', ''] },
+      { source: 'q2', items: [''] },
+    ], (item, source, index) => item || `${source}:${index}`);
+    expect(fused.map(f => f.sources)).toEqual([['q1'], ['q2'], ['q1']]);
+  });
+});
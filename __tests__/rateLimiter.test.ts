@@ -0,0 +1,83 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'; // Import Jest globals for ESM
+
+import { RateLimiter, RateLimiterOptions, RateLimitError } from '../rateLimiter.js';
+
+describe('RateLimiter (rateLimiter.ts)', () => {
+  // Fake clock advanced only by the injected sleep, so tests never wait in real time
+  let clock: number;
+  let sleep: jest.Mock<(ms: number) => Promise<void>>;
+
+  const createLimiter = (options: Partial<RateLimiterOptions> = {}) => new RateLimiter({
+    perSecond: 1,
+    maxWaitMs: 10000,
+    now: () => clock,
+    sleep,
+    ...options,
+  });
+
+  beforeEach(() => {
+    clock = Date.UTC(2024, 4, 31, 23, 59, 58); // Two seconds before a month boundary
+    sleep = jest.fn(async (ms: number) => {
+      await Promise.resolve(); // Let callbacks of already granted requests observe the current time
+      clock += ms;
+    });
+  });
+
+  it('should grant the first request immediately', async () => {
+    const limiter = createLimiter();
+    await limiter.acquire('web/search');
+    expect(sleep).not.toHaveBeenCalled();
+    expect(limiter.monthlyUsage).toBe(1);
+  });
+
+  it('should grant queued requests in FIFO order, spaced by the per-second rate', async () => {
+    const limiter = createLimiter();
+    const granted: Array<{ id: number; at: number }> = [];
+    await Promise.all([1, 2, 3].map(id =>
+      limiter.acquire('web/search').then(() => granted.push({ id, at: clock }))
+    ));
+    expect(granted.map(g => g.id)).toEqual([1, 2, 3]);
+    expect(granted[1].at - granted[0].at).toBe(1000);
+    expect(granted[2].at - granted[1].at).toBe(1000);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should allow bursts up to the per-second rate', async () => {
+    const limiter = createLimiter({ perSecond: 3 });
+    await Promise.all([limiter.acquire('a'), limiter.acquire('b'), limiter.acquire('c')]);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should enforce a stricter per-endpoint rate on top of the global one', async () => {
+    const limiter = createLimiter({ perSecond: 10, perEndpointPerSecond: 1 });
+    await limiter.acquire('local/pois');
+    await limiter.acquire('local/descriptions'); // Different endpoint, no wait
+    expect(sleep).not.toHaveBeenCalled();
+    await limiter.acquire('local/pois'); // Same endpoint, must wait
+    expect(sleep).toHaveBeenCalledWith(1000);
+  });
+
+  it('should reject with RateLimitError when the wait would exceed maxWaitMs', async () => {
+    const limiter = createLimiter({ maxWaitMs: 1500 });
+    const results = await Promise.allSettled([
+      limiter.acquire('web/search'),
+      limiter.acquire('web/search'), // Waits 1000ms
+      limiter.acquire('web/search'), // Would wait 2000ms
+    ]);
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    const error = (results[2] as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toContain('longer than 1500ms');
+  });
+
+  it('should reject once the monthly limit is reached and reset in the next month', async () => {
+    const limiter = createLimiter({ perSecond: 10, perMonth: 2 });
+    await limiter.acquire('web/search');
+    await limiter.acquire('web/search');
+    await expect(limiter.acquire('web/search')).rejects.toThrow(/monthly limit of 2 requests reached/);
+
+    clock += 2000; // Cross into June
+    await expect(limiter.acquire('web/search')).resolves.toBeUndefined();
+    expect(limiter.monthlyUsage).toBe(1);
+  });
+});
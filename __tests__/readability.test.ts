@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { htmlToMarkdown, parseHtml } from '../html.js';
+import { extractReadableContent } from '../readability.js';
+
+describe('extractReadableContent (readability.ts)', () => {
+  const prose = (words: string) => `<p>${`${words}, and more words about it, to make a proper paragraph. `.repeat(4)}</p>`;
+
+  it('should use the article element and drop page furniture around it', () => {
+    const html = `
+      <html><head><title>Page title</title><meta property="og:title" content="Article title"></head>
+      <body>
+        <header><a href="/">Home</a></header>
+        <nav><a href="/a">A</a> <a href="/b">B</a></nav>
+        <article>
+          <h1>Heading</h1>
+          ${prose('Rust ownership')}
+          <div class="share-buttons">Share on social media</div>
+          ${prose('Borrowing rules')}
+        </article>
+        <footer>Copyright</footer>
+      </body></html>`;
+    const { title, content } = extractReadableContent(parseHtml(html));
+    const markdown = htmlToMarkdown(content);
+
+    expect(title).toBe('Article title');
+    expect(markdown).toMatch(/^# Heading\n\nRust ownership/);
+    expect(markdown).toContain('Borrowing rules');
+    expect(markdown).not.toContain('Share on');
+    expect(markdown).not.toContain('Home');
+  });
+
+  it('should pick the element with the most prose when there is no landmark', () => {
+    const html = `
+      <body>
+        <div id="menu-links"><p><a href="/1">First link in the menu</a>, <a href="/2">second link in the menu</a></p></div>
+        <div class="wrapper">
+          <div class="story">${prose('Main text')}${prose('More main text')}</div>
+          <div class="sidebar">${prose('Sidebar text')}</div>
+        </div>
+      </body>`;
+    const markdown = htmlToMarkdown(extractReadableContent(parseHtml(html)).content);
+
+    expect(markdown).toContain('Main text');
+    expect(markdown).toContain('More main text');
+    expect(markdown).not.toContain('Sidebar text');
+    expect(markdown).not.toContain('menu');
+  });
+
+  it('should cope with deeply nested pages', () => {
+    const html = `<body>${'<section>'.repeat(20000)}${prose('Deep down')}${'</section>'.repeat(20000)}</body>`;
+    expect(htmlToMarkdown(extractReadableContent(parseHtml(html)).content)).toContain('Deep down, and more words');
+  });
+
+  it('should drop hidden elements and fall back to the title tag', () => {
+    const html = `<title>Short &amp; sweet</title><body><p>Visible</p><p hidden>Hidden</p><div style="display: none">Gone</div></body>`;
+    const { title, content } = extractReadableContent(parseHtml(html));
+    expect(title).toBe('Short & sweet');
+    expect(htmlToMarkdown(content)).toBe('Visible');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import {
+  isRetryableStatus,
+  parseRetryAfter,
+  parseRateLimitReset,
+  computeBackoffDelay,
+  RetryPolicy
+} from '../retry.js';
+
+describe('Retry helpers (retry.ts)', () => {
+
+  describe('isRetryableStatus', () => {
+    it('should retry 429 and 5xx responses', () => {
+      [429, 500, 502, 503, 504].forEach(status => expect(isRetryableStatus(status)).toBe(true));
+    });
+
+    it('should not retry other client errors', () => {
+      [400, 401, 403, 404, 422].forEach(status => expect(isRetryableStatus(status)).toBe(false));
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse a delay in seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('should parse an HTTP date relative to now', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+      expect(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should not return negative delays for dates in the past', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+      expect(parseRetryAfter('Wed, 01 May 2024 11:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined for missing or malformed values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('parseRateLimitReset', () => {
+    it('should use the window that is used up', () => {
+      expect(parseRateLimitReset('1, 1419704', '0, 1500')).toBe(1000);
+      expect(parseRateLimitReset('1, 1419704', '1, 0')).toBe(1419704000);
+    });
+
+    it('should fall back to the next reset when no remaining counts are known', () => {
+      expect(parseRateLimitReset('5, 1419704')).toBe(5000);
+    });
+
+    it('should return undefined for missing or malformed values', () => {
+      expect(parseRateLimitReset(null)).toBeUndefined();
+      expect(parseRateLimitReset('never')).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 500, maxDelayMs: 3000, budgetMs: 10000, random: () => 1 };
+
+    it('should double the ceiling on each retry', () => {
+      expect(computeBackoffDelay(1, policy)).toBe(500);
+      expect(computeBackoffDelay(2, policy)).toBe(1000);
+      expect(computeBackoffDelay(3, policy)).toBe(2000);
+    });
+
+    it('should cap the ceiling at maxDelayMs', () => {
+      expect(computeBackoffDelay(6, policy)).toBe(3000);
+    });
+
+    it('should apply full jitter', () => {
+      expect(computeBackoffDelay(2, { ...policy, random: () => 0.25 })).toBe(250);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { isPathAllowed, parseRobotsTxt, robotsToken } from '../robots.js';
+
+describe('robots.txt (robots.ts)', () => {
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/public-page',
+    'Disallow: /*.pdf$',
+    '',
+    '# Our own group',
+    'User-agent: BraveSearchMCP',
+    'User-agent: OtherBot',
+    'Disallow: /drafts # unfinished',
+    'Sitemap: https://example.com/sitemap.xml',
+  ].join('\n');
+
+  it('should use the group naming our product token over the wildcard group', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'BraveSearchMCP/1.0');
+    expect(isPathAllowed(rules, '/drafts/post')).toBe(false);
+    expect(isPathAllowed(rules, '/private/secret')).toBe(true);
+  });
+
+  it('should fall back to the wildcard group', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'SomeBot/2.0');
+    expect(isPathAllowed(rules, '/private/secret')).toBe(false);
+    expect(isPathAllowed(rules, '/drafts/post')).toBe(true);
+  });
+
+  it('should let the longest match win and Allow win ties', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'SomeBot/2.0');
+    expect(isPathAllowed(rules, '/private/public-page')).toBe(true);
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page', '*'), '/page')).toBe(true);
+  });
+
+  it('should support wildcards and end anchors', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'SomeBot/2.0');
+    expect(isPathAllowed(rules, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('should treat an empty Disallow as allowing everything', () => {
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow:', 'Bot'), '/anything')).toBe(true);
+  });
+
+  it('should take the product token from a user agent string', () => {
+    expect(robotsToken('BraveSearchMCP/1.0 (compatible)')).toBe('bravesearchmcp');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { SearchStore, SearchStoreOptions } from '../searchStore.js';
+
+describe('SearchStore (searchStore.ts)', () => {
+  const createStore = (options: Partial<SearchStoreOptions> = {}) => {
+    let nextId = 0;
+    return new SearchStore({ maxSearches: 3, maxPois: 2, now: () => 0, generateId: () => `s${++nextId}`, ...options });
+  };
+
+  it('should keep searches with their arguments, minus delivery options', () => {
+    const store = createStore();
+    const search = store.recordSearch('brave_web_search', { query: 'q', count: 5, output_format: 'json', no_cache: true }, { web: {} });
+
+    expect(search).toEqual({ id: 's1', tool: 'brave_web_search', arguments: { query: 'q', count: 5 }, created_at: '1970-01-01T00:00:00.000Z', response: { web: {} } });
+    expect(store.getSearch('s1')).toBe(search);
+  });
+
+  it('should list the newest searches first and forget the oldest', () => {
+    const store = createStore();
+    ['a', 'b', 'c', 'd'].forEach(query => store.recordSearch('brave_web_search', { query }, {}));
+
+    expect(store.listSearches().map(search => search.arguments.query)).toEqual(['d', 'c', 'b']);
+    expect(store.getSearch('s1')).toBeUndefined();
+  });
+
+  const poi = (id: string, name: string = 'Cafe') => ({ id, name, address: {} });
+
+  it('should merge POI details and descriptions that arrive separately', () => {
+    const store = createStore();
+    store.recordPois([poi('p1')]);
+    store.recordPois([], { p1: 'Good coffee' });
+
+    expect(store.getPoi('p1')).toEqual({ id: 'p1', name: 'Cafe', details: poi('p1'), description: 'Good coffee', updated_at: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('should forget the least recently updated POI', () => {
+    const store = createStore();
+    store.recordPois([poi('p1'), poi('p2')]);
+    store.recordPois([], { p1: 'Updated' });
+    store.recordPois([poi('p3')]);
+
+    expect(store.getPoi('p1')?.description).toBe('Updated');
+    expect(store.getPoi('p2')).toBeUndefined();
+  });
+
+  it('should keep nothing when the history size is 0', () => {
+    const store = createStore({ maxSearches: 0, maxPois: 0 });
+    expect(store.recordSearch('brave_web_search', { query: 'q' }, {})).toBeUndefined();
+    store.recordPois([poi('p1')]);
+    expect(store.listSearches()).toEqual([]);
+    expect(store.getPoi('p1')).toBeUndefined();
+  });
+});
@@ -1,4 +1,4 @@
-import { isBraveWebSearchArgs, isBraveLocalSearchArgs } from '../tools.js'; // Use .js extension for ESM imports
+import { isBraveWebSearchArgs, isBraveLocalSearchArgs, isBraveImageSearchArgs, isBraveVideoSearchArgs, isBraveNewsSearchArgs, isBravePoiDetailsArgs, isBravePoiDescriptionsArgs, isBraveQuotaStatusArgs, isValidFreshness, validateToolArgs, ALL_TOOLS, WEB_SEARCH_TOOL, LOCAL_SEARCH_TOOL } from '../tools.js'; // Use .js extension for ESM imports
 
 describe('Tool Argument Type Guards', () => {
 
@@ -36,6 +36,56 @@ describe('Tool Argument Type Guards', () => {
       expect(isBraveWebSearchArgs({ query: 'test', offset: 'xyz' })).toBe(false);
     });
 
+    it('should return true for valid args with all Brave options', () => {
+      expect(isBraveWebSearchArgs({
+        query: 'test',
+        country: 'JP',
+        search_lang: 'jp',
+        ui_lang: 'ja-JP',
+        safesearch: 'moderate',
+        freshness: '2024-03-01to2024-03-31',
+        units: 'imperial',
+        spellcheck: true,
+        text_decorations: false,
+        extra_snippets: true,
+        result_filter: ['web', 'news', 'videos'],
+      })).toBe(true);
+    });
+
+    it('should return false for unsupported country or language codes', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', country: 'us' })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', search_lang: 'english' })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', ui_lang: 'en' })).toBe(false);
+    });
+
+    it('should return false for unsupported safesearch or units values', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', safesearch: 'high' })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', units: 'nautical' })).toBe(false);
+    });
+
+    it('should return false for invalid freshness values', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', freshness: 'last-week' })).toBe(false);
+    });
+
+    it('should return false if a flag is not a boolean', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', extra_snippets: 'yes' })).toBe(false);
+    });
+
+    it('should accept a boolean no_cache and reject other values', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', no_cache: true })).toBe(true);
+      expect(isBraveWebSearchArgs({ query: 'test', no_cache: 'yes' })).toBe(false);
+    });
+
+    it('should accept supported output formats and reject others', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', output_format: 'markdown' })).toBe(true);
+      expect(isBraveWebSearchArgs({ query: 'test', output_format: 'xml' })).toBe(false);
+    });
+
+    it('should return false for unknown result_filter sections', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', result_filter: ['web', 'shopping'] })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', result_filter: 'web' })).toBe(false);
+    });
+
     it('should return false for null input', () => {
       expect(isBraveWebSearchArgs(null)).toBe(false);
     });
@@ -94,4 +144,178 @@ describe('Tool Argument Type Guards', () => {
       expect(isBraveLocalSearchArgs({ query: 'park', another: 'field' })).toBe(true); // Current behavior
     });
   });
-});
\ No newline at end of file
+
+  // --- Tests for isBraveImageSearchArgs ---
+  describe('isBraveImageSearchArgs', () => {
+    it('should return true for valid minimal args', () => {
+      expect(isBraveImageSearchArgs({ query: 'sunset' })).toBe(true);
+    });
+
+    it('should return true for valid args with count and safesearch', () => {
+      expect(isBraveImageSearchArgs({ query: 'sunset', count: 50, safesearch: 'off' })).toBe(true);
+    });
+
+    it('should return false if query is missing', () => {
+      expect(isBraveImageSearchArgs({ count: 5 })).toBe(false);
+    });
+
+    it('should return false if count is not a number', () => {
+      expect(isBraveImageSearchArgs({ query: 'sunset', count: '5' })).toBe(false);
+    });
+
+    it('should return false for unsupported safesearch values', () => {
+      // The image endpoint only accepts 'off' and 'strict'
+      expect(isBraveImageSearchArgs({ query: 'sunset', safesearch: 'moderate' })).toBe(false);
+    });
+
+    it('should return false for null input', () => {
+      expect(isBraveImageSearchArgs(null)).toBe(false);
+    });
+  });
+
+  // --- Tests for isBraveVideoSearchArgs ---
+  describe('isBraveVideoSearchArgs', () => {
+    it('should return true for valid minimal args', () => {
+      expect(isBraveVideoSearchArgs({ query: 'how to knit' })).toBe(true);
+    });
+
+    it('should return true for valid args with count and offset', () => {
+      expect(isBraveVideoSearchArgs({ query: 'how to knit', count: 20, offset: 3 })).toBe(true);
+    });
+
+    it('should return false if query is missing', () => {
+      expect(isBraveVideoSearchArgs({ offset: 1 })).toBe(false);
+    });
+
+    it('should return false if offset is not a number', () => {
+      expect(isBraveVideoSearchArgs({ query: 'how to knit', offset: 'next' })).toBe(false);
+    });
+
+    it('should return false for non-object input', () => {
+      expect(isBraveVideoSearchArgs('how to knit')).toBe(false);
+    });
+  });
+
+  // --- Tests for isBraveNewsSearchArgs ---
+  describe('isBraveNewsSearchArgs', () => {
+    it('should return true for valid minimal args', () => {
+      expect(isBraveNewsSearchArgs({ query: 'elections' })).toBe(true);
+    });
+
+    it('should return true for valid args with all options', () => {
+      expect(isBraveNewsSearchArgs({ query: 'elections', count: 30, offset: 1, freshness: 'pd', country: 'GB', search_lang: 'en' })).toBe(true);
+    });
+
+    it('should return false if query is missing', () => {
+      expect(isBraveNewsSearchArgs({ freshness: 'pw' })).toBe(false);
+    });
+
+    it('should return false for unknown freshness values', () => {
+      expect(isBraveNewsSearchArgs({ query: 'elections', freshness: 'today' })).toBe(false);
+    });
+
+    it('should return false for unsupported country codes', () => {
+      expect(isBraveNewsSearchArgs({ query: 'elections', country: 'XX' })).toBe(false);
+    });
+
+    it('should return false for unsupported languages', () => {
+      expect(isBraveNewsSearchArgs({ query: 'elections', search_lang: 'klingon' })).toBe(false);
+    });
+  });
+
+  // --- Tests for the bounds taken from the input schemas ---
+  describe('schema bounds', () => {
+    it('should reject counts and offsets outside their ranges', () => {
+      expect(isBraveWebSearchArgs({ query: 'test', count: 500 })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', count: 0 })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: 'test', offset: -1 })).toBe(false);
+      expect(isBraveNewsSearchArgs({ query: 'test', count: 50 })).toBe(true);
+      expect(isBraveNewsSearchArgs({ query: 'test', count: 51 })).toBe(false);
+    });
+
+    it('should enforce the 400-character and 50-word query limits', () => {
+      expect(isBraveWebSearchArgs({ query: 'a'.repeat(400) })).toBe(true);
+      expect(isBraveWebSearchArgs({ query: 'a'.repeat(401) })).toBe(false);
+      expect(isBraveLocalSearchArgs({ query: Array(50).fill('word').join(' ') })).toBe(true);
+      expect(isBraveLocalSearchArgs({ query: Array(51).fill('word').join(' ') })).toBe(false);
+      expect(isBraveWebSearchArgs({ query: '  ' })).toBe(false);
+    });
+
+    it('should reject empty id lists and empty ids', () => {
+      expect(isBravePoiDetailsArgs({ ids: ['poi-1'] })).toBe(true);
+      expect(isBravePoiDetailsArgs({ ids: [] })).toBe(false);
+      expect(isBravePoiDescriptionsArgs({ ids: [''] })).toBe(false);
+    });
+  });
+
+  describe('validateToolArgs', () => {
+    it('should name each failing field with the reason', () => {
+      expect(validateToolArgs(WEB_SEARCH_TOOL, { query: 'test', count: 500, offset: -1, freshness: '2024-02-01to2024-01-01' })).toEqual([
+        { field: 'count', message: 'must be at most 20, got 500' },
+        { field: 'offset', message: 'must be at least 0, got -1' },
+        { field: 'freshness', message: 'is not a valid freshness, got "2024-02-01to2024-01-01"' },
+      ]);
+    });
+
+    it('should reject fractional counts and offsets', () => {
+      expect(validateToolArgs(WEB_SEARCH_TOOL, { query: 'test', count: 2.5, offset: 0.5 })).toEqual([
+        { field: 'count', message: 'must be a whole number, got 2.5' },
+        { field: 'offset', message: 'must be a whole number, got 0.5' },
+      ]);
+      expect(validateToolArgs(LOCAL_SEARCH_TOOL, { query: 'cafe', max_price_range: 1.5, min_rating: 4.5, latitude: 48.86, longitude: 2.35 })).toEqual([
+        { field: 'max_price_range', message: 'must be a whole number, got 1.5' },
+      ]);
+    });
+
+    it('should say when arguments are missing altogether', () => {
+      expect(validateToolArgs(WEB_SEARCH_TOOL, undefined)).toEqual([{ field: '', message: 'Tool arguments are required' }]);
+    });
+
+    it('should check local search locations', () => {
+      expect(validateToolArgs(LOCAL_SEARCH_TOOL, { query: 'cafe', latitude: 91, longitude: 0, country: 'USA', timezone: 'Mars/Olympus' })).toEqual([
+        { field: 'latitude', message: 'must be at most 90, got 91' },
+        { field: 'country', message: 'has an invalid format, got "USA"' },
+        { field: 'timezone', message: 'is not a valid timezone, got "Mars/Olympus"' },
+      ]);
+      expect(validateToolArgs(LOCAL_SEARCH_TOOL, { query: 'cafe', longitude: 2.35 })).toEqual([{ field: 'latitude', message: 'is required when longitude is given' }]);
+      expect(validateToolArgs(LOCAL_SEARCH_TOOL, { query: 'cafe', latitude: 48.86, longitude: 2.35, timezone: 'Europe/Paris' })).toEqual([]);
+    });
+
+    it('should cover every tool', () => {
+      ALL_TOOLS.forEach(tool => expect(() => validateToolArgs(tool, {})).not.toThrow());
+    });
+  });
+
+  // --- Tests for isBraveQuotaStatusArgs ---
+  describe('isBraveQuotaStatusArgs', () => {
+    it('should return true for missing or empty args', () => {
+      expect(isBraveQuotaStatusArgs(undefined)).toBe(true);
+      expect(isBraveQuotaStatusArgs({})).toBe(true);
+    });
+
+    it('should validate output_format', () => {
+      expect(isBraveQuotaStatusArgs({ output_format: 'json' })).toBe(true);
+      expect(isBraveQuotaStatusArgs({ output_format: 'yaml' })).toBe(false);
+    });
+  });
+
+  // --- Tests for isValidFreshness ---
+  describe('isValidFreshness', () => {
+    it('should accept the relative freshness windows', () => {
+      ['pd', 'pw', 'pm', 'py'].forEach(value => expect(isValidFreshness(value)).toBe(true));
+    });
+
+    it('should accept a chronological custom date range', () => {
+      expect(isValidFreshness('2024-01-01to2024-01-31')).toBe(true);
+    });
+
+    it('should reject a reversed custom date range', () => {
+      expect(isValidFreshness('2024-02-01to2024-01-01')).toBe(false);
+    });
+
+    it('should reject malformed values', () => {
+      expect(isValidFreshness('2024-1-1to2024-1-31')).toBe(false);
+      expect(isValidFreshness('past-week')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { canonicalizeUrl } from '../urls.js';
+
+describe('canonicalizeUrl (urls.ts)', () => {
+  it('should treat different spellings of the same page as equal', () => {
+    const variants = [
+      'https://www.example.com/docs/',
+      'http://example.com/docs',
+      'https://EXAMPLE.com:443/docs#intro',
+      'https://example.com/docs?utm_source=news&fbclid=abc',
+    ];
+    expect(new Set(variants.map(canonicalizeUrl))).toEqual(new Set(['example.com/docs']));
+  });
+
+  it('should keep meaningful parameters, sorted', () => {
+    expect(canonicalizeUrl('https://example.com/search?q=rust&page=2')).toBe('example.com/search?page=2&q=rust');
+    expect(canonicalizeUrl('https://example.com/search?page=2&q=rust')).toBe(canonicalizeUrl('https://example.com/search?q=rust&page=2'));
+  });
+
+  it('should keep non-default ports and path case', () => {
+    expect(canonicalizeUrl('http://example.com:8080/Docs')).toBe('example.com:8080/Docs');
+  });
+
+  it('should return strings that are not URLs trimmed', () => {
+    expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+  });
+});
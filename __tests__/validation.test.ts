@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals'; // Import Jest globals for ESM
+
+import { JsonSchema, ToolArgumentError, validateAgainstSchema } from '../validation.js';
+
+describe('validateAgainstSchema (validation.ts)', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1, maxLength: 20, maxWords: 3 },
+      count: { type: 'number', minimum: 1, maximum: 20 },
+      mode: { type: 'string', enum: ['fast', 'slow'] },
+      code: { type: 'string', pattern: '^[A-Z]{2}$', format: 'upper' },
+      ids: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 3 },
+    },
+    required: ['query'],
+  };
+  const formats = { upper: (value: string) => value !== 'XX' };
+
+  it('should accept valid values and ignore unknown properties', () => {
+    expect(validateAgainstSchema(schema, { query: 'two words', count: 20, mode: 'fast', code: 'DE', ids: ['a'], extra: true }, { formats })).toEqual([]);
+  });
+
+  it('should report every failing field with the reason', () => {
+    expect(validateAgainstSchema(schema, { count: 500, mode: 'medium', ids: [] })).toEqual([
+      { field: 'query', message: 'is required' },
+      { field: 'count', message: 'must be at most 20, got 500' },
+      { field: 'mode', message: 'must be one of "fast", "slow", got "medium"' },
+      { field: 'ids', message: 'must not be empty' },
+    ]);
+  });
+
+  it('should enforce string length and word limits', () => {
+    expect(validateAgainstSchema(schema, { query: '   ' })).toEqual([{ field: 'query', message: 'must not be empty' }]);
+    expect(validateAgainstSchema(schema, { query: 'x'.repeat(21) })).toEqual([{ field: 'query', message: 'must be at most 20 characters, got 21' }]);
+    expect(validateAgainstSchema(schema, { query: 'one two three four' })).toEqual([{ field: 'query', message: 'must be at most 3 words, got 4' }]);
+  });
+
+  it('should check patterns and named formats', () => {
+    expect(validateAgainstSchema(schema, { query: 'q', code: 'de' }, { formats })[0].message).toBe('has an invalid format, got "de"');
+    expect(validateAgainstSchema(schema, { query: 'q', code: 'XX' }, { formats })[0].message).toBe('is not a valid upper, got "XX"');
+  });
+
+  it('should point at the failing array item', () => {
+    expect(validateAgainstSchema(schema, { query: 'q', ids: ['a', '', 3] })).toEqual([
+      { field: 'ids[1]', message: 'must not be empty' },
+      { field: 'ids[2]', message: 'must be a string, got 3' },
+    ]);
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(validateAgainstSchema(schema, null)).toEqual([{ field: '', message: 'must be an object, got null' }]);
+    expect(validateAgainstSchema(schema, { query: 'q', count: NaN })).toEqual([{ field: 'count', message: 'must be a number, got NaN' }]);
+  });
+});
+
+describe('ToolArgumentError (validation.ts)', () => {
+  it('should list the issues in its message', () => {
+    const error = new ToolArgumentError('brave_web_search', [{ field: 'count', message: 'must be at most 20, got 500' }, { field: '', message: 'Tool arguments are required' }]);
+    expect(error.message).toBe('Invalid arguments for tool "brave_web_search":\n- count: must be at most 20, got 500\n- Tool arguments are required');
+  });
+});
@@ -1,17 +1,209 @@
-import { BRAVE_API_KEY, LOG_LEVEL } from './config.js';
+import {
+  BRAVE_API_KEYS,
+  BRAVE_API_KEY_FILE,
+  KEY_ROTATION,
+  KEY_COOLDOWN_MS,
+  LOG_LEVEL,
+  RATE_LIMIT_PER_SECOND,
+  RATE_LIMIT_PER_ENDPOINT_PER_SECOND,
+  RATE_LIMIT_PER_MONTH,
+  RATE_LIMIT_MAX_WAIT_MS,
+  RETRY_MAX_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRY_BUDGET_MS,
+  QUOTA_FILE,
+  QUOTA_SOFT_CAP,
+  CACHE_MAX_ENTRIES,
+  CACHE_FILE,
+  CACHE_DEFAULT_TTL_MS,
+  CACHE_TTL_MS,
+  FETCH_ALLOWED_DOMAINS,
+  FETCH_DENIED_DOMAINS,
+  FETCH_MAX_BYTES,
+  FETCH_TIMEOUT_MS,
+  FETCH_ALLOW_PRIVATE_NETWORKS,
+  LOCAL_SEARCH_LANG,
+  LOCAL_COUNTRY,
+  FETCH_USER_AGENT
+} from './config.js';
+import { RateLimiter, RateLimiterOptions, RateLimitError } from './rateLimiter.js';
+import {
+  RetryPolicy,
+  isRetryableStatus,
+  parseRetryAfter,
+  parseRateLimitReset,
+  computeBackoffDelay
+} from './retry.js';
+import { QuotaTracker, QuotaTrackerOptions, QuotaStatus, QuotaExceededError } from './quota.js';
+import { PageFetcher, PageFetcherOptions, FetchedPage } from './pageFetcher.js';
+import { KeyPool, KeyPoolOptions, ApiKeyStatus, NoApiKeyError, KEY_FAILURE_STATUSES, maskKey } from './keyPool.js';
+import { ResponseCache, ResponseCacheOptions, normalizeCacheKey } from './cache.js';
+import { canonicalizeUrl } from './urls.js';
 
 // --- Interfaces (Copied from original index.ts) ---
 
+export interface BraveMetaUrl {
+  scheme?: string;
+  netloc?: string;
+  hostname?: string;
+  favicon?: string;
+  path?: string; // Breadcrumb-style, e.g. "› wiki › Coffee"
+}
+
+export interface BraveThumbnail {
+  src: string;
+  original?: string;
+}
+
+// A sitelink shown under a result, e.g. "Pricing" or "Docs"
+export interface BraveButtonResult {
+  type?: string; // 'button_result'
+  title: string;
+  url: string;
+}
+
+// Extra results Brave groups under a web result, mainly sitelinks
+export interface BraveDeepResults {
+  buttons?: BraveButtonResult[];
+  news?: BraveNewsResult[];
+  videos?: BraveVideoResult[];
+  images?: Array<{ url?: string; thumbnail?: BraveThumbnail }>;
+}
+
+export interface BraveWebResult {
+  type?: string; // 'search_result'
+  subtype?: string; // 'generic', 'faq', 'article', ...
+  title: string;
+  description: string;
+  url: string;
+  language?: string;
+  published?: string;
+  rank?: number;
+  age?: string; // Human readable, e.g. "2 days ago"
+  page_age?: string; // ISO timestamp
+  family_friendly?: boolean;
+  is_source_local?: boolean;
+  is_source_both?: boolean;
+  profile?: {
+    name: string;
+    long_name?: string;
+    url?: string;
+    img?: string;
+  };
+  meta_url?: BraveMetaUrl;
+  thumbnail?: BraveThumbnail;
+  deep_results?: BraveDeepResults;
+  extra_snippets?: string[]; // Only present when requested with extra_snippets=true
+}
+
+export interface BraveQuery {
+  original: string;
+  altered?: string; // Set when Brave spellchecked the query and searched for this instead
+  more_results_available?: boolean; // False on the last page of results
+  spellcheck_off?: boolean;
+  show_strict_warning?: boolean;
+  safesearch?: boolean;
+  is_navigational?: boolean;
+  is_geolocal?: boolean;
+  local_decision?: string; // 'drop' or 'keep'
+  is_trending?: boolean;
+  is_news_breaking?: boolean;
+  ask_for_location?: boolean;
+  bad_results?: boolean;
+  should_fallback?: boolean;
+  language?: { main: string };
+  country?: string;
+  header_country?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+}
+
+export interface BraveFaqResult {
+  question: string;
+  answer: string;
+  title: string; // Of the page the answer comes from
+  url: string;
+  meta_url?: BraveMetaUrl;
+}
+
+export interface BraveDiscussionResult extends BraveWebResult {
+  data?: {
+    forum_name: string;
+    num_answers?: number;
+    score?: string;
+    title?: string;
+    question?: string;
+    top_comment?: string;
+  };
+}
+
+export interface BraveInfobox {
+  type?: string; // 'infobox'
+  subtype?: string; // 'generic', 'entity', 'location', ...
+  position?: number;
+  title?: string;
+  url?: string;
+  description?: string;
+  long_desc?: string;
+  label?: string;
+  category?: string;
+  attributes?: Array<Array<string | null>>; // [label, value] pairs
+  website_url?: string;
+  profiles?: Array<{ name: string; long_name?: string; url: string; img?: string }>;
+  thumbnail?: BraveThumbnail;
+  found_in_urls?: string[];
+}
+
+// The sections a web search response can reference from `mixed`
+export type BraveWebSection = 'web' | 'faq' | 'discussions' | 'infobox' | 'news' | 'videos' | 'locations';
+
+export interface BraveResultReference {
+  type: BraveWebSection | string; // Brave may add sections this server doesn't know
+  index?: number; // Position in that section's results; unset when `all` is true
+  all: boolean; // Whether the whole section goes here
+}
+
+// Brave's ranking of the page: `top` above everything, then `main`, with `side` alongside
+export interface BraveMixed {
+  type?: string; // 'mixed'
+  main?: BraveResultReference[];
+  top?: BraveResultReference[];
+  side?: BraveResultReference[];
+}
+
 export interface BraveWeb {
+  type?: string; // 'search'
+  query?: BraveQuery;
+  mixed?: BraveMixed;
   web?: {
-    results?: Array<{
-      title: string;
-      description: string;
-      url: string;
-      language?: string;
-      published?: string;
-      rank?: number;
-    }>;
+    type?: string;
+    results?: BraveWebResult[];
+    family_friendly?: boolean;
+  };
+  faq?: {
+    type?: string;
+    results?: BraveFaqResult[];
+  };
+  discussions?: {
+    type?: string;
+    results?: BraveDiscussionResult[];
+    mutated_by_goggles?: boolean;
+  };
+  infobox?: {
+    type?: string; // 'graph'
+    results?: BraveInfobox[];
+  };
+  news?: {
+    type?: string;
+    results?: BraveNewsResult[];
+    mutated_by_goggles?: boolean;
+  };
+  videos?: {
+    type?: string;
+    results?: BraveVideoResult[];
+    mutated_by_goggles?: boolean;
   };
   locations?: {
     results?: Array<{
@@ -19,6 +211,29 @@ export interface BraveWeb {
       title?: string;
     }>;
   };
+  summarizer?: {
+    type?: string;
+    key: string; // Redeemed at the summarizer endpoint; only present when requested with summary=1
+  };
+}
+
+export type BraveSafesearch = 'off' | 'moderate' | 'strict';
+
+export type BraveResultFilter =
+  'discussions' | 'faq' | 'infobox' | 'news' | 'query' | 'summarizer' | 'videos' | 'web' | 'locations';
+
+export interface BraveWebSearchOptions {
+  country?: string;
+  search_lang?: string;
+  ui_lang?: string;
+  safesearch?: BraveSafesearch;
+  freshness?: string; // pd, pw, pm, py or YYYY-MM-DDtoYYYY-MM-DD
+  units?: 'metric' | 'imperial';
+  spellcheck?: boolean;
+  text_decorations?: boolean;
+  extra_snippets?: boolean;
+  result_filter?: BraveResultFilter[]; // Defaults to web results only
+  include?: BraveWebSection[]; // Sections requested on top of result_filter
 }
 
 export interface BraveLocation {
@@ -40,32 +255,253 @@ export interface BraveLocation {
     ratingCount?: number;
   };
   openingHours?: string[];
+  timezone?: string; // IANA name of the place's time zone, when Brave knows it
   priceRange?: string;
 }
 
 export interface BravePoiResponse {
   results: BraveLocation[];
+  failed_ids?: string[]; // Not from Brave: ids whose request failed while other chunks succeeded
 }
 
 export interface BraveDescription {
   descriptions: {[id: string]: string};
+  failed_ids?: string[]; // As for BravePoiResponse
+}
+
+export type BraveImageSafesearch = 'off' | 'strict';
+
+export interface BraveImageResult {
+  type?: string;
+  title: string;
+  url: string; // Page the image was found on
+  source?: string; // Source domain
+  page_fetched?: string;
+  thumbnail?: {
+    src: string;
+    width?: number;
+    height?: number;
+  };
+  properties?: {
+    url: string; // Direct URL to the full-size image
+    placeholder?: string;
+    width?: number;
+    height?: number;
+  };
+  meta_url?: {
+    scheme?: string;
+    netloc?: string;
+    hostname?: string;
+    favicon?: string;
+    path?: string;
+  };
+}
+
+export interface BraveImageResponse {
+  type?: string;
+  query?: {
+    original: string;
+    altered?: string;
+  };
+  results: BraveImageResult[];
+}
+
+export interface BraveVideoResult {
+  type?: string;
+  title: string;
+  url: string;
+  description?: string;
+  age?: string; // Human readable, e.g. "2 weeks ago"
+  page_age?: string; // ISO timestamp
+  video?: {
+    duration?: string; // e.g. "12:34"
+    views?: number;
+    creator?: string;
+    publisher?: string;
+  };
+  thumbnail?: {
+    src: string;
+    original?: string;
+  };
+  meta_url?: {
+    hostname?: string;
+  };
+}
+
+export interface BraveVideoResponse {
+  type?: string;
+  query?: {
+    original: string;
+    altered?: string;
+  };
+  results: BraveVideoResult[];
+}
+
+export interface BraveNewsResult {
+  type?: string;
+  title: string;
+  url: string;
+  description?: string;
+  source?: string;
+  age?: string; // Human readable, e.g. "3 hours ago"
+  page_age?: string; // ISO timestamp of publication
+  breaking?: boolean;
+  is_live?: boolean;
+  thumbnail?: {
+    src: string;
+    original?: string;
+  };
+  meta_url?: {
+    hostname?: string;
+  };
+  extra_snippets?: string[];
+}
+
+export interface BraveNewsResponse {
+  type?: string;
+  query?: {
+    original: string;
+    altered?: string;
+  };
+  results: BraveNewsResult[];
+}
+
+// Where the user is, sent as Brave's X-Loc-* headers so "near me" means near them rather than near the server
+export interface BraveSearchLocation {
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  state?: string; // Region code (e.g. 'CA') or full name
+  country?: string; // Two-letter country code
+  postal_code?: string;
+  timezone?: string; // IANA name, e.g. 'America/New_York'
+}
+
+export interface BraveLocalSearchOptions {
+  search_lang?: string; // Defaults to BRAVE_LOCAL_SEARCH_LANG
+  country?: string; // Country the results should come from, defaults to BRAVE_LOCAL_COUNTRY
+  location?: BraveSearchLocation;
+}
+
+export interface BraveNewsSearchOptions {
+  freshness?: string; // pd, pw, pm, py or YYYY-MM-DDtoYYYY-MM-DD
+  country?: string;
+  search_lang?: string;
+}
+
+export interface BraveDeepSearchResponse {
+  query?: BraveWeb['query']; // From the first page
+  results: BraveWebResult[]; // In Brave's ranking order across pages, without duplicate URLs
+  pages: number; // Pages requested, each costing one query
+  duplicates: number; // Results dropped because an earlier page had the same URL
+  more_results_available: boolean;
+}
+
+export interface BraveSuggestion {
+  query: string;
+  is_entity?: boolean; // Rich suggestions only: the suggestion names a known entity
+  title?: string;
+  description?: string;
+  img?: string;
+}
+
+export interface BraveSuggestResponse {
+  type?: string;
+  query: {
+    original: string;
+  };
+  results: BraveSuggestion[];
+}
+
+export interface BraveSuggestOptions {
+  country?: string;
+  rich?: boolean; // Include entity titles, descriptions and images (default true)
+}
+
+export interface BraveSpellcheckResponse {
+  type?: string;
+  query: {
+    original: string;
+  };
+  results: Array<{
+    query: string; // A corrected spelling of the whole query
+  }>;
+}
+
+export interface BraveSummarizerSearch {
+  key?: string; // Absent when Brave has no summary for the query
+  web: BraveWeb; // The search the summary was built from
+}
+
+export interface BraveSummaryEntity {
+  uuid?: string;
+  name: string;
+  url?: string;
+  text?: string;
+}
+
+export interface BraveSummaryInlineReference {
+  type?: string;
+  url: string;
+  start_index?: number;
+  end_index?: number;
+  number?: number;
+}
+
+// A piece of the summary: text tokens, list markers and items, and references to sources
+export type BraveSummaryMessage =
+  | { type: 'token'; data: string }
+  | { type: 'enum_start' | 'enum_end'; data?: unknown }
+  | { type: 'enum_item'; data: string | BraveSummaryEntity }
+  | { type: 'inline_reference'; data: BraveSummaryInlineReference };
+
+export interface BraveSummaryContext {
+  title: string;
+  url: string;
+  meta_url?: {
+    hostname?: string;
+  };
+}
+
+export interface BraveSummaryEnrichments {
+  raw?: string; // The whole summary as plain text
+  entities?: BraveSummaryEntity[];
+  context?: BraveSummaryContext[]; // Pages the summary was built from
+}
+
+export interface BraveSummaryResponse {
+  type?: string;
+  status?: 'complete' | 'failed' | string; // Anything else means the summary is still being generated
+  title?: string;
+  summary?: BraveSummaryMessage[];
+  enrichments?: BraveSummaryEnrichments;
+  followups?: string[];
+}
+
+export interface BraveSummaryPollOptions {
+  maxPolls?: number; // Requests made before giving up on an unfinished summary (default 10)
+  intervalMs?: number; // Wait between requests (default 1000)
+  sleep?: (ms: number) => Promise<void>; // Injectable for tests
 }
 
 // --- Rate Limiting ---
 
-const RATE_LIMIT = {
-  perSecond: 1, // Changed from 10 to 1 to comply with Brave's actual rate limit
-};
+let rateLimiter = createRateLimiter();
 
-// Per-endpoint tracker for rate limiting
-const endpointTrackers = new Map<string, {
-  lastCallTime: number;
-  callCount: number;
-}>();
+function createRateLimiter(overrides: Partial<RateLimiterOptions> = {}): RateLimiter {
+  return new RateLimiter({
+    perSecond: RATE_LIMIT_PER_SECOND,
+    perEndpointPerSecond: RATE_LIMIT_PER_ENDPOINT_PER_SECOND,
+    perMonth: RATE_LIMIT_PER_MONTH,
+    maxWaitMs: RATE_LIMIT_MAX_WAIT_MS,
+    ...overrides,
+  });
+}
 
 // --- Exported for testing purposes ONLY ---
-export function _resetRateLimiterForTest() {
-  endpointTrackers.clear();
+// Replaces the limiter with a fresh one; overrides allow tests to inject a fake clock and timer
+export function _resetRateLimiterForTest(overrides: Partial<RateLimiterOptions> = {}) {
+  rateLimiter = createRateLimiter(overrides);
 };
 
 // Function to extract endpoint from URL for tracking purposes
@@ -76,61 +512,252 @@ function getEndpointFromUrl(url: URL): string {
   return pathSegments.slice(-2).join('/');
 }
 
-// Rate limit check with integrated waiting
-async function checkRateLimit(endpoint: string, url: URL): Promise<void> {
-  // Only bypass rate limiting in tests except for rate limit tests
-  // Rate limit tests explicitly use queries with 'req1', 'req2', etc.
-  const query = url.searchParams.get('q') || '';
-  const isRateLimitTest = process.env.NODE_ENV === "test" && query.includes('req');
-  
-  if (process.env.NODE_ENV === "test" && !isRateLimitTest) {
-    return; // Skip rate limiting for regular tests
-  }
-  // Initialize tracker if not exists
-  if (!endpointTrackers.has(endpoint)) {
-    endpointTrackers.set(endpoint, {
-      lastCallTime: 0,
-      callCount: 0
-    });
+// Waits for a free slot in the global and per-endpoint queues
+async function waitForRateLimit(endpoint: string): Promise<void> {
+  try {
+    await rateLimiter.acquire(endpoint);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw new BraveApiError(error.message, 429);
+    }
+    throw error;
+  }
+}
+
+// Per-call options that are not Brave API parameters
+export interface BraveRequestOptions {
+  noCache?: boolean; // Skip the cache lookup; the fresh response still replaces the cached one
+}
+
+// --- Response Caching ---
+
+let responseCache = createResponseCache();
+
+function createResponseCache(overrides: Partial<ResponseCacheOptions> = {}): ResponseCache {
+  return new ResponseCache({
+    maxEntries: CACHE_MAX_ENTRIES,
+    defaultTtlMs: CACHE_DEFAULT_TTL_MS,
+    ttlMs: CACHE_TTL_MS,
+    filePath: CACHE_FILE,
+    ...overrides,
+  });
+}
+
+// --- Exported for testing purposes ONLY ---
+// Replaces the cache; without overrides the new cache lives in memory only
+export function _resetCacheForTest(overrides: Partial<ResponseCacheOptions> = {}) {
+  responseCache = createResponseCache({ filePath: undefined, ...overrides });
+};
+
+// --- Quota Tracking ---
+
+let quotaTracker = createQuotaTracker();
+
+function createQuotaTracker(overrides: Partial<QuotaTrackerOptions> = {}): QuotaTracker {
+  return new QuotaTracker({
+    filePath: QUOTA_FILE || undefined,
+    softCap: QUOTA_SOFT_CAP,
+    ...overrides,
+  });
+}
+
+// --- Exported for testing purposes ONLY ---
+// Replaces the quota tracker; without overrides the new tracker keeps its counts in memory only
+export function _resetQuotaTrackerForTest(overrides: Partial<QuotaTrackerOptions> = {}) {
+  quotaTracker = createQuotaTracker({ filePath: undefined, ...overrides });
+};
+
+export function getQuotaStatus(): QuotaStatus {
+  return quotaTracker.status();
+}
+
+// --- API Keys ---
+
+let keyPool = createKeyPool();
+
+function createKeyPool(overrides: Partial<KeyPoolOptions> = {}): KeyPool {
+  return new KeyPool({
+    keys: BRAVE_API_KEYS,
+    keyFile: BRAVE_API_KEY_FILE,
+    strategy: KEY_ROTATION,
+    cooldownMs: KEY_COOLDOWN_MS,
+    ...overrides,
+  });
+}
+
+// --- Exported for testing purposes ONLY ---
+// Replaces the key pool; overrides allow tests to supply keys and a fake clock
+export function _resetKeyPoolForTest(overrides: Partial<KeyPoolOptions> = {}) {
+  keyPool = createKeyPool(overrides);
+};
+
+export function getApiKeyStatus(): ApiKeyStatus[] {
+  return keyPool.status();
+}
+
+function selectApiKey(exclude: ReadonlySet<string>): string {
+  try {
+    return keyPool.select(exclude);
+  } catch (error) {
+    if (error instanceof NoApiKeyError) {
+      throw new BraveApiError(error.message, 401);
+    }
+    throw error;
   }
-  
-  const tracker = endpointTrackers.get(endpoint)!;
-  const now = Date.now();
-  const timeSinceLastCall = now - tracker.lastCallTime;
-  
-  // Check per-second rate limit
-  if (timeSinceLastCall < 1000) {
-    throw new BraveApiError("Rate limit exceeded: > 1/second", 429);
+}
+
+// --- Page Fetching ---
+
+let pageFetcher = createPageFetcher();
+
+function createPageFetcher(overrides: Partial<PageFetcherOptions> = {}): PageFetcher {
+  return new PageFetcher({
+    userAgent: FETCH_USER_AGENT,
+    maxBytes: FETCH_MAX_BYTES,
+    timeoutMs: FETCH_TIMEOUT_MS,
+    allowedDomains: FETCH_ALLOWED_DOMAINS,
+    deniedDomains: FETCH_DENIED_DOMAINS,
+    allowPrivateNetworks: FETCH_ALLOW_PRIVATE_NETWORKS,
+    ...overrides,
+  });
+}
+
+// --- Exported for testing purposes ONLY ---
+// Replaces the page fetcher; overrides allow tests to inject fetch, DNS lookups and a fake clock
+export function _resetPageFetcherForTest(overrides: Partial<PageFetcherOptions> = {}) {
+  pageFetcher = createPageFetcher(overrides);
+};
+
+// Pages are fetched from the open web, so they bypass the Brave rate limiter, quota and API keys
+export async function fetchPage(url: string, request: BraveRequestOptions = {}): Promise<FetchedPage> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Fetching page: ${url}`);
   }
-  
-  // Update tracker after passing rate limit check
-  tracker.lastCallTime = Date.now();
-  tracker.callCount++;
-  
-  // Update the tracker in the map
-  endpointTrackers.set(endpoint, tracker);
+  return pageFetcher.fetchPage(url, request.noCache);
 }
 
 // --- API Client Error ---
 
 export class BraveApiError extends Error {
-  constructor(message: string, public status?: number, public details?: string) {
+  constructor(message: string, public status?: number, public details?: string, public retryAfterMs?: number) {
     super(message);
     this.name = 'BraveApiError';
   }
 }
 
+// --- Retries ---
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+let retryPolicy = createRetryPolicy();
+
+function createRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxAttempts: RETRY_MAX_ATTEMPTS,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    budgetMs: RETRY_BUDGET_MS,
+    ...overrides,
+  };
+}
+
+// --- Exported for testing purposes ONLY ---
+// Replaces the retry policy; overrides allow tests to inject a fake timer and jitter
+export function _setRetryPolicyForTest(overrides: Partial<RetryPolicy> = {}) {
+  retryPolicy = createRetryPolicy(overrides);
+};
+
+// Mocked responses in tests may not carry headers at all
+function readHeader(response: Response, name: string): string | null {
+  return response.headers?.get(name) ?? null;
+}
+
+// Returns how long to wait before retrying a failed attempt, or undefined to give up
+function getRetryDelay(error: BraveApiError, attempt: number, waitedMs: number): number | undefined {
+  if (attempt >= retryPolicy.maxAttempts) return undefined;
+  // A missing status means the request never got a response (network failure)
+  if (error.status !== undefined && !isRetryableStatus(error.status)) return undefined;
+
+  // With every key cooling down there is no point in retrying before the first one recovers
+  const delay = Math.max(error.retryAfterMs ?? computeBackoffDelay(attempt, retryPolicy), keyPool.msUntilHealthy());
+  return waitedMs + delay > retryPolicy.budgetMs ? undefined : delay;
+}
+
 // --- Core API Call Function ---
 
-async function callBraveApi<T>(url: URL): Promise<T> {
-  // Extract endpoint from URL for per-endpoint rate limiting
+async function callBraveApi<T>(url: URL, request: BraveRequestOptions = {}, headers: Record<string, string> = {}): Promise<T> {
+  // Extract endpoint from URL for per-endpoint rate limiting and cache TTLs
   const endpoint = getEndpointFromUrl(url);
-  
-  // Apply rate limiting with built-in waiting
-  await checkRateLimit(endpoint, url);
-  
+
+  // Cached responses cost neither quota nor a rate limiter slot
+  const cacheKey = normalizeCacheKey(url, headers);
+  if (!request.noCache) {
+    const cached = responseCache.get<T>(cacheKey);
+    if (cached !== undefined) {
+      if (LOG_LEVEL === 'debug') {
+        console.debug(`Serving Brave API response from cache: ${url.toString()}`);
+      }
+      return cached;
+    }
+  }
+
+  const sleep = retryPolicy.sleep ?? defaultSleep;
+  let waitedMs = 0;
+
+  // Refuse up front rather than spend the last queries of the month
+  try {
+    quotaTracker.checkSoftCap();
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      throw new BraveApiError(error.message, 429);
+    }
+    throw error;
+  }
+
+  // Keys that failed this request; a failing key is swapped for another one without counting as a retry
+  const failedKeys = new Set<string>();
+
+  for (let attempt = 1; ; attempt++) {
+    // Queue behind earlier requests until the rate limiter lets this one through
+    await waitForRateLimit(endpoint);
+    const apiKey = selectApiKey(failedKeys);
+
+    try {
+      const data = await fetchBraveApi<T>(url, attempt, apiKey, headers);
+      responseCache.set(cacheKey, endpoint, data);
+      return data;
+    } catch (error) {
+      const apiError = error as BraveApiError;
+      if (apiError.status !== undefined && KEY_FAILURE_STATUSES.includes(apiError.status)) {
+        keyPool.markUnhealthy(apiKey, apiError.status, apiError.retryAfterMs);
+        failedKeys.add(apiKey);
+        if (keyPool.hasHealthyKey(failedKeys)) {
+          if (LOG_LEVEL === 'debug') {
+            console.debug(`API key ${maskKey(apiKey)} failed with ${apiError.status}, switching keys: ${url.toString()}`);
+          }
+          attempt--;
+          continue;
+        }
+      }
+
+      const delay = getRetryDelay(apiError, attempt, waitedMs);
+      if (delay === undefined) {
+        throw apiError;
+      }
+      if (LOG_LEVEL === 'debug') {
+        console.debug(`Attempt ${attempt}/${retryPolicy.maxAttempts} failed (${apiError.status ?? 'network error'}), retrying in ${delay}ms: ${url.toString()}`);
+      }
+      await sleep(delay);
+      waitedMs += delay;
+      failedKeys.clear(); // Cooldowns decide which keys are worth another try after waiting
+    }
+  }
+}
+
+// Performs a single request, always failing with a BraveApiError
+async function fetchBraveApi<T>(url: URL, attempt: number, apiKey: string, headers: Record<string, string>): Promise<T> {
   if (LOG_LEVEL === 'debug') {
-    console.debug(`Calling Brave API: ${url.toString()}`);
+    console.debug(`Calling Brave API (attempt ${attempt}): ${url.toString()}`);
   }
 
   try {
@@ -138,16 +765,26 @@ async function callBraveApi<T>(url: URL): Promise<T> {
       headers: {
         'Accept': 'application/json',
         'Accept-Encoding': 'gzip',
-        'X-Subscription-Token': BRAVE_API_KEY!, // Key is checked at startup in config.ts
+        ...headers,
+        'X-Subscription-Token': apiKey,
       }
     });
 
+    // Brave's rate-limit headers describe the key that was used, so with several keys they are only tracked per key
+    quotaTracker.recordResponse(keyPool.size > 1 ? undefined : response.headers, response.ok);
+    keyPool.recordResponse(apiKey, response.headers, response.ok);
+
     if (!response.ok) {
       const errorText = await response.text();
       if (LOG_LEVEL === 'debug') {
         console.error(`Brave API Error Response: ${errorText}`);
       }
-      throw new BraveApiError(`API request failed`, response.status, `${response.statusText}: ${errorText.substring(0, 200)}...`); // Truncate long errors
+      // Prefer the server's own hint on when to come back over our computed backoff
+      let retryAfterMs = parseRetryAfter(readHeader(response, 'Retry-After'));
+      if (retryAfterMs === undefined && response.status === 429) {
+        retryAfterMs = parseRateLimitReset(readHeader(response, 'X-RateLimit-Reset'), readHeader(response, 'X-RateLimit-Remaining'));
+      }
+      throw new BraveApiError(`API request failed`, response.status, `${response.statusText}: ${errorText.substring(0, 200)}...`, retryAfterMs); // Truncate long errors
     }
 
     const data = await response.json() as T;
@@ -168,7 +805,7 @@ async function callBraveApi<T>(url: URL): Promise<T> {
 
 // --- Specific API Endpoint Functions ---
 
-export async function fetchWebSearch(query: string, count: number, offset: number): Promise<BraveWeb> {
+function buildWebSearchUrl(query: string, count: number, offset: number, options: BraveWebSearchOptions): URL {
   const url = new URL('https://api.search.brave.com/res/v1/web/search');
   url.searchParams.set('q', query);
   // Only set count if it's a valid number
@@ -179,52 +816,265 @@ export async function fetchWebSearch(query: string, count: number, offset: numbe
   if (typeof offset === 'number' && !isNaN(offset)) {
      url.searchParams.set('offset', Math.max(0, Math.min(offset, 9)).toString()); // API limits offset
   }
-  url.searchParams.set('result_filter', 'web'); // Explicitly ask for web results
+  const stringOptions = ['country', 'search_lang', 'ui_lang', 'safesearch', 'freshness', 'units'] as const;
+  stringOptions.forEach(key => {
+    if (options[key]) {
+      url.searchParams.set(key, options[key]!);
+    }
+  });
+  const booleanOptions = ['spellcheck', 'text_decorations', 'extra_snippets'] as const;
+  booleanOptions.forEach(key => {
+    if (typeof options[key] === 'boolean') {
+      url.searchParams.set(key, String(options[key]));
+    }
+  });
+  // Explicitly ask for web results unless the caller chose other sections
+  const sections = [...(options.result_filter?.length ? options.result_filter : ['web']), ...(options.include ?? [])];
+  url.searchParams.set('result_filter', [...new Set(sections)].join(','));
+  return url;
+}
+
+export async function fetchWebSearch(query: string, count: number, offset: number, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveWeb> {
+  return callBraveApi<BraveWeb>(buildWebSearchUrl(query, count, offset, options), request);
+}
+
+const DEEP_SEARCH_PAGE_SIZE = 20; // Brave's maximum count
+const DEEP_SEARCH_MAX_PAGES = 10; // Brave's maximum offset is 9
+
+/**
+ * Gathers up to `total` web results by requesting consecutive pages, one after another so each
+ * page waits its turn at the rate limiter. Stops early once Brave has no more results.
+ */
+export async function fetchDeepWebSearch(query: string, total: number, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveDeepSearchResponse> {
+  const wanted = Math.max(1, Math.min(total, DEEP_SEARCH_PAGE_SIZE * DEEP_SEARCH_MAX_PAGES));
+  const seen = new Set<string>();
+  const results: BraveWebResult[] = [];
+  let firstPage: BraveWeb | undefined;
+  let duplicates = 0;
+  let moreResultsAvailable = true;
+  let pages = 0;
+
+  while (results.length < wanted && moreResultsAvailable && pages < DEEP_SEARCH_MAX_PAGES) {
+    const data = await fetchWebSearch(query, DEEP_SEARCH_PAGE_SIZE, pages, options, request);
+    pages++;
+    firstPage ??= data;
+
+    const pageResults = data.web?.results || [];
+    for (const result of pageResults) {
+      // Results without a URL have nothing to compare by, so they are all kept
+      const key = result.url ? canonicalizeUrl(result.url) : undefined;
+      if (key !== undefined && seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      if (key !== undefined) {
+        seen.add(key);
+      }
+      if (results.length < wanted) {
+        results.push(result);
+      }
+    }
+    // Brave only sets the flag when it knows; a short page means the end as well
+    moreResultsAvailable = data.query?.more_results_available ?? pageResults.length >= DEEP_SEARCH_PAGE_SIZE;
+  }
 
-  return callBraveApi<BraveWeb>(url);
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Deep search for "${query}" fetched ${pages} page(s), kept ${results.length} results, dropped ${duplicates} duplicates`);
+  }
+  return {
+    query: firstPage?.query,
+    results,
+    pages,
+    duplicates,
+    more_results_available: moreResultsAvailable && pages < DEEP_SEARCH_MAX_PAGES,
+  };
+}
+
+/** Runs a web search with summary=1 and returns the key for fetchSummary along with the results. */
+export async function fetchSummarizerKey(query: string, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveSummarizerSearch> {
+  const url = buildWebSearchUrl(query, 20, 0, { ...options, result_filter: ['web', 'summarizer'] });
+  url.searchParams.set('summary', '1');
+
+  const web = await callBraveApi<BraveWeb>(url, request);
+  return { key: web.summarizer?.key, web };
+}
+
+/**
+ * Redeems a summarizer key. Brave may answer before the summary is finished, in which case
+ * the endpoint is polled until the status is 'complete' or 'failed'.
+ */
+export async function fetchSummary(key: string, poll: BraveSummaryPollOptions = {}, request: BraveRequestOptions = {}): Promise<BraveSummaryResponse> {
+  const url = new URL('https://api.search.brave.com/res/v1/summarizer/search');
+  url.searchParams.set('key', key);
+  url.searchParams.set('inline_references', 'true');
+  url.searchParams.set('entity_info', '1');
+
+  const maxPolls = Math.max(1, poll.maxPolls ?? 10);
+  const sleep = poll.sleep ?? defaultSleep;
+  for (let attempt = 1; ; attempt++) {
+    // Unfinished summaries end up in the cache too, so every poll after the first bypasses it
+    const data = await callBraveApi<BraveSummaryResponse>(url, attempt === 1 ? request : { ...request, noCache: true });
+    if (data.status === 'complete' || data.status === 'failed') {
+      return data;
+    }
+    if (attempt >= maxPolls) {
+      throw new BraveApiError(`Summary was not ready after ${maxPolls} attempts`);
+    }
+    if (LOG_LEVEL === 'debug') {
+      console.debug(`Summary not ready (status ${data.status ?? 'unknown'}), polling again: ${url.toString()}`);
+    }
+    await sleep(poll.intervalMs ?? 1000);
+  }
+}
+
+/**
+ * Builds Brave's X-Loc-* headers. A state of up to three characters is taken as a region code,
+ * anything longer as the region's name.
+ */
+export function buildLocationHeaders(location: BraveSearchLocation = {}): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (location.latitude !== undefined && location.longitude !== undefined) {
+    headers['X-Loc-Lat'] = String(location.latitude);
+    headers['X-Loc-Long'] = String(location.longitude);
+  }
+  const state = location.state?.trim();
+  const values: Record<string, string | undefined> = {
+    'X-Loc-City': location.city?.trim(),
+    [state && state.length > 3 ? 'X-Loc-State-Name' : 'X-Loc-State']: state,
+    'X-Loc-Country': location.country?.trim().toUpperCase(),
+    'X-Loc-Postal-Code': location.postal_code?.trim(),
+    'X-Loc-Timezone': location.timezone?.trim(),
+  };
+  Object.entries(values).forEach(([name, value]) => {
+    if (value) {
+      headers[name] = value;
+    }
+  });
+  return headers;
 }
 
-export async function fetchInitialLocalSearch(query: string, count: number): Promise<BraveWeb> {
+export async function fetchInitialLocalSearch(query: string, count: number, options: BraveLocalSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveWeb> {
   const url = new URL('https://api.search.brave.com/res/v1/web/search');
   url.searchParams.set('q', query);
-  url.searchParams.set('search_lang', 'en'); // Consider making configurable?
+  url.searchParams.set('search_lang', options.search_lang || LOCAL_SEARCH_LANG);
+  const country = options.country || LOCAL_COUNTRY;
+  if (country) {
+    url.searchParams.set('country', country);
+  }
   url.searchParams.set('result_filter', 'locations'); // Filter for location results
   url.searchParams.set('count', Math.min(count, 20).toString());
 
-  return callBraveApi<BraveWeb>(url);
+  return callBraveApi<BraveWeb>(url, request, buildLocationHeaders(options.location));
+}
+
+/**
+ * The web search local search falls back to when Brave has no places for the query. It keeps the
+ * language, country and location of the local search so the results stay about the same area.
+ */
+export async function fetchLocalFallbackSearch(query: string, count: number, options: BraveLocalSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveWeb> {
+  const url = buildWebSearchUrl(query, count, 0, {
+    search_lang: options.search_lang || LOCAL_SEARCH_LANG,
+    country: options.country || LOCAL_COUNTRY,
+  });
+  return callBraveApi<BraveWeb>(url, request, buildLocationHeaders(options.location));
+}
+
+const POI_IDS_PER_REQUEST = 20; // Brave's maximum ids per local/pois or local/descriptions call
+
+/**
+ * Requests ids in chunks Brave accepts. The chunks are started together and released one by one
+ * by the rate limiter. Ids of failed chunks are returned instead of failing the whole call, unless
+ * every chunk failed.
+ */
+async function fetchPoiChunks<T>(endpoint: string, ids: string[], request: BraveRequestOptions): Promise<{ responses: T[]; failed_ids: string[] }> {
+  const chunks: string[][] = [];
+  for (let start = 0; start < ids.length; start += POI_IDS_PER_REQUEST) {
+    chunks.push(ids.slice(start, start + POI_IDS_PER_REQUEST));
+  }
+  const settled = await Promise.allSettled(chunks.map(chunk => {
+    const url = new URL(`https://api.search.brave.com/res/v1/${endpoint}`);
+    chunk.forEach(id => url.searchParams.append('ids', id));
+    return callBraveApi<T>(url, request);
+  }));
+  if (settled.every(result => result.status === 'rejected')) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  settled.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error fetching ${endpoint} for ${chunks[index].length} ids:`, result.reason);
+    }
+  });
+  return {
+    responses: settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []),
+    failed_ids: settled.flatMap((result, index) => result.status === 'rejected' ? chunks[index] : []),
+  };
+}
+
+// Drops empty and repeated ids, keeping the first position of each
+function uniquePoiIds(ids: string[]): string[] {
+  return [...new Set(ids.filter(Boolean))];
 }
 
-export async function fetchPoiDetails(ids: string[]): Promise<BravePoiResponse> {
-  if (ids.length === 0) return { results: [] };
-  const url = new URL('https://api.search.brave.com/res/v1/local/pois');
-  ids.filter(Boolean).forEach(id => url.searchParams.append('ids', id));
+/** Fetches POI details, in the order of `ids` whatever order Brave answers in. */
+export async function fetchPoiDetails(ids: string[], request: BraveRequestOptions = {}): Promise<BravePoiResponse> {
+  const wanted = uniquePoiIds(ids);
+  if (wanted.length === 0) return { results: [] };
+  const { responses, failed_ids } = await fetchPoiChunks<BravePoiResponse>('local/pois', wanted, request);
 
-  return callBraveApi<BravePoiResponse>(url);
+  const rank = new Map(wanted.map((id, index) => [id, index]));
+  const results = responses
+    .flatMap(response => response.results || [])
+    .sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+  return { results, ...(failed_ids.length > 0 ? { failed_ids } : {}) };
 }
 
-export async function fetchPoiDescriptions(ids: string[]): Promise<BraveDescription> {
-   if (ids.length === 0) return { descriptions: {} };
-   const url = new URL('https://api.search.brave.com/res/v1/local/descriptions');
-   ids.filter(Boolean).forEach(id => url.searchParams.append('ids', id));
-   
-   return callBraveApi<BraveDescription>(url);
+/** Fetches POI descriptions, keyed in the order of `ids`. */
+export async function fetchPoiDescriptions(ids: string[], request: BraveRequestOptions = {}): Promise<BraveDescription> {
+  const wanted = uniquePoiIds(ids);
+  if (wanted.length === 0) return { descriptions: {} };
+  const { responses, failed_ids } = await fetchPoiChunks<BraveDescription>('local/descriptions', wanted, request);
+
+  const merged = Object.assign({}, ...responses.map(response => response.descriptions || {})) as Record<string, string>;
+  const descriptions = Object.fromEntries(wanted.filter(id => id in merged).map(id => [id, merged[id]]));
+  return { descriptions, ...(failed_ids.length > 0 ? { failed_ids } : {}) };
 }
 
 // --- Additional API Endpoints for Extended Queries ---
 
-export async function fetchImageSearch(query: string, count: number, offset: number): Promise<any> {
-  const url = new URL('https://api.search.brave.com/res/v1/images/search');
+export async function fetchSuggestions(query: string, count: number, options: BraveSuggestOptions = {}, request: BraveRequestOptions = {}): Promise<BraveSuggestResponse> {
+  const url = new URL('https://api.search.brave.com/res/v1/suggest/search');
   url.searchParams.set('q', query);
   if (typeof count === 'number' && !isNaN(count)) {
-      url.searchParams.set('count', Math.min(count, 20).toString());
+      url.searchParams.set('count', Math.max(1, Math.min(count, 20)).toString()); // API limit
   }
-  if (typeof offset === 'number' && !isNaN(offset)) {
-      url.searchParams.set('offset', Math.max(0, Math.min(offset, 9)).toString());
+  if (options.country) {
+    url.searchParams.set('country', options.country);
+  }
+  url.searchParams.set('rich', String(options.rich ?? true));
+  return callBraveApi<BraveSuggestResponse>(url, request);
+}
+
+export async function fetchSpellcheck(query: string, country?: string, request: BraveRequestOptions = {}): Promise<BraveSpellcheckResponse> {
+  const url = new URL('https://api.search.brave.com/res/v1/spellcheck/search');
+  url.searchParams.set('q', query);
+  if (country) {
+    url.searchParams.set('country', country);
   }
-  return callBraveApi<any>(url);
+  return callBraveApi<BraveSpellcheckResponse>(url, request);
 }
 
-export async function fetchVideoSearch(query: string, count: number, offset: number): Promise<any> {
+export async function fetchImageSearch(query: string, count: number, safesearch: BraveImageSafesearch = 'strict', request: BraveRequestOptions = {}): Promise<BraveImageResponse> {
+  const url = new URL('https://api.search.brave.com/res/v1/images/search');
+  url.searchParams.set('q', query);
+  if (typeof count === 'number' && !isNaN(count)) {
+      url.searchParams.set('count', Math.max(1, Math.min(count, 100)).toString()); // API limit
+  }
+  // The image endpoint has no offset parameter, only 'off' and 'strict' safesearch levels
+  url.searchParams.set('safesearch', safesearch);
+  return callBraveApi<BraveImageResponse>(url, request);
+}
+
+export async function fetchVideoSearch(query: string, count: number, offset: number, request: BraveRequestOptions = {}): Promise<BraveVideoResponse> {
   const url = new URL('https://api.search.brave.com/res/v1/videos/search');
   url.searchParams.set('q', query);
   if (typeof count === 'number' && !isNaN(count)) {
@@ -233,17 +1083,26 @@ export async function fetchVideoSearch(query: string, count: number, offset: num
   if (typeof offset === 'number' && !isNaN(offset)) {
       url.searchParams.set('offset', Math.max(0, Math.min(offset, 9)).toString());
   }
-  return callBraveApi<any>(url);
+  return callBraveApi<BraveVideoResponse>(url, request);
 }
 
-export async function fetchNewsSearch(query: string, count: number, offset: number): Promise<any> {
+export async function fetchNewsSearch(query: string, count: number, offset: number, options: BraveNewsSearchOptions = {}, request: BraveRequestOptions = {}): Promise<BraveNewsResponse> {
   const url = new URL('https://api.search.brave.com/res/v1/news/search');
   url.searchParams.set('q', query);
   if (typeof count === 'number' && !isNaN(count)) {
-      url.searchParams.set('count', Math.min(count, 20).toString());
+      url.searchParams.set('count', Math.min(count, 50).toString()); // API limit
   }
   if (typeof offset === 'number' && !isNaN(offset)) {
       url.searchParams.set('offset', Math.max(0, Math.min(offset, 9)).toString());
   }
-  return callBraveApi<any>(url);
+  if (options.freshness) {
+    url.searchParams.set('freshness', options.freshness);
+  }
+  if (options.country) {
+    url.searchParams.set('country', options.country);
+  }
+  if (options.search_lang) {
+    url.searchParams.set('search_lang', options.search_lang);
+  }
+  return callBraveApi<BraveNewsResponse>(url, request);
 }
\ No newline at end of file
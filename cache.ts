@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// --- Response Cache ---
+
+export interface ResponseCacheOptions {
+  maxEntries: number; // Least recently used entries are evicted beyond this size, 0 disables caching
+  defaultTtlMs: number; // TTL for endpoints without an entry in ttlMs
+  ttlMs?: Record<string, number>; // Per-endpoint TTLs, keyed like "news/search"
+  filePath?: string; // JSON file the cache is persisted to, undefined keeps it in memory only
+  writeDelayMs?: number; // Changes within this window are written to filePath together, defaults to 1000
+  now?: () => number; // Clock, injectable for tests
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface StoredCache {
+  version: 1;
+  entries: Array<[string, CacheEntry]>; // Least recently used first
+}
+
+const DEFAULT_WRITE_DELAY_MS = 1000;
+
+// Caches with changes not yet written, flushed when the process exits
+const unsavedCaches = new Set<ResponseCache>();
+let exitHandlerInstalled = false;
+
+function flushOnExit(cache: ResponseCache): void {
+  unsavedCaches.add(cache);
+  if (!exitHandlerInstalled) {
+    process.on('exit', () => unsavedCaches.forEach(unsaved => unsaved.flush()));
+    exitHandlerInstalled = true;
+  }
+}
+
+const byName = ([a]: [string, string], [b]: [string, string]) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Builds a cache key from a request URL. Parameters are sorted by name so that
+ * the same request built in a different order hits the same entry; repeated
+ * parameters such as `ids` keep their relative order. Request headers that
+ * change the response, such as location headers, are part of the key too.
+ */
+export function normalizeCacheKey(url: URL, headers: Record<string, string> = {}): string {
+  const params = [...url.searchParams.entries()].sort(byName);
+  const normalized = new URL(`${url.protocol}//${url.host.toLowerCase()}${url.pathname}`);
+  params.forEach(([key, value]) => normalized.searchParams.append(key, value));
+  const headerLines = Object.entries(headers)
+    .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+    .sort(byName)
+    .map(([name, value]) => `\n${name}: ${value}`);
+  return normalized.toString() + headerLines.join('');
+}
+
+export class ResponseCache {
+  private readonly now: () => number;
+  private entries?: Map<string, CacheEntry>;
+  private warnedAboutFile = false;
+  private writeTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: ResponseCacheOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  get enabled(): boolean {
+    return this.options.maxEntries > 0;
+  }
+
+  get size(): number {
+    return this.store().size;
+  }
+
+  get<T>(key: string): T | undefined {
+    if (!this.enabled) return undefined;
+    const entries = this.store();
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= this.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    // Move to the most recently used position
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set(key: string, endpoint: string, value: unknown): void {
+    if (!this.enabled) return;
+    const ttl = this.options.ttlMs?.[endpoint] ?? this.options.defaultTtlMs;
+    if (ttl <= 0) return;
+
+    const entries = this.store();
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: this.now() + ttl });
+    while (entries.size > this.options.maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+    this.scheduleSave();
+  }
+
+  clear(): void {
+    this.store().clear();
+    this.scheduleSave();
+  }
+
+  /** Writes pending changes to the cache file now instead of waiting for the write delay. */
+  flush(): void {
+    if (!this.writeTimer) return;
+    clearTimeout(this.writeTimer);
+    this.writeTimer = undefined;
+    unsavedCaches.delete(this);
+    this.save();
+  }
+
+  // Loads persisted entries on first use, dropping any that expired while the server was down
+  private store(): Map<string, CacheEntry> {
+    if (this.entries) return this.entries;
+    this.entries = new Map();
+    if (!this.options.filePath || !fs.existsSync(this.options.filePath)) {
+      return this.entries;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.options.filePath, 'utf8')) as StoredCache;
+      const now = this.now();
+      (stored.entries || [])
+        .filter(([, entry]) => entry.expiresAt > now)
+        .slice(-this.options.maxEntries)
+        .forEach(([key, entry]) => this.entries!.set(key, entry));
+    } catch (error) {
+      console.error(`Could not read cache file ${this.options.filePath}, starting empty:`, error);
+    }
+    return this.entries;
+  }
+
+  // Serializing the whole cache on every response would block the event loop, so changes are
+  // collected for a moment and written together. The timer doesn't keep the process alive.
+  private scheduleSave(): void {
+    if (!this.options.filePath || this.writeTimer) return;
+    this.writeTimer = setTimeout(() => this.flush(), this.options.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS);
+    this.writeTimer.unref();
+    flushOnExit(this);
+  }
+
+  // Written to a temporary file first so a crash mid-write can't leave a truncated cache behind
+  private save(): void {
+    if (!this.options.filePath || !this.entries) return;
+    const tempPath = `${this.options.filePath}.${process.pid}.tmp`;
+    try {
+      const stored: StoredCache = { version: 1, entries: [...this.entries.entries()] };
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(stored));
+      fs.renameSync(tempPath, this.options.filePath);
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      // A cache that cannot be persisted still works in memory, so only complain once
+      if (!this.warnedAboutFile) {
+        console.error(`Could not write cache file ${this.options.filePath}:`, error);
+        this.warnedAboutFile = true;
+      }
+    }
+  }
+}
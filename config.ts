@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import os from 'node:os';
+import path from 'node:path';
 
 // Load environment variables from .env file in development
 if (process.env.NODE_ENV !== 'production') {
@@ -7,12 +9,142 @@ if (process.env.NODE_ENV !== 'production') {
 
 export const BRAVE_API_KEY = process.env.BRAVE_API_KEY;
 
-if (!BRAVE_API_KEY) {
-  console.error("FATAL ERROR: BRAVE_API_KEY environment variable is not set.");
+// Additional keys for rotation: a comma-separated list and/or a file with one key per line
+export const BRAVE_API_KEYS = [
+  ...(BRAVE_API_KEY ? [BRAVE_API_KEY.trim()] : []),
+  ...(process.env.BRAVE_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+];
+export const BRAVE_API_KEY_FILE = process.env.BRAVE_API_KEY_FILE || undefined;
+
+if (BRAVE_API_KEYS.length === 0 && !BRAVE_API_KEY_FILE) {
+  console.error("FATAL ERROR: BRAVE_API_KEY environment variable is not set (or use BRAVE_API_KEYS / BRAVE_API_KEY_FILE).");
   process.exit(1); // Exit if the key is missing
 }
 
 // Basic logging configuration (can be expanded)
 export const LOG_LEVEL = process.env.LOG_LEVEL || 'info'; // e.g., 'debug', 'info', 'warn', 'error'
 
+// Reads a non-negative number from the environment, falling back to the default when unset or invalid
+function readNumberEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    console.error(`Ignoring invalid ${name}="${raw}", using default ${defaultValue}.`);
+    return defaultValue;
+  }
+  return value;
+}
+
+// Rate limiting - defaults match Brave's free plan. Raise these to match a paid plan.
+export const RATE_LIMIT_PER_SECOND = readNumberEnv('BRAVE_RATE_LIMIT_PER_SECOND', 1) || 1;
+export const RATE_LIMIT_PER_ENDPOINT_PER_SECOND = readNumberEnv('BRAVE_RATE_LIMIT_PER_ENDPOINT_PER_SECOND', RATE_LIMIT_PER_SECOND) || RATE_LIMIT_PER_SECOND;
+export const RATE_LIMIT_PER_MONTH = readNumberEnv('BRAVE_RATE_LIMIT_PER_MONTH', 0); // 0 = no monthly limit
+export const RATE_LIMIT_MAX_WAIT_MS = readNumberEnv('BRAVE_RATE_LIMIT_MAX_WAIT_MS', 30000);
+
+// Retries for 429, 5xx and network failures
+export const RETRY_MAX_ATTEMPTS = Math.max(1, Math.floor(readNumberEnv('BRAVE_RETRY_MAX_ATTEMPTS', 3)));
+export const RETRY_BASE_DELAY_MS = readNumberEnv('BRAVE_RETRY_BASE_DELAY_MS', 500);
+export const RETRY_MAX_DELAY_MS = readNumberEnv('BRAVE_RETRY_MAX_DELAY_MS', 8000);
+export const RETRY_BUDGET_MS = readNumberEnv('BRAVE_RETRY_BUDGET_MS', 15000);
+
+// Key rotation - "round-robin" (default) or "least-used"; keys rejected with 401/402 are skipped for the cooldown
+export const KEY_ROTATION = process.env.BRAVE_KEY_ROTATION === 'least-used' ? 'least-used' : 'round-robin';
+export const KEY_COOLDOWN_MS = readNumberEnv('BRAVE_KEY_COOLDOWN_SECONDS', 300) * 1000;
+
+// Monthly quota tracking - set BRAVE_QUOTA_FILE to an empty string to keep usage in memory only
+export const QUOTA_FILE = process.env.BRAVE_QUOTA_FILE ?? path.join(os.homedir(), '.brave-search-mcp', 'quota.json');
+export const QUOTA_SOFT_CAP = readNumberEnv('BRAVE_QUOTA_SOFT_CAP', 0); // 0 = no soft cap
+
+// Response caching - BRAVE_CACHE_MAX_ENTRIES=0 disables the cache, BRAVE_CACHE_FILE enables persistence
+export const CACHE_MAX_ENTRIES = Math.floor(readNumberEnv('BRAVE_CACHE_MAX_ENTRIES', 500));
+export const CACHE_FILE = process.env.BRAVE_CACHE_FILE || undefined;
+export const CACHE_DEFAULT_TTL_MS = readNumberEnv('BRAVE_CACHE_DEFAULT_TTL_SECONDS', 3600) * 1000;
+
+// Default TTLs per endpoint: news goes stale quickly, POI descriptions hardly ever change
+const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = {
+  'web/search': 3600,
+  'news/search': 300,
+  'images/search': 21600,
+  'videos/search': 21600,
+  'local/pois': 86400,
+  'local/descriptions': 604800,
+  'summarizer/search': 3600,
+  'suggest/search': 86400,
+  'spellcheck/search': 604800,
+};
+
+// Overrides are given as "news/search=60,local/pois=3600" (seconds)
+function readCacheTtls(): Record<string, number> {
+  const ttls = { ...DEFAULT_CACHE_TTL_SECONDS };
+  (process.env.BRAVE_CACHE_TTLS || '').split(',').filter(Boolean).forEach(pair => {
+    const [endpoint, seconds] = pair.split('=').map(part => part.trim());
+    const value = Number(seconds);
+    if (!endpoint || seconds === undefined || isNaN(value) || value < 0) {
+      console.error(`Ignoring invalid BRAVE_CACHE_TTLS entry "${pair}".`);
+      return;
+    }
+    ttls[endpoint] = value;
+  });
+  return Object.fromEntries(Object.entries(ttls).map(([endpoint, seconds]) => [endpoint, seconds * 1000]));
+}
+
+export const CACHE_TTL_MS = readCacheTtls();
+
+// Local search defaults, for when brave_local_search is called without search_lang or country
+export const LOCAL_SEARCH_LANG = process.env.BRAVE_LOCAL_SEARCH_LANG?.trim() || 'en';
+export const LOCAL_COUNTRY = process.env.BRAVE_LOCAL_COUNTRY?.trim().toUpperCase() || undefined;
+
+// Recent searches and POIs kept for the brave://search/{id} and brave://poi/{id} resources; 0 disables them
+export const SEARCH_HISTORY_SIZE = Math.floor(readNumberEnv('BRAVE_SEARCH_HISTORY_SIZE', 50));
+export const POI_HISTORY_SIZE = Math.floor(readNumberEnv('BRAVE_POI_HISTORY_SIZE', 500));
+
+// Page fetching for brave_fetch_page - domain lists are comma-separated and include subdomains; denied wins
+function readDomainList(name: string): string[] {
+  return (process.env[name] || '').split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean);
+}
+
+export const FETCH_ALLOWED_DOMAINS = readDomainList('BRAVE_FETCH_ALLOWED_DOMAINS'); // Empty = any domain
+export const FETCH_DENIED_DOMAINS = readDomainList('BRAVE_FETCH_DENIED_DOMAINS');
+export const FETCH_MAX_BYTES = Math.floor(readNumberEnv('BRAVE_FETCH_MAX_BYTES', 2 * 1024 * 1024)) || 2 * 1024 * 1024;
+export const FETCH_TIMEOUT_MS = readNumberEnv('BRAVE_FETCH_TIMEOUT_MS', 15000) || 15000;
+export const FETCH_ALLOW_PRIVATE_NETWORKS = process.env.BRAVE_FETCH_ALLOW_PRIVATE_NETWORKS === 'true';
+export const FETCH_USER_AGENT = process.env.BRAVE_FETCH_USER_AGENT || 'BraveSearchMCP/1.0';
+
+// Reads "--name value" or "--name=value" from the command line
+function readCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+// Transport - "stdio" (default) or "http", which serves Streamable HTTP on /mcp and legacy SSE on /sse.
+// Command line flags take precedence over environment variables.
+export type TransportMode = 'stdio' | 'http';
+
+function readTransportMode(): TransportMode {
+  const raw = (readCliOption('transport') ?? process.env.BRAVE_MCP_TRANSPORT ?? 'stdio').trim().toLowerCase();
+  if (raw === 'stdio' || raw === 'http') {
+    return raw;
+  }
+  console.error(`Ignoring unknown transport "${raw}", using stdio. Use "stdio" or "http".`);
+  return 'stdio';
+}
+
+export const TRANSPORT = readTransportMode();
+export const HTTP_HOST = readCliOption('host') ?? process.env.BRAVE_HTTP_HOST ?? '127.0.0.1';
+export const HTTP_PORT = Math.floor(Number(readCliOption('port') ?? NaN)) || Math.floor(readNumberEnv('BRAVE_HTTP_PORT', 8080));
+export const HTTP_AUTH_TOKEN = process.env.BRAVE_HTTP_AUTH_TOKEN || undefined; // Not read from the command line, where it would show up in ps
+// Origins allowed to call the server from a browser, "*" for any; empty disables CORS headers
+export const HTTP_CORS_ORIGINS = (process.env.BRAVE_HTTP_CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
 console.log(`Configuration loaded. Log level: ${LOG_LEVEL}`); // Log successful load
\ No newline at end of file
@@ -0,0 +1,344 @@
+// --- HTML Parsing ---
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string; // Lower case; the root of a parsed document is '#document'
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string; // Entities already decoded
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose content is text up to the matching end tag, never markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template', 'xmp']);
+
+// Start tags that close an open element of these kinds, as browsers do for unclosed <p> and <li>
+const BLOCK_TAGS = [
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+];
+const IMPLICITLY_CLOSED_BY: Record<string, string[]> = {
+  p: BLOCK_TAGS,
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th', 'tr'],
+  th: ['td', 'th', 'tr'],
+  option: ['option'],
+};
+
+// Elements nested deeper than this are dropped and their content kept, so that walking the tree
+// recursively can't overflow the stack on hostile pages
+const MAX_NESTING_DEPTH = 256;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '', copy: '©', reg: '®', trade: '™',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  bull: '•', middot: '·', deg: '°', times: '×', divide: '÷', euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§',
+  para: '¶', zwj: '‍', zwnj: '‌', thinsp: ' ', ensp: ' ', emsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+// Index of the '>' ending a tag that starts at `start`, skipping '>' inside quoted attribute values
+function findTagEnd(html: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses HTML into a tree, forgiving the way browsers are: unclosed elements are closed by
+ * their parent's end tag, stray end tags are ignored and <p>/<li> close implicitly.
+ * Comments, doctypes and processing instructions are dropped, as are elements nested
+ * more than MAX_NESTING_DEPTH deep.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#document', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const dropped: string[] = []; // Tags opened beyond the nesting limit, so their end tags can be matched
+  const appendText = (text: string) => {
+    if (!text) return;
+    const children = current().children;
+    const last = children[children.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      children.push({ type: 'text', text });
+    }
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    const open = html.indexOf('<', i);
+    if (open === -1) {
+      appendText(decodeEntities(html.slice(i)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(i, open)));
+
+    if (html.startsWith('<!--', open)) {
+      const end = html.indexOf('-->', open + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[open + 1] === '!' || html[open + 1] === '?') {
+      const end = html.indexOf('>', open);
+      i = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const endTag = /^<\/([a-zA-Z][\w:-]*)[^>]*>/.exec(html.slice(open, open + 256));
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      const droppedIndex = dropped.lastIndexOf(tag);
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (droppedIndex !== -1) {
+        dropped.length = droppedIndex;
+      } else if (index > 0) {
+        stack.length = index;
+        dropped.length = 0;
+      }
+      i = open + endTag[0].length;
+      continue;
+    }
+
+    const startTag = /^<([a-zA-Z][\w:-]*)/.exec(html.slice(open, open + 256));
+    const tagEnd = startTag ? findTagEnd(html, open + startTag[0].length) : -1;
+    if (!startTag || tagEnd === -1) {
+      appendText('<'); // A lone '<' in text
+      i = open + 1;
+      continue;
+    }
+
+    const tag = startTag[1].toLowerCase();
+    const attrs = parseAttributes(html.slice(open + startTag[0].length, tagEnd).replace(/\/$/, ''));
+    i = tagEnd + 1;
+
+    const closedBy = (openTag: string) => IMPLICITLY_CLOSED_BY[openTag]?.includes(tag);
+    while (stack.length > 1 && closedBy(current().tag)) {
+      stack.pop();
+      dropped.length = 0;
+    }
+
+    const opensElement = !RAW_TEXT_TAGS.has(tag) && !VOID_TAGS.has(tag) && html[tagEnd - 1] !== '/';
+    if (opensElement && stack.length > MAX_NESTING_DEPTH) {
+      dropped.push(tag);
+      continue;
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs, children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Searched case-insensitively from here on; lowercasing the whole document per element is quadratic
+      const closePattern = new RegExp(`</${tag}`, 'gi');
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(html)?.index ?? -1;
+      const text = html.slice(i, close === -1 ? html.length : close);
+      if (text) {
+        element.children.push({ type: 'text', text: tag === 'title' || tag === 'textarea' ? decodeEntities(text) : text });
+      }
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close);
+      i = closeEnd === -1 ? html.length : closeEnd + 1;
+    } else if (opensElement) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+// --- Tree Helpers ---
+
+export function findAll(node: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    element.children.forEach(child => {
+      if (child.type === 'element') {
+        if (predicate(child)) found.push(child);
+        visit(child);
+      }
+    });
+  };
+  visit(node);
+  return found;
+}
+
+export function findFirst(node: HtmlElement, tag: string): HtmlElement | undefined {
+  return findAll(node, element => element.tag === tag)[0];
+}
+
+export function textContent(node: HtmlNode): string {
+  return node.type === 'text' ? node.text : node.children.map(textContent).join('');
+}
+
+// --- Markdown Conversion ---
+
+const HEADING_LEVELS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+// Rendered as paragraphs of their own
+const PARAGRAPH_TAGS = new Set([...BLOCK_TAGS, 'body', 'center', 'dd', 'dt', 'html', 'caption', 'summary']);
+
+// Never rendered, wherever they turn up
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'button', 'input', 'select', 'textarea', 'title']);
+
+function resolveUrl(href: string, baseUrl?: string): string | undefined {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// Stands in for list indentation until the end, so cleaning up stray spaces from text can't remove it
+const INDENT = '\u0000';
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '';
+}
+
+// Collapses the blank lines blocks leave behind, without touching fenced code
+function tidyMarkdown(markdown: string): string {
+  return markdown
+    .split(/(\n```[\s\S]*?\n```\n)/)
+    .map((part, index) => (index % 2 === 1
+      ? part
+      : part.replace(/ {2,}/g, ' ').replace(/[ \t]+\n/g, '\n').replace(/\n[ \t]+/g, '\n').replace(/\n{3,}/g, '\n\n')))
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+class MarkdownRenderer {
+  constructor(private readonly baseUrl?: string) {}
+
+  render(node: HtmlNode, pre = false): string {
+    if (node.type === 'text') {
+      return pre ? node.text : node.text.replace(/\s+/g, ' ');
+    }
+    if (SKIPPED_TAGS.has(node.tag)) {
+      return '';
+    }
+    const children = () => node.children.map(child => this.render(child, pre)).join('');
+    const inline = () => children().replace(/\s+/g, ' ').trim();
+
+    const level = HEADING_LEVELS[node.tag];
+    if (level) {
+      const text = inline();
+      return text ? block(`${'#'.repeat(level)} ${text}`) : '';
+    }
+
+    switch (node.tag) {
+      case 'br':
+        return '\n';
+      case 'hr':
+        return block('---');
+      case 'a': {
+        const text = inline();
+        const href = node.attrs.href?.trim();
+        const url = href && !href.startsWith('#') && !/^javascript:/i.test(href) ? resolveUrl(href, this.baseUrl) : undefined;
+        return url && text ? `[${text}](${url})` : children();
+      }
+      case 'img': {
+        const src = node.attrs.src ? resolveUrl(node.attrs.src, this.baseUrl) : undefined;
+        return src && !src.startsWith('data:') ? `![${(node.attrs.alt || '').trim()}](${src})` : '';
+      }
+      case 'strong':
+      case 'b':
+        return this.wrap(children(), '**');
+      case 'em':
+      case 'i':
+        return this.wrap(children(), '*');
+      case 'code':
+        return pre ? children() : this.wrap(children(), '`');
+      case 'pre':
+        return block(`\`\`\`\n${node.children.map(child => this.render(child, true)).join('').replace(/^\n|\n+$/g, '')}\n\`\`\``);
+      case 'blockquote':
+        return block(tidyMarkdown(children()).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+      case 'ul':
+      case 'ol':
+        return block(this.list(node));
+      case 'table':
+        return block(this.table(node));
+      default:
+        return PARAGRAPH_TAGS.has(node.tag) ? block(children()) : children();
+    }
+  }
+
+  private wrap(text: string, marker: string): string {
+    const trimmed = text.trim();
+    if (!trimmed) return text;
+    // Keep the surrounding spaces outside the markers, or the emphasis won't render
+    const leading = text.startsWith(' ') ? ' ' : '';
+    const trailing = text.endsWith(' ') ? ' ' : '';
+    return `${leading}${marker}${trimmed}${marker}${trailing}`;
+  }
+
+  private list(node: HtmlElement): string {
+    const items = node.children.filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li');
+    const start = Number(node.attrs.start) || 1;
+    return items.map((item, index) => {
+      const marker = node.tag === 'ol' ? `${start + index}. ` : '- ';
+      const lines = tidyMarkdown(item.children.map(child => this.render(child)).join('')).replace(/\n\n+/g, '\n').split('\n');
+      return marker + lines.map((line, lineIndex) => (lineIndex === 0 ? line : `${INDENT.repeat(marker.length)}${line}`)).join('\n');
+    }).join('\n');
+  }
+
+  private table(node: HtmlElement): string {
+    const rows = findAll(node, element => element.tag === 'tr')
+      .map(row => row.children
+        .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+        .map(cell => tidyMarkdown(this.render(cell)).replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|')))
+      .filter(cells => cells.length > 0);
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map(cells => cells.length));
+    const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  }
+}
+
+/** Renders an HTML tree as markdown. Relative links and images are resolved against `baseUrl`. */
+export function htmlToMarkdown(node: HtmlNode, baseUrl?: string): string {
+  return tidyMarkdown(new MarkdownRenderer(baseUrl).render(node)).replace(new RegExp(INDENT, 'g'), ' ');
+}
@@ -0,0 +1,233 @@
+import http from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// --- HTTP Transport ---
+
+export interface HttpServerOptions {
+  createMcpServer: () => Server; // Every session gets its own MCP server instance
+  authToken?: string; // Required as "Authorization: Bearer <token>" on every MCP request when set
+  corsOrigins?: string[]; // Origins allowed to call the server from a browser, "*" allows any
+  maxBodyBytes?: number;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/healthz';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Errors on the MCP endpoints are reported as JSON-RPC errors, as the SDK transports do
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+async function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const expected = Buffer.from(token);
+  const given = Buffer.from(match[1].trim());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Adds CORS headers for allowed origins; returns false for cross-origin requests that are not allowed
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not a browser cross-origin request
+  const allowAny = allowedOrigins.includes('*');
+  if (!allowAny && !allowedOrigins.includes(origin)) {
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  res.setHeader('Access-Control-Max-Age', '86400');
+  return true;
+}
+
+/**
+ * Creates an HTTP server that exposes MCP over Streamable HTTP (`/mcp`) and the older
+ * HTTP+SSE transport (`/sse` plus `/messages`), with an unauthenticated `/healthz` probe.
+ * The caller is responsible for calling `listen`.
+ */
+export function createHttpServer(options: HttpServerOptions): http.Server {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const corsOrigins = options.corsOrigins ?? [];
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  async function handleStreamableHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req, maxBodyBytes);
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamableTransports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          streamableTransports.delete(transport.sessionId);
+        }
+      };
+      await options.createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+  }
+
+  async function handleSse(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      sendJsonRpcError(res, 405, 'Method not allowed', { Allow: 'GET' });
+      return;
+    }
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+    });
+    await options.createMcpServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 405, 'Method not allowed', { Allow: 'POST' });
+      return;
+    }
+    const transport = sseTransports.get(url.searchParams.get('sessionId') || '');
+    if (!transport) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    const body = await readJsonBody(req, maxBodyBytes);
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (!applyCors(req, res, corsOrigins)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (url.pathname === HEALTH_PATH) {
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: { streamableHttp: streamableTransports.size, sse: sseTransports.size },
+      });
+      return;
+    }
+
+    const isMcpPath = [MCP_PATH, SSE_PATH, SSE_MESSAGES_PATH].includes(url.pathname);
+    if (!isMcpPath) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH) {
+      await handleSse(req, res);
+    } else {
+      await handleSseMessage(req, res, url);
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (!(error instanceof HttpError)) {
+        console.error('Error handling HTTP request:', error);
+      }
+      if (!res.headersSent) {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJsonRpcError(res, status, error instanceof HttpError ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Sessions do not outlive the HTTP server
+  server.on('close', () => {
+    [...streamableTransports.values(), ...sseTransports.values()].forEach(transport => {
+      transport.close().catch(() => {});
+    });
+    streamableTransports.clear();
+    sseTransports.clear();
+  });
+
+  return server;
+}
@@ -4,31 +4,117 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { LOG_LEVEL } from './config.js'; // Import LOG_LEVEL
+import { LOG_LEVEL, SEARCH_HISTORY_SIZE, POI_HISTORY_SIZE, TRANSPORT, HTTP_HOST, HTTP_PORT, HTTP_AUTH_TOKEN, HTTP_CORS_ORIGINS } from './config.js';
+import { createHttpServer } from './httpServer.js';
+import { reciprocalRankFusion } from './ranking.js';
+import { canonicalizeUrl } from './urls.js';
+import { PageFetchError, takeChunk } from './pageFetcher.js';
+import { SearchStore, StoredSearch } from './searchStore.js';
+import { PlaceFilterOptions, filterAndSortPlaces, formatDistance } from './places.js';
+import { ExportFormat, exportPlaces, missingCoordinatesNotice } from './placeExport.js';
 import {
   fetchWebSearch,
+  fetchDeepWebSearch,
   fetchInitialLocalSearch,
+  fetchLocalFallbackSearch,
   fetchPoiDetails,
   fetchPoiDescriptions,
+  fetchImageSearch,
+  fetchVideoSearch,
+  fetchNewsSearch,
+  fetchSummarizerKey,
+  fetchSummary,
+  fetchSuggestions,
+  fetchSpellcheck,
+  fetchPage,
+  getQuotaStatus,
+  getApiKeyStatus,
   BraveApiError,
-  BraveWeb,
   BravePoiResponse,
-  BraveDescription
+  BraveDescription,
+  BraveImageResponse,
+  BraveVideoResponse,
+  BraveNewsResponse,
+  BraveNewsSearchOptions,
+  BraveSuggestOptions,
+  BraveWebSearchOptions,
+  BraveLocalSearchOptions,
+  BraveRequestOptions
 } from './apiClient.js';
 import {
   ALL_TOOLS,
-  isBraveWebSearchArgs,
-  isBraveLocalSearchArgs,
+  BRAVE_COUNTRIES,
+  validateToolArgs,
   BraveWebSearchArgs,
+  BraveDeepSearchArgs,
+  BraveMultiSearchArgs,
   BraveLocalSearchArgs,
-  isBravePoiDetailsArgs,
-  isBravePoiDescriptionsArgs,
   BravePoiDetailsArgs,
-  BravePoiDescriptionsArgs
+  BravePoiDescriptionsArgs,
+  BraveImageSearchArgs,
+  BraveVideoSearchArgs,
+  BraveNewsSearchArgs,
+  BraveSummarizeArgs,
+  BraveSuggestArgs,
+  BraveSpellcheckArgs,
+  BraveFetchPageArgs
 } from './tools.js';
+import { ToolArgumentError } from './validation.js';
+import { ALL_PROMPTS, getPromptMessages } from './prompts.js';
+import {
+  ToolOutput,
+  WebSearchOutput,
+  WebSection,
+  DeepSearchOutput,
+  MultiSearchOutput,
+  LocalSearchOutput,
+  SummaryOutput,
+  SuggestOutput,
+  SpellcheckOutput,
+  PageOutput,
+  QuotaStatusOutput,
+  renderToolOutput,
+  sortNewsByDate,
+  toWebSearchOutput,
+  toDeepSearchOutput,
+  toMultiSearchOutput,
+  toLocalSearchOutput,
+  toPoiDescriptionsOutput,
+  toImageSearchOutput,
+  toVideoSearchOutput,
+  toNewsSearchOutput,
+  toSummaryOutput,
+  toSuggestOutput,
+  toSpellcheckOutput,
+  toPageOutput,
+  alteredQueryNotice,
+  orderWebSections,
+  WEB_SECTION_TITLES,
+  localResultsNotice,
+  pageContinuationNotice,
+  webSearchMarkdown,
+  deepSearchMarkdown,
+  deepSearchSummary,
+  multiSearchMarkdown,
+  localSearchMarkdown,
+  poiDescriptionsMarkdown,
+  imageSearchMarkdown,
+  videoSearchMarkdown,
+  newsSearchMarkdown,
+  summaryMarkdown,
+  suggestMarkdown,
+  spellcheckMarkdown,
+  pageMarkdown,
+  quotaStatusMarkdown
+} from './output.js';
 
 // Server Info
 const SERVER_INFO = {
@@ -36,76 +122,409 @@ const SERVER_INFO = {
   version: "0.2.0", // Incremented version for refactor
 };
 
-// Server implementation - Export the server instance for testing
-export const server = new Server(
-  SERVER_INFO,
-  {
-    capabilities: {
-      tools: {}, // Tools are dynamically listed
-    },
-  },
-);
+// Shared by every session, like the response cache, so any client can re-read what was searched
+const searchStore = new SearchStore({ maxSearches: SEARCH_HISTORY_SIZE, maxPois: POI_HISTORY_SIZE });
 
 // --- Helper Functions (Refactored Search Logic) ---
 
-function formatWebResults(data: BraveWeb): string {
-  const results = (data.web?.results || []).map(result => ({
-    title: result.title || 'N/A',
-    description: result.description || 'N/A',
-    url: result.url || 'N/A'
-  }));
+// "Label: value" lines, skipping values that are missing
+function textFields(fields: Array<[string, string | number | undefined]>): string {
+  return fields.filter(([, value]) => value !== undefined && value !== '').map(([label, value]) => `${label}: ${value}`).join('\n');
+}
+
+const WEB_SECTION_TEXT: { [S in WebSection]: (output: WebSearchOutput, index: number) => string } = {
+  web: (output, index) => {
+    const result = output.results[index];
+    const extraSnippets = result.extra_snippets || [];
+    const sitelinks = result.sitelinks || [];
+    return `Title: ${result.title || 'N/A'}\nDescription: ${result.description || 'N/A'}\nURL: ${result.url || 'N/A'}` +
+      (extraSnippets.length > 0 ? `\nExtra Snippets:\n${extraSnippets.map(snippet => `- ${snippet}`).join('\n')}` : '') +
+      (sitelinks.length > 0 ? `\nSitelinks:\n${sitelinks.map(sitelink => `- ${sitelink.title}: ${sitelink.url}`).join('\n')}` : '');
+  },
+  infobox: (output, index) => {
+    const infobox = output.infobox![index];
+    return textFields([
+      ['Title', infobox.title || 'N/A'],
+      ['Category', infobox.category],
+      ['Description', infobox.description],
+      ...(infobox.attributes || []).map(({ label, value }): [string, string] => [label, value]),
+      ['Website', infobox.website_url],
+      ['URL', infobox.url],
+    ]);
+  },
+  faq: (output, index) => {
+    const faq = output.faq![index];
+    return textFields([['Question', faq.question], ['Answer', faq.answer], ['Source', faq.title], ['URL', faq.url]]);
+  },
+  discussions: (output, index) => {
+    const discussion = output.discussions![index];
+    return textFields([
+      ['Title', discussion.title || 'N/A'],
+      ['Forum', discussion.forum],
+      ['Answers', discussion.answers],
+      ['Description', discussion.description],
+      ['Top comment', discussion.top_comment],
+      ['URL', discussion.url],
+    ]);
+  },
+  news: (output, index) => {
+    const news = output.news![index];
+    return `${news.breaking ? '[BREAKING] ' : ''}${textFields([
+      ['Title', news.title || 'N/A'],
+      ['Source', news.source],
+      ['Published', news.published ? `${news.published}${news.age ? ` (${news.age})` : ''}` : news.age],
+      ['Description', news.description],
+      ['URL', news.url],
+    ])}`;
+  },
+  videos: (output, index) => {
+    const video = output.videos![index];
+    return textFields([
+      ['Title', video.title || 'N/A'],
+      ['Duration', video.duration],
+      ['Creator', video.creator ?? video.publisher],
+      ['Age', video.age],
+      ['URL', video.url],
+    ]);
+  },
+};
+
+// Sections follow Brave's mixed ranking; headings are added once there is more than web results
+function formatWebResults(output: WebSearchOutput): string {
+  const notice = alteredQueryNotice(output.query);
+  const groups = orderWebSections(output);
+  if (groups.length === 0) {
+    return [notice, "No web results found."].filter(Boolean).join('\n\n');
+  }
+
+  const headed = groups.some(group => group.section !== 'web');
+  return [notice, ...groups.flatMap(({ section, indexes }) => [
+    headed ? `${WEB_SECTION_TITLES[section]}:` : '',
+    ...indexes.map(index => WEB_SECTION_TEXT[section](output, index)),
+  ])].filter(Boolean).join('\n\n');
+}
+
+function formatMultiSearchResults(output: MultiSearchOutput): string {
+  const failures = (output.failed_queries || []).map(({ query, error }) => `Query "${query}" failed: ${error}`);
+  if (output.results.length === 0) {
+    return [...failures, "No web results found."].join('\n');
+  }
+  const results = output.results.map((result, index) =>
+    `Rank: ${index + 1}\nTitle: ${result.title || 'N/A'}\nDescription: ${result.description || 'N/A'}\nURL: ${result.url || 'N/A'}\n` +
+    `Matched queries: ${result.matched_queries.join(' | ')}`
+  );
+  return [failures.join('\n'), ...results].filter(Boolean).join('\n\n');
+}
+
+function formatLocalResults(output: LocalSearchOutput): string {
+  const notice = localResultsNotice(output);
+  if (output.places.length === 0) {
+    return notice ?? "No local results found.";
+  }
+
+  const places = output.places.map(place => `Name: ${place.name || 'N/A'}
+Address: ${place.address || 'N/A'}
+Phone: ${place.phone || 'N/A'}
+Rating: ${place.rating ?? 'N/A'} (${place.rating_count ?? 0} reviews)
+Price Range: ${place.price_range || 'N/A'}
+Hours: ${(place.opening_hours || []).join(', ') || 'N/A'}
+${place.opening_status ? `Status: ${place.opening_status.summary}\n` : ''}${place.distance_km !== undefined ? `Distance: ${formatDistance(place.distance_km)}\n` : ''}Description: ${place.description || 'No description available.'}
+`).join('\n---\n'); // Trailing newline for clarity
+  return notice ? `${places}\n${notice}` : places;
+}
 
+function formatImageResults(data: BraveImageResponse): string {
+  const results = data.results || [];
   if (results.length === 0) {
-    return "No web results found.";
+    return "No image results found.";
   }
 
-  return results.map(r =>
-    `Title: ${r.title}\nDescription: ${r.description}\nURL: ${r.url}`
-  ).join('\n\n');
+  return results.map(result => {
+    const width = result.properties?.width ?? result.thumbnail?.width;
+    const height = result.properties?.height ?? result.thumbnail?.height;
+    const dimensions = width && height ? `${width}x${height}` : 'N/A';
+
+    return `Title: ${result.title || 'N/A'}
+Page URL: ${result.url || 'N/A'}
+Image URL: ${result.properties?.url || 'N/A'}
+Thumbnail: ${result.thumbnail?.src || 'N/A'}
+Dimensions: ${dimensions}
+Source: ${result.source || result.meta_url?.hostname || 'N/A'}`;
+  }).join('\n\n');
 }
 
-function formatLocalResults(poisData: BravePoiResponse, descData: BraveDescription): string {
-  const results = poisData.results || [];
+function formatVideoResults(data: BraveVideoResponse): string {
+  const results = data.results || [];
   if (results.length === 0) {
-    return "No local results found.";
+    return "No video results found.";
+  }
+
+  return results.map(result => {
+    const views = result.video?.views;
+    return `Title: ${result.title || 'N/A'}
+URL: ${result.url || 'N/A'}
+Duration: ${result.video?.duration || 'N/A'}
+Creator: ${result.video?.creator || 'N/A'}
+Publisher: ${result.video?.publisher || result.meta_url?.hostname || 'N/A'}
+Views: ${typeof views === 'number' ? views.toLocaleString('en-US') : 'N/A'}
+Age: ${result.age || 'N/A'}
+Thumbnail: ${result.thumbnail?.src || 'N/A'}`;
+  }).join('\n\n');
+}
+
+function formatNewsResults(data: BraveNewsResponse): string {
+  const results = data.results || [];
+  if (results.length === 0) {
+    return "No news results found.";
+  }
+
+  return sortNewsByDate(results).map(result => `${result.breaking ? '[BREAKING] ' : ''}Title: ${result.title || 'N/A'}
+Source: ${result.source || result.meta_url?.hostname || 'N/A'}
+Published: ${result.page_age || 'N/A'}${result.age ? ` (${result.age})` : ''}
+Description: ${result.description || 'N/A'}
+URL: ${result.url || 'N/A'}
+Thumbnail: ${result.thumbnail?.src || 'N/A'}`
+  ).join('\n\n');
+}
+
+function formatSuggestions(output: SuggestOutput): string {
+  if (output.suggestions.length === 0) {
+    return `No suggestions found for "${output.query}".`;
+  }
+  return output.suggestions.map(suggestion => {
+    const lines = [`Suggestion: ${suggestion.query}`];
+    if (suggestion.is_entity) {
+      lines.push(`Entity: ${suggestion.title || suggestion.query}${suggestion.description ? ` - ${suggestion.description}` : ''}`);
+    }
+    if (suggestion.image_url) {
+      lines.push(`Image: ${suggestion.image_url}`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+function formatSpellcheck(output: SpellcheckOutput): string {
+  if (output.corrections.length === 0) {
+    return `No spelling corrections for "${output.query}".`;
+  }
+  return `Did you mean:\n${output.corrections.map(correction => `- ${correction}`).join('\n')}`;
+}
+
+function formatSummary(output: SummaryOutput): string {
+  if (!output.summary) {
+    return `No summary available for "${output.query}". Try brave_web_search instead.`;
+  }
+  const lines = [output.title ? `Summary: ${output.title}\n\n${output.summary}` : output.summary];
+  if (output.citations.length > 0) {
+    lines.push(`Sources:\n${output.citations.map(citation => `[${citation.number}] ${citation.title} - ${citation.url}`).join('\n')}`);
+  }
+  if (output.followups) {
+    lines.push(`Follow-up questions:\n${output.followups.map(question => `- ${question}`).join('\n')}`);
+  }
+  return lines.join('\n\n');
+}
+
+function formatPage(output: PageOutput): string {
+  const lines = [
+    ...(output.title ? [`Title: ${output.title}`] : []),
+    `URL: ${output.final_url}`,
+    `Characters ${output.start}-${output.end} of ${output.total_chars}`,
+    '',
+    output.content || 'No readable content found.',
+  ];
+  const notice = pageContinuationNotice(output);
+  if (notice) {
+    lines.push('', notice);
+  }
+  return lines.join('\n');
+}
+
+function formatQuotaStatus(status: QuotaStatusOutput): string {
+  const lines = [
+    `Month: ${status.month}`,
+    `Queries used by this server: ${status.used}`,
+    `Monthly limit: ${status.monthlyLimit ?? 'Unknown (no response from Brave yet)'}`,
+    `Monthly remaining: ${status.monthlyRemaining ?? 'Unknown'}`,
+    `Resets at: ${status.monthlyResetAt ?? 'Unknown'}`,
+    `Per-second limit: ${status.perSecondLimit ?? 'Unknown'}`,
+  ];
+  if (status.softCap) {
+    lines.push(`Soft cap: ${status.softCap} (${status.softCapRemaining} queries left before requests are refused)`);
+  } else {
+    lines.push('Soft cap: Disabled');
+  }
+  lines.push(`Last updated: ${status.updatedAt ?? 'Never'}`);
+  if (status.keys.length > 1) {
+    lines.push('', 'API keys:');
+    status.keys.forEach(key => {
+      const health = key.healthy ? 'healthy' : `cooling down until ${key.unhealthyUntil} after ${key.lastErrorStatus}`;
+      const remaining = key.quota.monthlyRemaining !== undefined
+        ? `${key.quota.monthlyRemaining} of ${key.quota.monthlyLimit ?? '?'} remaining`
+        : 'remaining unknown';
+      lines.push(`- ${key.key}: ${health}, ${key.quota.used} used, ${remaining}`);
+    });
+  }
+  return lines.join('\n');
+}
+
+function getQuotaStatusOutput(): QuotaStatusOutput {
+  return { ...getQuotaStatus(), keys: getApiKeyStatus() };
+}
+
+async function performWebSearch(query: string, count: number = 10, offset: number = 0, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<WebSearchOutput>> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing web search: query="${query}", count=${count}, offset=${offset}, options=${JSON.stringify(options)}`);
+  }
+  const data = await fetchWebSearch(query, count, offset, options, request);
+  const structured = toWebSearchOutput(data);
+  return { text: formatWebResults(structured), markdown: webSearchMarkdown(structured), structured, raw: data };
+}
+
+async function performDeepSearch(query: string, total: number = 50, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<DeepSearchOutput>> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing deep search: query="${query}", total=${total}, options=${JSON.stringify(options)}`);
+  }
+  const data = await fetchDeepWebSearch(query, total, options, request);
+  const structured = toDeepSearchOutput(data);
+  const text = `${deepSearchSummary(structured)}\n\n${formatWebResults(structured)}`;
+  return { text, markdown: deepSearchMarkdown(structured), structured, raw: data };
+}
+
+async function performMultiSearch(queries: string[], count: number = 10, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<MultiSearchOutput>> {
+  const uniqueQueries = [...new Set(queries.map(query => query.trim()).filter(Boolean))];
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing multi search: queries=${JSON.stringify(uniqueQueries)}, count=${count}, options=${JSON.stringify(options)}`);
+  }
+  if (uniqueQueries.length === 0) {
+    const message = "No queries provided to search.";
+    return { text: message, markdown: message, structured: { queries: [], results: [] } };
+  }
+
+  // Started together, released one by one by the rate limiter; one failed query doesn't sink the rest
+  const settled = await Promise.allSettled(uniqueQueries.map(query => fetchWebSearch(query, count, 0, options, request)));
+  const lists = settled.flatMap((result, index) =>
+    result.status === 'fulfilled' ? [{ source: uniqueQueries[index], items: result.value.web?.results || [] }] : []
+  );
+  const failed = settled.flatMap((result, index) =>
+    result.status === 'rejected' ? [{ query: uniqueQueries[index], error: formatErrorMessage(result.reason) }] : []
+  );
+  if (lists.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  // Results without a URL can't be matched across queries, so each one stays on its own
+  const fused = reciprocalRankFusion(lists, (result, query, index) => result.url ? canonicalizeUrl(result.url) : `no-url:${query}:${index}`);
+  const structured = toMultiSearchOutput(uniqueQueries, fused, failed);
+  const raw = settled.flatMap((result, index) =>
+    result.status === 'fulfilled' ? [{ query: uniqueQueries[index], response: result.value }] : []
+  );
+  return { text: formatMultiSearchResults(structured), markdown: multiSearchMarkdown(structured), structured, raw };
+}
+
+async function performImageSearch(query: string, count: number = 10, safesearch: 'off' | 'strict' = 'strict', request: BraveRequestOptions = {}): Promise<ToolOutput> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing image search: query="${query}", count=${count}, safesearch=${safesearch}`);
+  }
+  const data = await fetchImageSearch(query, count, safesearch, request);
+  const structured = toImageSearchOutput(data);
+  return { text: formatImageResults(data), markdown: imageSearchMarkdown(structured), structured, raw: data };
+}
+
+async function performVideoSearch(query: string, count: number = 10, offset: number = 0, request: BraveRequestOptions = {}): Promise<ToolOutput> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing video search: query="${query}", count=${count}, offset=${offset}`);
+  }
+  const data = await fetchVideoSearch(query, count, offset, request);
+  const structured = toVideoSearchOutput(data);
+  return { text: formatVideoResults(data), markdown: videoSearchMarkdown(structured), structured, raw: data };
+}
+
+async function performNewsSearch(query: string, count: number = 10, offset: number = 0, options: BraveNewsSearchOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing news search: query="${query}", count=${count}, offset=${offset}, options=${JSON.stringify(options)}`);
+  }
+  const data = await fetchNewsSearch(query, count, offset, options, request);
+  const structured = toNewsSearchOutput(data);
+  return { text: formatNewsResults(data), markdown: newsSearchMarkdown(structured), structured, raw: data };
+}
+
+async function performSuggest(query: string, count: number = 5, options: BraveSuggestOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<SuggestOutput>> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing suggest: query="${query}", count=${count}, options=${JSON.stringify(options)}`);
   }
+  const data = await fetchSuggestions(query, count, options, request);
+  const structured = toSuggestOutput(data);
+  return { text: formatSuggestions(structured), markdown: suggestMarkdown(structured), structured, raw: data };
+}
 
-  return results.map(poi => {
-    const address = [
-      poi.address?.streetAddress,
-      poi.address?.addressLocality,
-      poi.address?.addressRegion,
-      poi.address?.postalCode
-    ].filter(Boolean).join(', ') || 'N/A'; // Filter out empty parts
+async function performSpellcheck(query: string, country?: string, request: BraveRequestOptions = {}): Promise<ToolOutput<SpellcheckOutput>> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing spellcheck: query="${query}", country=${country}`);
+  }
+  const data = await fetchSpellcheck(query, country, request);
+  const structured = toSpellcheckOutput(data);
+  return { text: formatSpellcheck(structured), markdown: spellcheckMarkdown(structured), structured, raw: data };
+}
 
-    return `Name: ${poi.name || 'N/A'}
-Address: ${address}
-Phone: ${poi.phone || 'N/A'}
-Rating: ${poi.rating?.ratingValue ?? 'N/A'} (${poi.rating?.ratingCount ?? 0} reviews)
-Price Range: ${poi.priceRange || 'N/A'}
-Hours: ${(poi.openingHours || []).join(', ') || 'N/A'}
-Description: ${descData.descriptions[poi.id] || 'No description available.'}
-`; // Added trailing newline for clarity
-  }).join('\n---\n');
+async function performFetchPage(url: string, maxChars: number = 20000, cursor?: string, request: BraveRequestOptions = {}): Promise<ToolOutput<PageOutput>> {
+  if (LOG_LEVEL === 'debug') {
+    console.debug(`Performing page fetch: url="${url}", max_chars=${maxChars}, cursor=${cursor}`);
+  }
+  const page = await fetchPage(url, request);
+  const structured = toPageOutput(page, takeChunk(page.content, Math.max(100, Math.min(maxChars, 100000)), cursor));
+  return { text: formatPage(structured), markdown: pageMarkdown(structured), structured };
 }
 
-async function performWebSearch(query: string, count: number = 10, offset: number = 0): Promise<string> {
+async function performSummarize(query: string, options: BraveWebSearchOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<SummaryOutput>> {
   if (LOG_LEVEL === 'debug') {
-    console.debug(`Performing web search: query="${query}", count=${count}, offset=${offset}`);
+    console.debug(`Performing summarize: query="${query}", options=${JSON.stringify(options)}`);
   }
-  const data = await fetchWebSearch(query, count, offset);
-  return formatWebResults(data);
+  const { key, web } = await fetchSummarizerKey(query, options, request);
+  const data = key ? await fetchSummary(key, {}, request) : { status: 'failed' };
+  const structured = toSummaryOutput(query, data, web);
+  return { text: formatSummary(structured), markdown: summaryMarkdown(structured), structured, raw: { search: web, summary: data } };
 }
 
 // The delay function has been removed as it's no longer needed
 // Our improved rate limiter in apiClient.ts now handles delays automatically
 
-async function performLocalSearch(query: string, count: number = 5): Promise<string> {
+// Presents web results in the local search output shape, for when local search falls back to web search
+async function performLocalFallback(query: string, count: number, options: BraveLocalSearchOptions, request: BraveRequestOptions): Promise<ToolOutput<LocalSearchOutput>> {
+  const data = await fetchLocalFallbackSearch(query, count, options, request);
+  const web = toWebSearchOutput(data);
+  return { text: formatWebResults(web), markdown: webSearchMarkdown(web), structured: { places: [], web_results: web.results }, raw: data };
+}
+
+// Opening hours are read in each place's own time zone, or the user's when Brave doesn't report one
+function localOutput(poisData: BravePoiResponse, descData: BraveDescription, filters?: PlaceFilterOptions, timezone?: string): ToolOutput<LocalSearchOutput> {
+  searchStore.recordPois(poisData.results, descData.descriptions);
+  let structured = toLocalSearchOutput(poisData, descData, { timezone });
+  if (filters) {
+    const { places, filtered_out } = filterAndSortPlaces(structured.places, filters);
+    structured = { places, ...(filtered_out > 0 ? { filtered_out } : {}) };
+  }
+  if (poisData.failed_ids?.length) {
+    structured.unavailable_details = poisData.failed_ids;
+  }
+  // Only places that made it into the results can be missing a description
+  const shown = new Set(structured.places.map(place => place.id));
+  const missingDescriptions = descData.failed_ids?.filter(id => shown.has(id)) ?? [];
+  if (missingDescriptions.length > 0) {
+    structured.unavailable_descriptions = missingDescriptions;
+  }
+  return { text: formatLocalResults(structured), markdown: localSearchMarkdown(structured), structured };
+}
+
+function withExport(output: ToolOutput<LocalSearchOutput>, format?: ExportFormat): ToolOutput<LocalSearchOutput> {
+  return format ? { ...output, exported: exportPlaces(output.structured.places, format) } : output;
+}
+
+async function performLocalSearch(query: string, count: number = 5, options: BraveLocalSearchOptions = {}, filters: PlaceFilterOptions = {}, request: BraveRequestOptions = {}): Promise<ToolOutput<LocalSearchOutput>> {
   if (LOG_LEVEL === 'debug') {
-    console.debug(`Performing local search: query="${query}", count=${count}`);
+    console.debug(`Performing local search: query="${query}", count=${count}, options=${JSON.stringify(options)}, filters=${JSON.stringify(filters)}`);
   }
   // Initial search to get location IDs
-  const webData = await fetchInitialLocalSearch(query, count);
+  const webData = await fetchInitialLocalSearch(query, count, options, request);
   const locationIds = webData.locations?.results
     ?.map(r => r.id)
     .filter((id): id is string => id != null) // Ensure IDs are strings and not null/undefined
@@ -116,66 +535,88 @@ async function performLocalSearch(query: string, count: number = 5): Promise<str
         console.debug("No location IDs found, falling back to web search.");
     }
     // Fallback to web search if no specific locations found in initial query
-    return performWebSearch(query, count);
+    return performLocalFallback(query, count, options, request);
   }
 
   if (LOG_LEVEL === 'debug') {
     console.debug(`Found location IDs: ${locationIds.join(', ')}. Fetching details...`);
   }
 
-  // Get POI details and descriptions sequentially
-  // No manual delays needed - the enhanced rate limiter in apiClient.ts handles this now
-  try {
-    const poisData = await fetchPoiDetails(locationIds);
-    const descriptionsData = await fetchPoiDescriptions(locationIds);
-
-    return formatLocalResults(poisData, descriptionsData);
-  } catch (error) {
-     console.error("Error fetching POI details/descriptions:", error);
-     // Fallback to web search on error during detail fetching
-     if (LOG_LEVEL === 'debug') {
-        console.debug("Error fetching details, falling back to web search.");
-     }
-     return performWebSearch(query, count);
+  // Details and descriptions are fetched side by side; the rate limiter spaces out the requests.
+  // Places are still worth showing without descriptions, but not without details.
+  const [details, descriptions] = await Promise.allSettled([
+    fetchPoiDetails(locationIds, request),
+    fetchPoiDescriptions(locationIds, request),
+  ]);
+  if (details.status === 'rejected') {
+    console.error("Error fetching POI details:", details.reason);
+    if (LOG_LEVEL === 'debug') {
+      console.debug("Error fetching details, falling back to web search.");
+    }
+    return performLocalFallback(query, count, options, request);
   }
+  if (descriptions.status === 'rejected') {
+    console.error("Error fetching POI descriptions, showing places without them:", descriptions.reason);
+  }
+  const poisData = details.value;
+  const descriptionsData = descriptions.status === 'fulfilled' ? descriptions.value : { descriptions: {}, failed_ids: locationIds };
+
+  return { ...localOutput(poisData, descriptionsData, filters, options.location?.timezone), raw: { locations: webData, pois: poisData, descriptions: descriptionsData } };
 }
 
-async function performPoiDetails(ids: string[]): Promise<string> {
+async function performPoiDetails(ids: string[], request: BraveRequestOptions = {}): Promise<ToolOutput<LocalSearchOutput>> {
   if (LOG_LEVEL === 'debug') {
     console.debug(`Fetching POI details for IDs: ${ids.join(', ')}`);
   }
   
   if (ids.length === 0) {
-    return "No IDs provided to fetch details.";
+    const message = "No IDs provided to fetch details.";
+    return { text: message, markdown: message, structured: { places: [] } };
   }
   
-  const poisData = await fetchPoiDetails(ids);
-  return formatLocalResults(poisData, { descriptions: {} });
+  const poisData = await fetchPoiDetails(ids, request);
+  return localOutput(poisData, { descriptions: {} });
 }
 
-async function performPoiDescriptions(ids: string[]): Promise<string> {
+async function performPoiDescriptions(ids: string[], request: BraveRequestOptions = {}): Promise<ToolOutput> {
   if (LOG_LEVEL === 'debug') {
     console.debug(`Fetching POI descriptions for IDs: ${ids.join(', ')}`);
   }
   
   if (ids.length === 0) {
-    return "No IDs provided to fetch descriptions.";
-  }
-  
-  const descriptionsData = await fetchPoiDescriptions(ids);
-  
-  if (Object.keys(descriptionsData.descriptions).length === 0) {
-    return "No descriptions found for the provided IDs.";
+    const message = "No IDs provided to fetch descriptions.";
+    return { text: message, markdown: message, structured: { descriptions: [] } };
   }
   
-  return Object.entries(descriptionsData.descriptions)
-    .map(([id, description]) => `ID: ${id}\nDescription: ${description}`)
-    .join('\n\n');
+  const descriptionsData = await fetchPoiDescriptions(ids, request);
+  searchStore.recordPois([], descriptionsData.descriptions);
+  const structured = toPoiDescriptionsOutput(descriptionsData);
+  const text = structured.descriptions.length === 0
+    ? "No descriptions found for the provided IDs."
+    : structured.descriptions
+      .map(({ id, description }) => `ID: ${id}\nDescription: ${description}`)
+      .join('\n\n');
+  return { text, markdown: poiDescriptionsMarkdown(structured), structured };
 }
 
 
+function formatErrorMessage(error: unknown): string {
+  if (error instanceof BraveApiError) {
+    return `Brave API Error (${error.status ?? 'N/A'}): ${error.message}${error.details ? ` - ${error.details}` : ''}`;
+  }
+  if (error instanceof ToolArgumentError) {
+    return error.message;
+  }
+  if (error instanceof PageFetchError) {
+    return `Page Fetch Error (${error.reason}): ${error.message}`;
+  }
+  return `Internal Server Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
 // --- MCP Request Handlers ---
 
+type ContentBlock = Record<string, string>; // Text blocks and resource links
+
 // Export handlers for testing
 export const listToolsHandler = async () => ({
   tools: ALL_TOOLS, // Use imported tool list
@@ -188,44 +629,108 @@ export const callToolHandler = async (request: any) => { // Use 'any' for simpli
   }
 
   try {
-    // Removed explicit check for args to allow validators to handle missing or invalid arguments.
+    // Every tool's arguments are checked against its inputSchema, so the cases below can trust them
+    const tool = ALL_TOOLS.find(candidate => candidate.name === name);
+    if (tool) {
+      const issues = validateToolArgs(tool, args);
+      if (issues.length > 0) {
+        throw new ToolArgumentError(name, issues);
+      }
+    }
 
-    let results: string;
+    let output: ToolOutput;
 
     switch (name) {
       case "brave_web_search": {
-        if (!isBraveWebSearchArgs(args)) {
-          throw new Error(`Invalid arguments for tool "${name}". Expected: { query: string, count?: number, offset?: number }`);
-        }
-        const { query, count = 10, offset = 0 } = args; // Use defaults from tool definition
-        results = await performWebSearch(query, count, offset);
+        const { query, count = 10, offset = 0, no_cache, output_format, ...options } = args as BraveWebSearchArgs; // Use defaults from tool definition
+        output = await performWebSearch(query, count, offset, options, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_deep_search": {
+        const { query, total = 50, country, search_lang, safesearch, freshness, no_cache } = args as BraveDeepSearchArgs; // Use defaults from tool definition
+        output = await performDeepSearch(query, total, { country, search_lang, safesearch, freshness }, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_multi_search": {
+        const { queries, count = 10, country, search_lang, safesearch, freshness, no_cache } = args as BraveMultiSearchArgs; // Use defaults from tool definition
+        output = await performMultiSearch(queries, count, { country, search_lang, safesearch, freshness }, { noCache: no_cache });
         break;
       }
 
       case "brave_local_search": {
-        if (!isBraveLocalSearchArgs(args)) {
-          throw new Error(`Invalid arguments for tool "${name}". Expected: { query: string, count?: number }`);
+        const { query, count = 5, search_lang, origin, sort_by, min_rating, max_price_range, open_now, export_format, no_cache, output_format, ...location } = args as BraveLocalSearchArgs; // Use defaults from tool definition
+        // The user's country also targets the results, but Brave only accepts some countries there
+        const country = location.country?.toUpperCase();
+        const options = { search_lang, country: country && BRAVE_COUNTRIES.includes(country) ? country : undefined, location };
+        // Distances are measured from the user's location unless another origin is given
+        const from = origin ?? (location.latitude !== undefined && location.longitude !== undefined ? { latitude: location.latitude, longitude: location.longitude } : undefined);
+        if (sort_by === 'distance' && !from) {
+          throw new ToolArgumentError(name, [{ field: 'sort_by', message: 'needs origin, or latitude and longitude, to sort by distance' }]);
         }
-        const { query, count = 5 } = args; // Use defaults from tool definition
-        results = await performLocalSearch(query, count);
+        const filters = { origin: from, sort_by, min_rating, max_price_range, open_now };
+        output = withExport(await performLocalSearch(query, count, options, filters, { noCache: no_cache }), export_format);
         break;
       }
 
       case "brave_poi_details": {
-        if (!isBravePoiDetailsArgs(args)) {
-          throw new Error(`Invalid arguments for tool "${name}". Expected: { ids: string[] }`);
-        }
-        const { ids } = args;
-        results = await performPoiDetails(ids);
+        const { ids, export_format, no_cache } = args as BravePoiDetailsArgs;
+        output = withExport(await performPoiDetails(ids, { noCache: no_cache }), export_format);
         break;
       }
 
       case "brave_poi_descriptions": {
-        if (!isBravePoiDescriptionsArgs(args)) {
-          throw new Error(`Invalid arguments for tool "${name}". Expected: { ids: string[] }`);
-        }
-        const { ids } = args;
-        results = await performPoiDescriptions(ids);
+        const { ids, no_cache } = args as BravePoiDescriptionsArgs;
+        output = await performPoiDescriptions(ids, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_image_search": {
+        const { query, count = 10, safesearch = 'strict', no_cache } = args as BraveImageSearchArgs; // Use defaults from tool definition
+        output = await performImageSearch(query, count, safesearch, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_video_search": {
+        const { query, count = 10, offset = 0, no_cache } = args as BraveVideoSearchArgs; // Use defaults from tool definition
+        output = await performVideoSearch(query, count, offset, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_news_search": {
+        const { query, count = 10, offset = 0, freshness, country, search_lang, no_cache } = args as BraveNewsSearchArgs; // Use defaults from tool definition
+        output = await performNewsSearch(query, count, offset, { freshness, country, search_lang }, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_summarize": {
+        const { query, country, search_lang, no_cache } = args as BraveSummarizeArgs;
+        output = await performSummarize(query, { country, search_lang }, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_suggest": {
+        const { query, count = 5, country, rich, no_cache } = args as BraveSuggestArgs; // Use defaults from tool definition
+        output = await performSuggest(query, count, { country, rich }, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_spellcheck": {
+        const { query, country, no_cache } = args as BraveSpellcheckArgs;
+        output = await performSpellcheck(query, country, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_fetch_page": {
+        const { url, max_chars = 20000, cursor, no_cache } = args as BraveFetchPageArgs; // Use defaults from tool definition
+        output = await performFetchPage(url, max_chars, cursor, { noCache: no_cache });
+        break;
+      }
+
+      case "brave_quota_status": {
+        const status = getQuotaStatusOutput();
+        output = { text: formatQuotaStatus(status), markdown: quotaStatusMarkdown(status), structured: status };
         break;
       }
 
@@ -233,40 +738,191 @@ export const callToolHandler = async (request: any) => { // Use 'any' for simpli
         throw new Error(`Unknown tool requested: ${name}`);
     }
 
+    // output_format was validated with the other arguments; an export takes the text block's place
+    const results = output.exported?.content ?? renderToolOutput(output, args?.output_format);
     if (LOG_LEVEL === 'debug') {
         console.debug(`Tool "${name}" executed successfully. Result length: ${results.length}`);
     }
+    const search = output.raw !== undefined ? searchStore.recordSearch(name, args, output.raw) : undefined;
+    const content: ContentBlock[] = [{ type: "text", text: results }];
+    const notice = output.exported && missingCoordinatesNotice(output.exported);
+    if (notice) {
+      content.push({ type: "text", text: notice }); // Kept apart so the export stays a valid file
+    }
+    if (search) {
+      content.push(searchResourceLink(search)); // Lets the client re-read the full response later
+    }
     return {
-      content: [{ type: "text", text: results }],
+      content,
+      structuredContent: output.structured as Record<string, unknown>,
       isError: false,
     };
 
   } catch (error) {
     console.error(`Error executing tool "${name}":`, error);
-    const errorMessage = error instanceof BraveApiError
-      ? `Brave API Error (${error.status ?? 'N/A'}): ${error.message}${error.details ? ` - ${error.details}` : ''}`
-      : `Internal Server Error: ${error instanceof Error ? error.message : String(error)}`;
-
     return {
-      content: [{ type: "text", text: errorMessage }],
+      content: [{ type: "text", text: formatErrorMessage(error) }],
       isError: true,
     };
   }
 };
 
-// Register the exported handlers
-server.setRequestHandler(ListToolsRequestSchema, listToolsHandler);
-server.setRequestHandler(CallToolRequestSchema, callToolHandler);
+const QUOTA_RESOURCE_URI = "brave://quota";
+const SEARCH_RESOURCE_PREFIX = "brave://search/";
+const POI_RESOURCE_PREFIX = "brave://poi/";
+
+function searchResourceName(search: StoredSearch): string {
+  const { query, queries, ids } = search.arguments as { query?: string; queries?: string[]; ids?: string[] };
+  const subject = query ?? queries?.join('", "') ?? ids?.join(', ');
+  return subject ? `${search.tool}: "${subject}"` : search.tool;
+}
+
+function searchResourceLink(search: StoredSearch): ContentBlock {
+  return {
+    type: "resource_link",
+    uri: `${SEARCH_RESOURCE_PREFIX}${search.id}`,
+    name: searchResourceName(search),
+    description: "Full Brave API response for this search, readable without another API call",
+    mimeType: "application/json",
+  };
+}
+
+export const listResourcesHandler = async () => ({
+  resources: [
+    {
+      uri: QUOTA_RESOURCE_URI,
+      name: "Brave Search API quota",
+      description: "Monthly usage, limits and reset time reported by the Brave Search API",
+      mimeType: "application/json",
+    },
+    ...searchStore.listSearches().map(search => ({
+      uri: `${SEARCH_RESOURCE_PREFIX}${search.id}`,
+      name: searchResourceName(search),
+      description: `Full Brave API response, searched at ${search.created_at}`,
+      mimeType: "application/json",
+    })),
+  ],
+});
+
+export const listResourceTemplatesHandler = async () => ({
+  resourceTemplates: [
+    {
+      uriTemplate: `${SEARCH_RESOURCE_PREFIX}{id}`,
+      name: "Recent search",
+      description: `Tool, arguments and full Brave API response of one of the last ${SEARCH_HISTORY_SIZE} searches; the id comes from the resource link in the tool result`,
+      mimeType: "application/json",
+    },
+    {
+      uriTemplate: `${POI_RESOURCE_PREFIX}{id}`,
+      name: "Point of interest",
+      description: "Details and description of a place returned by brave_local_search, brave_poi_details or brave_poi_descriptions",
+      mimeType: "application/json",
+    },
+  ],
+});
+
+function readResourceData(uri: string): unknown {
+  if (uri === QUOTA_RESOURCE_URI) {
+    return getQuotaStatusOutput();
+  }
+  // Stored entries are only kept in memory and drop out as newer ones arrive
+  if (uri.startsWith(SEARCH_RESOURCE_PREFIX)) {
+    const search = searchStore.getSearch(uri.slice(SEARCH_RESOURCE_PREFIX.length));
+    if (!search) {
+      throw new Error(`Search not found: ${uri}. Only the last ${SEARCH_HISTORY_SIZE} searches are kept and the server may have restarted.`);
+    }
+    return search;
+  }
+  if (uri.startsWith(POI_RESOURCE_PREFIX)) {
+    const poi = searchStore.getPoi(decodeURIComponent(uri.slice(POI_RESOURCE_PREFIX.length)));
+    if (!poi) {
+      throw new Error(`POI not found: ${uri}. Only POIs from recent local searches are kept; look it up with brave_poi_details first.`);
+    }
+    return poi;
+  }
+  throw new Error(`Unknown resource requested: ${uri}`);
+}
+
+export const readResourceHandler = async (request: any) => {
+  const { uri } = request.params;
+  return {
+    contents: [
+      { uri, mimeType: "application/json", text: JSON.stringify(readResourceData(uri), null, 2) },
+    ],
+  };
+};
+
+export const listPromptsHandler = async () => ({
+  prompts: ALL_PROMPTS,
+});
+
+export const getPromptHandler = async (request: any) => {
+  const { name, arguments: args } = request.params;
+  return getPromptMessages(name, args);
+};
+
+/**
+ * Creates an MCP server with all handlers registered. A server serves a single
+ * transport, so the HTTP transport creates one per client session.
+ */
+export function createServer(): Server {
+  const server = new Server(
+    SERVER_INFO,
+    {
+      capabilities: {
+        tools: {}, // Tools are dynamically listed
+        resources: {},
+        prompts: {},
+      },
+    },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, listToolsHandler);
+  server.setRequestHandler(CallToolRequestSchema, callToolHandler);
+  server.setRequestHandler(ListResourcesRequestSchema, listResourcesHandler);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplatesHandler);
+  server.setRequestHandler(ReadResourceRequestSchema, readResourceHandler);
+  server.setRequestHandler(ListPromptsRequestSchema, listPromptsHandler);
+  server.setRequestHandler(GetPromptRequestSchema, getPromptHandler);
+  return server;
+}
 
 // --- Server Startup ---
 
-async function runServer() {
+async function runStdioServer() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   // Use console.error for startup messages as per convention for stdio servers
   console.error(`Brave Search MCP Server (${SERVER_INFO.name} v${SERVER_INFO.version}) running on stdio...`);
 }
 
+async function runHttpServer() {
+  if (!HTTP_AUTH_TOKEN && !['127.0.0.1', 'localhost', '::1'].includes(HTTP_HOST)) {
+    console.error(`WARNING: Listening on ${HTTP_HOST} without BRAVE_HTTP_AUTH_TOKEN. Anyone who can reach this port can spend your Brave quota.`);
+  }
+  const httpServer = createHttpServer({
+    createMcpServer: createServer,
+    authToken: HTTP_AUTH_TOKEN,
+    corsOrigins: HTTP_CORS_ORIGINS,
+  });
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(HTTP_PORT, HTTP_HOST, resolve);
+  });
+  console.error(`Brave Search MCP Server (${SERVER_INFO.name} v${SERVER_INFO.version}) listening on http://${HTTP_HOST}:${HTTP_PORT} (Streamable HTTP: /mcp, SSE: /sse, health: /healthz)`);
+}
+
+async function runServer() {
+  // Leave through process.exit on signals so exit handlers, such as the cache writing pending entries, still run
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => process.exit(0));
+  }
+  if (TRANSPORT === 'http') {
+    await runHttpServer();
+  } else {
+    await runStdioServer();
+  }
+}
+
 runServer().catch((error) => {
   console.error("FATAL ERROR: Failed to run Brave Search MCP Server:", error);
   process.exit(1);
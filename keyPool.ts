@@ -0,0 +1,212 @@
+import fs from 'node:fs';
+import { QuotaTracker, QuotaStatus, HeaderSource } from './quota.js';
+
+// --- API Key Pool ---
+
+export type KeyRotationStrategy = 'round-robin' | 'least-used';
+
+export const KEY_ROTATION_STRATEGIES: KeyRotationStrategy[] = ['round-robin', 'least-used'];
+
+export interface KeyPoolOptions {
+  keys?: string[]; // Keys from the environment, used before any keys from keyFile
+  keyFile?: string; // One key per line, '#' starts a comment; re-read whenever the file changes
+  strategy: KeyRotationStrategy;
+  cooldownMs: number; // How long a key rejected with 401 or 402 is avoided
+  rateLimitCooldownMs?: number; // How long a key is avoided after a 429 without a retry hint
+  now?: () => number; // Clock, injectable for tests
+}
+
+export interface ApiKeyStatus {
+  key: string; // Masked, e.g. "BSAa…wxyz"
+  healthy: boolean;
+  unhealthyUntil?: string; // ISO time the cooldown ends
+  lastErrorStatus?: number; // HTTP status that started the cooldown
+  quota: QuotaStatus; // Usage and Brave's rate-limit headers for this key alone
+}
+
+export class NoApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoApiKeyError';
+  }
+}
+
+interface KeyState {
+  quota: QuotaTracker;
+  unhealthyUntil: number;
+  lastErrorStatus?: number;
+}
+
+// Statuses that say something about the key rather than the request
+export const KEY_FAILURE_STATUSES = [401, 402, 429];
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 1000; // Brave's shortest rate-limit window is one second
+
+export function maskKey(key: string): string {
+  return key.length > 12 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '****';
+}
+
+export function parseKeyFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean);
+}
+
+export class KeyPool {
+  private readonly now: () => number;
+  private readonly states = new Map<string, KeyState>();
+  private keys: string[] = [];
+  private loadedFileMtime?: number;
+  private warnedAboutFile = false;
+  private nextIndex = 0;
+
+  constructor(private readonly options: KeyPoolOptions) {
+    this.now = options.now ?? Date.now;
+    this.refresh();
+  }
+
+  get size(): number {
+    this.refresh();
+    return this.keys.length;
+  }
+
+  /**
+   * Picks the key for the next request. Healthy keys are preferred; when every key is
+   * cooling down the one that recovers first is used rather than failing locally.
+   * Keys in `exclude` (already tried for this request) are only used as a last resort.
+   */
+  select(exclude: ReadonlySet<string> = new Set()): string {
+    this.refresh();
+    if (this.keys.length === 0) {
+      throw new NoApiKeyError(
+        'No Brave API keys configured. Set BRAVE_API_KEY, BRAVE_API_KEYS or BRAVE_API_KEY_FILE.'
+      );
+    }
+
+    const now = this.now();
+    const candidates = this.keys.filter(key => !exclude.has(key) && this.state(key).unhealthyUntil <= now);
+    if (candidates.length === 0) {
+      const fallback = this.keys.filter(key => !exclude.has(key));
+      const pool = fallback.length > 0 ? fallback : this.keys;
+      return pool.reduce((best, key) => (this.state(key).unhealthyUntil < this.state(best).unhealthyUntil ? key : best));
+    }
+
+    if (this.options.strategy === 'least-used') {
+      return candidates.reduce((best, key) => (this.usage(key) < this.usage(best) ? key : best));
+    }
+
+    // Round-robin: the first candidate at or after the cursor, in configuration order
+    for (let i = 0; i < this.keys.length; i++) {
+      const index = (this.nextIndex + i) % this.keys.length;
+      const key = this.keys[index];
+      if (candidates.includes(key)) {
+        this.nextIndex = index + 1;
+        return key;
+      }
+    }
+    return candidates[0];
+  }
+
+  /** True if a key outside `exclude` is not cooling down. */
+  hasHealthyKey(exclude: ReadonlySet<string> = new Set()): boolean {
+    this.refresh();
+    const now = this.now();
+    return this.keys.some(key => !exclude.has(key) && this.state(key).unhealthyUntil <= now);
+  }
+
+  /** Milliseconds until some key is healthy again, 0 if one already is. */
+  msUntilHealthy(): number {
+    this.refresh();
+    if (this.keys.length === 0) return 0;
+    const now = this.now();
+    return Math.max(0, Math.min(...this.keys.map(key => this.state(key).unhealthyUntil)) - now);
+  }
+
+  recordResponse(key: string, headers: HeaderSource | undefined, succeeded: boolean): void {
+    const state = this.state(key);
+    state.quota.recordResponse(headers, succeeded);
+    if (succeeded) {
+      state.unhealthyUntil = 0;
+      state.lastErrorStatus = undefined;
+    }
+  }
+
+  /** Takes a key out of rotation after Brave rejected it with 401, 402 or 429. */
+  markUnhealthy(key: string, status: number, retryAfterMs?: number): void {
+    const cooldown = status === 429
+      ? retryAfterMs ?? this.options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS
+      : this.options.cooldownMs;
+    const state = this.state(key);
+    state.unhealthyUntil = Math.max(state.unhealthyUntil, this.now() + cooldown);
+    state.lastErrorStatus = status;
+  }
+
+  status(): ApiKeyStatus[] {
+    this.refresh();
+    const now = this.now();
+    return this.keys.map(key => {
+      const state = this.state(key);
+      const healthy = state.unhealthyUntil <= now;
+      return {
+        key: maskKey(key),
+        healthy,
+        unhealthyUntil: healthy ? undefined : new Date(state.unhealthyUntil).toISOString(),
+        lastErrorStatus: state.lastErrorStatus,
+        quota: state.quota.status(),
+      };
+    });
+  }
+
+  // Queries used this month, preferring Brave's own count since other clients may share the key
+  private usage(key: string): number {
+    const quota = this.state(key).quota.status();
+    const reported = quota.monthlyLimit !== undefined && quota.monthlyRemaining !== undefined
+      ? quota.monthlyLimit - quota.monthlyRemaining
+      : 0;
+    return Math.max(quota.used, reported);
+  }
+
+  private state(key: string): KeyState {
+    let state = this.states.get(key);
+    if (!state) {
+      state = { quota: new QuotaTracker({ now: this.now }), unhealthyUntil: 0 };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  // Re-reads the key file when it has changed, so keys can be added or removed without a restart
+  private refresh(): void {
+    const fileKeys = this.readKeyFile();
+    if (fileKeys === undefined && this.keys.length > 0) return;
+
+    const keys = [...new Set([...(this.options.keys || []), ...(fileKeys ?? [])])];
+    if (fileKeys !== undefined && this.keys.length > 0) {
+      console.error(`Loaded ${keys.length} Brave API key(s) from ${this.options.keyFile}.`);
+    }
+    this.keys = keys;
+    this.nextIndex = this.nextIndex % Math.max(1, keys.length);
+  }
+
+  // Returns the keys in the file if it changed since the last read, undefined otherwise
+  private readKeyFile(): string[] | undefined {
+    const file = this.options.keyFile;
+    if (!file) return undefined;
+    try {
+      const mtime = fs.statSync(file).mtimeMs;
+      if (mtime === this.loadedFileMtime) return undefined;
+      const keys = parseKeyFile(fs.readFileSync(file, 'utf8'));
+      this.loadedFileMtime = mtime;
+      this.warnedAboutFile = false;
+      return keys;
+    } catch (error) {
+      // Keep using the keys we have; a file being rewritten may briefly be missing
+      if (!this.warnedAboutFile) {
+        console.error(`Could not read API key file ${file}:`, error);
+        this.warnedAboutFile = true;
+      }
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+// --- Opening Hours ---
+
+// Brave lists opening hours as lines such as "Mo-Fr 09:00-17:00", "Sa 10:00-14:00, 18:00-01:00",
+// "Sunday: Closed" or "Mon 9:00 AM - 5:00 PM". They are parsed into a weekly schedule of intervals.
+// Days the lines don't mention are unknown rather than closed, since Brave's lists are often incomplete.
+
+export interface OpeningInterval {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  opens: number; // Minutes since midnight
+  closes: number; // Minutes since midnight of `day`, so past 1440 for ranges that end after midnight
+}
+
+export interface OpeningSchedule {
+  intervals: OpeningInterval[];
+  days: number[]; // Weekdays the hours say something about, open or closed; the others are unknown
+}
+
+export interface OpeningStatus {
+  open_now?: boolean; // Unset when the hours don't cover today
+  closes_at?: string; // ISO time with the place's UTC offset; unset when open around the clock
+  opens_at?: string; // Next opening when closed; unset when the schedule has no opening at all
+  summary: string; // E.g. "Open now, closes at 17:00" or "Closed, opens Mon 09:00", in the place's local time
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const DAY_NAMES = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function parseDay(name: string): number | undefined {
+  const index = DAY_NAMES.indexOf(name.trim().slice(0, 2).toLowerCase());
+  return index === -1 ? undefined : index;
+}
+
+// "Mo-Fr", "Sa,Su" or "Th"; ranges may wrap around the week ("Fr-Mo")
+function parseDays(spec: string): number[] | undefined {
+  const days: number[] = [];
+  for (const part of spec.split(',')) {
+    const [first, last] = part.split(/[-–]/).map(parseDay);
+    if (first === undefined || (/[-–]/.test(part) && last === undefined)) return undefined;
+    const end = last ?? first;
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === end) break;
+    }
+  }
+  return days;
+}
+
+// "09:00", "9:00 AM", "9am", "12 PM" or "24:00"
+function parseTime(time: string): number | undefined {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i.exec(time.trim());
+  if (!match || (!match[2] && !match[3])) return undefined;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (match[3].toLowerCase().startsWith('p') ? 12 : 0);
+  }
+  const total = hours * 60 + minutes;
+  return minutes < 60 && total <= MINUTES_PER_DAY ? total : undefined;
+}
+
+// "09:00-12:00, 13:00-17:00"; a range ending at or before its start runs past midnight
+function parseRanges(spec: string): Array<[number, number]> | undefined {
+  const ranges: Array<[number, number]> = [];
+  for (const part of spec.split(/,|;|\band\b/)) {
+    const [start, end, ...rest] = part.split(/\s*[-–—]\s*|\s+to\s+/);
+    const opens = start !== undefined ? parseTime(start) : undefined;
+    const closes = end !== undefined ? parseTime(end) : undefined;
+    if (rest.length > 0 || opens === undefined || closes === undefined) return undefined;
+    ranges.push([opens, closes <= opens ? closes + MINUTES_PER_DAY : closes]);
+  }
+  return ranges;
+}
+
+const CLOSED_PATTERN = /^(closed|off)$/i;
+const ALWAYS_OPEN_PATTERN = /^(24\/7|24 hours|open 24 hours|always open)$/i;
+
+/**
+ * Parses opening hours into intervals per weekday. Days listed as closed on a later line lose
+ * what earlier lines gave them. Returns undefined when any line can't be understood, since a
+ * partial schedule would make places look closed when they are not, and when the place never opens.
+ */
+export function parseOpeningHours(lines: string[] | undefined): OpeningSchedule | undefined {
+  if (!lines?.length) return undefined;
+  let intervals: OpeningInterval[] = [];
+  const listed = new Set<number>();
+  for (const line of lines) {
+    const text = line.trim();
+    // Lines without days ("09:00-17:00", "24/7") apply to every day
+    const match = /^([A-Za-z]{2,}(?:\s*[-–,]\s*[A-Za-z]{2,})*)\s*:?\s+(.+)$/.exec(text);
+    const listedDays = match ? parseDays(match[1].replace(/\s+/g, '')) : undefined;
+    const days = listedDays ?? ALL_DAYS;
+    const times = listedDays ? match![2].trim() : text;
+    days.forEach(day => listed.add(day));
+
+    if (CLOSED_PATTERN.test(times)) {
+      intervals = intervals.filter(interval => !days.includes(interval.day));
+      continue;
+    }
+    const ranges = ALWAYS_OPEN_PATTERN.test(times) ? [[0, MINUTES_PER_DAY] as [number, number]] : parseRanges(times);
+    if (!ranges) return undefined;
+    days.forEach(day => ranges.forEach(([opens, closes]) => intervals.push({ day, opens, closes })));
+  }
+  if (intervals.length === 0) return undefined;
+  return {
+    intervals: intervals.sort((a, b) => a.day - b.day || a.opens - b.opens),
+    days: [...listed].sort((a, b) => a - b),
+  };
+}
+
+// Intervals as [start, end) minutes since Sunday midnight, merged where they touch; the first may wrap past the week's end
+function weekRanges(intervals: OpeningInterval[]): Array<[number, number]> {
+  const ranges = intervals
+    .map(({ day, opens, closes }): [number, number] => [day * MINUTES_PER_DAY + opens, day * MINUTES_PER_DAY + closes])
+    .sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  // Saturday night ranges that run into Sunday join a range starting Sunday at midnight
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+  if (merged.length > 1 && last[1] >= MINUTES_PER_WEEK + first[0]) {
+    merged.shift();
+    last[1] = Math.max(last[1], first[1] + MINUTES_PER_WEEK);
+  }
+  return merged;
+}
+
+function wallClock(date: Date, timeZone?: string): { day: number; minutes: number; offsetMinutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(candidate => candidate.type === type)?.value ?? '';
+  const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+  const localAsUtc = Date.UTC(Number(part('year')), Number(part('month')) - 1, Number(part('day'))) + minutes * 60000;
+  return { day: parseDay(part('weekday')) ?? 0, minutes, offsetMinutes: Math.round((localAsUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000) };
+}
+
+// Weekday and minutes since midnight of an instant, on the wall clock of a time zone
+export function localTime(date: Date, timeZone?: string): { day: number; minutes: number } {
+  const { day, minutes } = wallClock(date, timeZone);
+  return { day, minutes };
+}
+
+// The instant `minutesAhead` wall-clock minutes from now, as ISO with the zone's offset. Assumes the
+// offset doesn't change in between, which can put times across a DST switch an hour off.
+function zonedIso(date: Date, minutesAhead: number, offsetMinutes: number): string {
+  const local = new Date(Math.floor(date.getTime() / 60000) * 60000 + (minutesAhead + offsetMinutes) * 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const offset = Math.abs(offsetMinutes);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${local.toISOString().slice(0, 19)}${sign}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`;
+}
+
+function clockLabel(weekMinute: number): string {
+  const minutes = weekMinute % MINUTES_PER_DAY;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// "at 17:00" today, "tomorrow 09:00" or "Mon 09:00"
+function whenLabel(nowWeekMinute: number, minutesAhead: number): string {
+  const target = (nowWeekMinute + minutesAhead) % MINUTES_PER_WEEK;
+  const daysAhead = Math.floor((nowWeekMinute % MINUTES_PER_DAY + minutesAhead) / MINUTES_PER_DAY);
+  if (daysAhead === 0) return `at ${clockLabel(target)}`;
+  if (daysAhead === 1) return `tomorrow ${clockLabel(target)}`;
+  return `${DAY_LABELS[Math.floor(target / MINUTES_PER_DAY)]} ${clockLabel(target)}`;
+}
+
+/**
+ * Evaluates a schedule at an instant in the place's time zone (the server's by default): whether
+ * it is open, when it next closes and when it next opens. Whether it is open stays unknown on days
+ * the hours don't mention, and so does the next opening when such a day comes first.
+ */
+export function getOpeningStatus(schedule: OpeningSchedule, date: Date, timeZone?: string): OpeningStatus {
+  const { day, minutes, offsetMinutes } = wallClock(date, timeZone);
+  const now = day * MINUTES_PER_DAY + minutes;
+  const ranges = weekRanges(schedule.intervals);
+  if (ranges.length === 0) {
+    return { open_now: false, summary: 'Closed' };
+  }
+  if (ranges.some(([start, end]) => end - start >= MINUTES_PER_WEEK)) {
+    return { open_now: true, summary: 'Open 24 hours' };
+  }
+
+  // Check each range in this week and, for ranges wrapping past Saturday, the one from last week
+  const current = ranges.find(([start, end]) => (start <= now && now < end) || (start <= now + MINUTES_PER_WEEK && now + MINUTES_PER_WEEK < end));
+  if (current) {
+    const minutesAhead = (current[1] - now) % MINUTES_PER_WEEK;
+    return { open_now: true, closes_at: zonedIso(date, minutesAhead, offsetMinutes), summary: `Open now, closes ${whenLabel(now, minutesAhead)}` };
+  }
+  if (!schedule.days.includes(day)) {
+    return { summary: `No hours listed for ${DAY_LABELS[day]}` };
+  }
+  const minutesAhead = Math.min(...ranges.map(([start]) => (start - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK));
+  const unknownDay = ALL_DAYS.slice(1)
+    .map(daysAhead => ({ daysAhead, weekday: (day + daysAhead) % 7 }))
+    .find(({ daysAhead, weekday }) => daysAhead * MINUTES_PER_DAY - minutes < minutesAhead && !schedule.days.includes(weekday));
+  if (unknownDay) {
+    return { open_now: false, summary: `Closed, no hours listed for ${DAY_LABELS[unknownDay.weekday]}` };
+  }
+  return { open_now: false, opens_at: zonedIso(date, minutesAhead, offsetMinutes), summary: `Closed, opens ${whenLabel(now, minutesAhead)}` };
+}
+
+/** Whether a place is known to be open at the given instant; the time zone defaults to the server's. */
+export function isOpenAt(schedule: OpeningSchedule, date: Date, timeZone?: string): boolean {
+  return getOpeningStatus(schedule, date, timeZone).open_now === true;
+}
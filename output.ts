@@ -0,0 +1,1221 @@
+import type {
+  BraveWeb,
+  BraveDeepSearchResponse,
+  BraveWebResult,
+  BravePoiResponse,
+  BraveLocation,
+  BraveDescription,
+  BraveImageResponse,
+  BraveVideoResponse,
+  BraveNewsResponse,
+  BraveNewsResult,
+  BraveVideoResult,
+  BraveInfobox,
+  BraveMixed,
+  BraveSummaryResponse,
+  BraveSummaryMessage,
+  BraveSuggestResponse,
+  BraveSpellcheckResponse
+} from './apiClient.js';
+import type { QuotaStatus } from './quota.js';
+import type { FusedItem } from './ranking.js';
+import type { ApiKeyStatus } from './keyPool.js';
+import type { FetchedPage, PageChunk } from './pageFetcher.js';
+import { formatDistance } from './places.js';
+import type { ExportedPlaces } from './placeExport.js';
+import { OpeningStatus, getOpeningStatus, parseOpeningHours } from './openingHours.js';
+
+// --- Output Formats ---
+
+export const OUTPUT_FORMATS = ["text", "json", "markdown"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Everything a tool produces for one call. The structured object is always returned as MCP
+ * structured content; `output_format` only decides what goes into the text content block.
+ */
+export interface ToolOutput<T extends object = object> {
+  text: string;
+  markdown: string;
+  structured: T;
+  raw?: unknown; // Brave's response(s) behind a search, kept as a brave://search/{id} resource
+  exported?: ExportedPlaces; // Replaces the text result when places were exported as a map file
+}
+
+export function renderToolOutput(output: ToolOutput, format: OutputFormat = 'text'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(output.structured, null, 2);
+    case 'markdown':
+      return output.markdown;
+    default:
+      return output.text;
+  }
+}
+
+// --- Structured Results ---
+
+export interface WebResultItem {
+  title: string;
+  url: string;
+  description: string;
+  extra_snippets?: string[];
+  sitelinks?: Array<{ title: string; url: string }>; // Links into the site, from Brave's deep results
+}
+
+export interface QueryInfo {
+  original: string;
+  altered?: string; // The spellchecked query Brave searched for instead
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+  title: string; // Of the page the answer comes from
+  url: string;
+}
+
+export interface DiscussionItem {
+  title: string;
+  url: string;
+  description: string;
+  forum?: string;
+  answers?: number;
+  top_comment?: string;
+}
+
+export interface InfoboxItem {
+  title: string;
+  url?: string;
+  description?: string;
+  category?: string;
+  attributes?: Array<{ label: string; value: string }>;
+  website_url?: string;
+}
+
+export const WEB_SECTIONS = ['web', 'infobox', 'faq', 'discussions', 'news', 'videos'] as const;
+export type WebSection = typeof WEB_SECTIONS[number];
+
+export interface SectionReference {
+  section: WebSection;
+  index?: number; // Position in that section; unset for the whole section
+}
+
+export interface WebSearchOutput {
+  query?: QueryInfo;
+  results: WebResultItem[];
+  infobox?: InfoboxItem[];
+  faq?: FaqItem[];
+  discussions?: DiscussionItem[];
+  news?: NewsResultItem[]; // In Brave's order, not sorted by date
+  videos?: VideoResultItem[];
+  ranking?: SectionReference[]; // Brave's order for the sections and results, from its mixed ranking
+}
+
+export interface DeepSearchOutput extends WebSearchOutput {
+  pages_fetched: number;
+  duplicates_removed: number;
+  more_results_available: boolean;
+}
+
+export interface MultiSearchResultItem extends WebResultItem {
+  score: number; // Reciprocal rank fusion score
+  matched_queries: string[];
+}
+
+export interface MultiSearchOutput {
+  queries: string[];
+  results: MultiSearchResultItem[]; // Highest score first
+  failed_queries?: Array<{ query: string; error: string }>;
+}
+
+export interface PlaceItem {
+  id: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  rating?: number;
+  rating_count?: number;
+  price_range?: string;
+  opening_hours?: string[];
+  opening_status?: OpeningStatus; // Unset when the hours are missing or can't be read
+  coordinates?: { latitude: number; longitude: number };
+  distance_km?: number; // From the origin given to brave_local_search
+  description?: string;
+}
+
+export interface LocalSearchOutput {
+  places: PlaceItem[];
+  filtered_out?: number; // Places found but dropped by the filters
+  unavailable_details?: string[]; // Ids of places whose details could not be fetched, so they are missing
+  unavailable_descriptions?: string[]; // Ids of places shown without a description because fetching it failed
+  web_results?: WebResultItem[]; // Set when local search fell back to web search
+}
+
+export interface PoiDescriptionsOutput {
+  descriptions: Array<{ id: string; description: string }>;
+}
+
+export interface ImageResultItem {
+  title: string;
+  page_url: string;
+  image_url?: string;
+  thumbnail_url?: string;
+  width?: number;
+  height?: number;
+  source?: string;
+}
+
+export interface ImageSearchOutput {
+  results: ImageResultItem[];
+}
+
+export interface VideoResultItem {
+  title: string;
+  url: string;
+  duration?: string;
+  creator?: string;
+  publisher?: string;
+  views?: number;
+  age?: string;
+  thumbnail_url?: string;
+}
+
+export interface VideoSearchOutput {
+  results: VideoResultItem[];
+}
+
+export interface NewsResultItem {
+  title: string;
+  url: string;
+  source?: string;
+  published?: string;
+  age?: string;
+  description?: string;
+  breaking: boolean;
+  thumbnail_url?: string;
+}
+
+export interface NewsSearchOutput {
+  results: NewsResultItem[]; // Newest first
+}
+
+export interface SuggestionItem {
+  query: string;
+  is_entity: boolean;
+  title?: string;
+  description?: string;
+  image_url?: string;
+}
+
+export interface SuggestOutput {
+  query: string;
+  suggestions: SuggestionItem[];
+}
+
+export interface SpellcheckOutput {
+  query: string;
+  corrections: string[]; // Empty when the query is spelled correctly
+}
+
+export interface SummaryCitation {
+  number: number; // Matches the [n] markers in the summary text
+  title: string;
+  url: string;
+}
+
+export interface SummaryOutput {
+  query: string;
+  title?: string;
+  summary: string; // Empty when Brave had no summary for the query
+  citations: SummaryCitation[];
+  followups?: string[];
+}
+
+export interface PageOutput {
+  url: string;
+  final_url: string; // After redirects
+  title?: string;
+  content: string; // This chunk of the page's markdown
+  start: number; // Character offsets of the chunk in the whole content
+  end: number;
+  total_chars: number;
+  next_cursor?: string; // Pass as cursor to read on; absent on the last chunk
+  truncated: boolean; // Whether the page was cut off at the size limit before extraction
+}
+
+export interface QuotaStatusOutput extends QuotaStatus {
+  keys: ApiKeyStatus[]; // Health and usage of each configured API key
+}
+
+/** Newest first; articles without a parseable publication date keep their relative order at the end. */
+export function sortNewsByDate(results: BraveNewsResult[]): BraveNewsResult[] {
+  const publishedAt = (page_age?: string) => {
+    const time = page_age ? Date.parse(page_age) : NaN;
+    return isNaN(time) ? -Infinity : time;
+  };
+  return [...results].sort((a, b) => publishedAt(b.page_age) - publishedAt(a.page_age));
+}
+
+// Drops undefined properties, so optional fields Brave left out don't show up as keys
+function definedOnly<T extends object>(object: T): T {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as T;
+}
+
+function toInfoboxItem(infobox: BraveInfobox): InfoboxItem {
+  const attributes = (infobox.attributes || [])
+    .filter((pair): pair is [string, string] => typeof pair[0] === 'string' && typeof pair[1] === 'string' && pair[1] !== '')
+    .map(([label, value]) => ({ label, value }));
+  return definedOnly({
+    title: infobox.title || infobox.label || '',
+    url: infobox.url,
+    description: infobox.long_desc || infobox.description,
+    category: infobox.category,
+    attributes: attributes.length > 0 ? attributes : undefined,
+    website_url: infobox.website_url,
+  });
+}
+
+// Brave's top, main and side rankings flattened into one order, keeping only sections this server renders
+function toRanking(mixed: BraveMixed | undefined): SectionReference[] {
+  return [...(mixed?.top || []), ...(mixed?.main || []), ...(mixed?.side || [])]
+    .filter(reference => (WEB_SECTIONS as readonly string[]).includes(reference.type))
+    .map(reference => ({ section: reference.type as WebSection, ...(!reference.all && reference.index !== undefined ? { index: reference.index } : {}) }));
+}
+
+export function toWebSearchOutput(data: BraveWeb): WebSearchOutput {
+  const sections = {
+    infobox: data.infobox?.results?.map(toInfoboxItem),
+    faq: data.faq?.results?.map(({ question, answer, title, url }) => ({ question, answer, title: title || '', url: url || '' })),
+    discussions: data.discussions?.results?.map(result => definedOnly({
+      title: result.data?.title || result.title || '',
+      url: result.url || '',
+      description: result.description || '',
+      forum: result.data?.forum_name,
+      answers: result.data?.num_answers,
+      top_comment: result.data?.top_comment,
+    })),
+    news: data.news?.results?.map(toNewsItem),
+    videos: data.videos?.results?.map(toVideoItem),
+  };
+  const ranking = toRanking(data.mixed);
+  return {
+    ...(data.query ? { query: { original: data.query.original, ...(data.query.altered ? { altered: data.query.altered } : {}) } } : {}),
+    results: (data.web?.results || []).map(result => {
+      const sitelinks = (result.deep_results?.buttons || []).filter(button => button.url).map(({ title, url }) => ({ title: title || url, url }));
+      return {
+        title: result.title || '',
+        url: result.url || '',
+        description: result.description || '',
+        ...(result.extra_snippets?.length ? { extra_snippets: result.extra_snippets } : {}),
+        ...(sitelinks.length > 0 ? { sitelinks } : {}),
+      };
+    }),
+    ...Object.fromEntries(Object.entries(sections).filter(([, items]) => items?.length)),
+    ...(ranking.length > 0 ? { ranking } : {}),
+  };
+}
+
+/**
+ * Groups a web search's results in the order Brave ranked them, merging neighbours from the same
+ * section. Results the ranking doesn't mention follow in WEB_SECTIONS order, so nothing is lost.
+ */
+export function orderWebSections(output: WebSearchOutput): Array<{ section: WebSection; indexes: number[] }> {
+  const sizes: Record<WebSection, number> = {
+    web: output.results.length,
+    infobox: output.infobox?.length ?? 0,
+    faq: output.faq?.length ?? 0,
+    discussions: output.discussions?.length ?? 0,
+    news: output.news?.length ?? 0,
+    videos: output.videos?.length ?? 0,
+  };
+  const placed = new Set<string>();
+  const groups: Array<{ section: WebSection; indexes: number[] }> = [];
+  const place = (section: WebSection, indexes: number[]) => {
+    const fresh = indexes.filter(index => index < sizes[section] && !placed.has(`${section}:${index}`));
+    if (fresh.length === 0) return;
+    fresh.forEach(index => placed.add(`${section}:${index}`));
+    const last = groups[groups.length - 1];
+    if (last?.section === section) {
+      last.indexes.push(...fresh);
+    } else {
+      groups.push({ section, indexes: fresh });
+    }
+  };
+  const every = (section: WebSection) => Array.from({ length: sizes[section] }, (_, index) => index);
+
+  (output.ranking || []).forEach(({ section, index }) => place(section, index === undefined ? every(section) : [index]));
+  WEB_SECTIONS.forEach(section => place(section, every(section)));
+  return groups;
+}
+
+export function toDeepSearchOutput(data: BraveDeepSearchResponse): DeepSearchOutput {
+  return {
+    ...toWebSearchOutput({ query: data.query, web: { results: data.results } }),
+    pages_fetched: data.pages,
+    duplicates_removed: data.duplicates,
+    more_results_available: data.more_results_available,
+  };
+}
+
+export function toMultiSearchOutput(queries: string[], fused: FusedItem<BraveWebResult>[], failed: Array<{ query: string; error: string }> = []): MultiSearchOutput {
+  return {
+    queries,
+    results: fused.map(({ item, score, sources }) => ({
+      ...toWebSearchOutput({ web: { results: [item] } }).results[0],
+      score,
+      matched_queries: sources,
+    })),
+    ...(failed.length > 0 ? { failed_queries: failed } : {}),
+  };
+}
+
+// Evaluated in the place's own time zone when Brave reports one
+function openingStatusOf(poi: BraveLocation, now: Date, fallbackTimezone?: string): OpeningStatus | undefined {
+  const schedule = parseOpeningHours(poi.openingHours);
+  return schedule ? getOpeningStatus(schedule, now, poi.timezone || fallbackTimezone) : undefined;
+}
+
+export interface OpeningStatusOptions {
+  now?: Date; // Instant the hours are checked at
+  timezone?: string; // Used for places whose own time zone Brave doesn't report; the server's by default
+}
+
+export function toLocalSearchOutput(poisData: BravePoiResponse, descData: BraveDescription, hours: OpeningStatusOptions = {}): LocalSearchOutput {
+  const now = hours.now ?? new Date();
+  return {
+    places: (poisData.results || []).map(poi => {
+      const address = [
+        poi.address?.streetAddress,
+        poi.address?.addressLocality,
+        poi.address?.addressRegion,
+        poi.address?.postalCode
+      ].filter(Boolean).join(', ');
+      return {
+        id: poi.id,
+        name: poi.name || '',
+        address: address || undefined,
+        phone: poi.phone,
+        rating: poi.rating?.ratingValue,
+        rating_count: poi.rating?.ratingCount,
+        price_range: poi.priceRange,
+        opening_hours: poi.openingHours,
+        opening_status: openingStatusOf(poi, now, hours.timezone),
+        coordinates: poi.coordinates,
+        description: descData.descriptions[poi.id],
+      };
+    }),
+  };
+}
+
+export function toPoiDescriptionsOutput(descData: BraveDescription): PoiDescriptionsOutput {
+  return {
+    descriptions: Object.entries(descData.descriptions).map(([id, description]) => ({ id, description })),
+  };
+}
+
+export function toImageSearchOutput(data: BraveImageResponse): ImageSearchOutput {
+  return {
+    results: (data.results || []).map(result => ({
+      title: result.title || '',
+      page_url: result.url || '',
+      image_url: result.properties?.url,
+      thumbnail_url: result.thumbnail?.src,
+      width: result.properties?.width ?? result.thumbnail?.width,
+      height: result.properties?.height ?? result.thumbnail?.height,
+      source: result.source || result.meta_url?.hostname,
+    })),
+  };
+}
+
+function toVideoItem(result: BraveVideoResult): VideoResultItem {
+  return {
+    title: result.title || '',
+    url: result.url || '',
+    duration: result.video?.duration,
+    creator: result.video?.creator,
+    publisher: result.video?.publisher || result.meta_url?.hostname,
+    views: result.video?.views,
+    age: result.age,
+    thumbnail_url: result.thumbnail?.src,
+  };
+}
+
+export function toVideoSearchOutput(data: BraveVideoResponse): VideoSearchOutput {
+  return {
+    results: (data.results || []).map(toVideoItem),
+  };
+}
+
+function toNewsItem(result: BraveNewsResult): NewsResultItem {
+  return {
+    title: result.title || '',
+    url: result.url || '',
+    source: result.source || result.meta_url?.hostname,
+    published: result.page_age,
+    age: result.age,
+    description: result.description,
+    breaking: result.breaking === true,
+    thumbnail_url: result.thumbnail?.src,
+  };
+}
+
+export function toNewsSearchOutput(data: BraveNewsResponse): NewsSearchOutput {
+  return {
+    results: sortNewsByDate(data.results || []).map(toNewsItem),
+  };
+}
+
+export function toSuggestOutput(data: BraveSuggestResponse): SuggestOutput {
+  return {
+    query: data.query?.original || '',
+    suggestions: (data.results || []).map(result => ({
+      query: result.query,
+      is_entity: result.is_entity === true,
+      title: result.title,
+      description: result.description,
+      image_url: result.img,
+    })),
+  };
+}
+
+export function toSpellcheckOutput(data: BraveSpellcheckResponse): SpellcheckOutput {
+  const original = data.query?.original || '';
+  return {
+    query: original,
+    // Brave echoes the query back when there is nothing to correct
+    corrections: (data.results || []).map(result => result.query).filter(query => query && query !== original),
+  };
+}
+
+// Renders summary messages as text, turning inline references into [n] citation markers
+function summaryMessagesText(messages: BraveSummaryMessage[], cite: (url: string) => number): string {
+  return messages.map(message => {
+    switch (message.type) {
+      case 'token':
+        return message.data;
+      case 'enum_start':
+      case 'enum_end':
+        return '\n\n'; // Lists stand apart from the surrounding text
+      case 'enum_item':
+        return `\n- ${typeof message.data === 'string' ? message.data : message.data.name}`;
+      case 'inline_reference':
+        return ` [${cite(message.data.url)}]`;
+      default:
+        return '';
+    }
+  }).join('').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Numbers the pages Brave built the summary from, falling back to the web results when Brave
+ * names none. Pages that are referenced inline but not among them are appended.
+ */
+export function toSummaryOutput(query: string, data: BraveSummaryResponse, web: BraveWeb): SummaryOutput {
+  const sources = data.enrichments?.context?.length
+    ? data.enrichments.context
+    : (web.web?.results || []).map(result => ({ title: result.title, url: result.url }));
+  const citations: SummaryCitation[] = [];
+  const cite = (url: string, title = '') => {
+    const existing = citations.find(citation => citation.url === url);
+    if (existing) {
+      return existing.number;
+    }
+    citations.push({ number: citations.length + 1, title: title || url, url });
+    return citations.length;
+  };
+  sources.forEach(source => cite(source.url, source.title));
+
+  const summary = data.status === 'failed'
+    ? ''
+    : data.summary?.length ? summaryMessagesText(data.summary, cite) : data.enrichments?.raw?.trim() || '';
+  return {
+    query,
+    title: data.title,
+    summary,
+    citations,
+    ...(data.followups?.length ? { followups: data.followups } : {}),
+  };
+}
+
+export function toPageOutput(page: FetchedPage, chunk: PageChunk): PageOutput {
+  return {
+    url: page.url,
+    final_url: page.finalUrl,
+    ...(page.title ? { title: page.title } : {}),
+    content: chunk.content,
+    start: chunk.start,
+    end: chunk.end,
+    total_chars: page.content.length,
+    ...(chunk.nextCursor ? { next_cursor: chunk.nextCursor } : {}),
+    truncated: page.truncated,
+  };
+}
+
+// --- Markdown Rendering ---
+
+// Keeps titles containing brackets from breaking link syntax
+function linkText(text: string): string {
+  return text.replace(/([\[\]\\])/g, '\\$1');
+}
+
+function link(title: string, url: string): string {
+  return url ? `[${linkText(title || url)}](${url})` : linkText(title || 'Untitled');
+}
+
+// Renders "- **Label:** value" lines, skipping values that are missing
+function fieldList(fields: Array<[string, string | number | undefined]>): string {
+  return fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `- **${label}:** ${value}`)
+    .join('\n');
+}
+
+function joinSections(sections: string[]): string {
+  return sections.filter(Boolean).join('\n\n');
+}
+
+// Tells the reader when Brave searched for a corrected query instead of the one given
+export function alteredQueryNotice(query?: QueryInfo): string {
+  return query?.altered
+    ? `Showing results for "${query.altered}" instead of "${query.original}". Set spellcheck to false to search for the original query.`
+    : '';
+}
+
+// Headings for the sections of a web search, used once a response has more than web results
+export const WEB_SECTION_TITLES: Record<WebSection, string> = {
+  web: 'Web results',
+  infobox: 'Infobox',
+  faq: 'Frequently asked questions',
+  discussions: 'Discussions',
+  news: 'News',
+  videos: 'Videos',
+};
+
+function webResultMarkdown(result: WebResultItem): string {
+  return joinSections([
+    `### ${link(result.title, result.url)}`,
+    result.description,
+    (result.extra_snippets || []).map(snippet => `> ${snippet}`).join('\n>\n'),
+    (result.sitelinks || []).map(sitelink => `- ${link(sitelink.title, sitelink.url)}`).join('\n'),
+  ]);
+}
+
+const WEB_SECTION_MARKDOWN: { [S in WebSection]: (output: WebSearchOutput, index: number) => string } = {
+  web: (output, index) => webResultMarkdown(output.results[index]),
+  infobox: (output, index) => {
+    const infobox = output.infobox![index];
+    return joinSections([
+      `### ${link(infobox.title, infobox.url || '')}`,
+      infobox.category ? `*${infobox.category}*` : '',
+      infobox.description || '',
+      fieldList([...(infobox.attributes || []).map(({ label, value }): [string, string] => [label, value]), ['Website', infobox.website_url]]),
+    ]);
+  },
+  faq: (output, index) => {
+    const faq = output.faq![index];
+    return joinSections([`### ${linkText(faq.question)}`, faq.answer, `Source: ${link(faq.title, faq.url)}`]);
+  },
+  discussions: (output, index) => {
+    const discussion = output.discussions![index];
+    return joinSections([
+      `### ${link(discussion.title, discussion.url)}`,
+      fieldList([['Forum', discussion.forum], ['Answers', discussion.answers]]),
+      discussion.description,
+      discussion.top_comment ? `> ${discussion.top_comment}` : '',
+    ]);
+  },
+  news: (output, index) => newsItemMarkdown(output.news![index]),
+  videos: (output, index) => videoItemMarkdown(output.videos![index]),
+};
+
+export function webSearchMarkdown(output: WebSearchOutput): string {
+  const notice = alteredQueryNotice(output.query);
+  const groups = orderWebSections(output);
+  if (groups.length === 0) {
+    return joinSections([notice && `> ${notice}`, "No web results found."]);
+  }
+  const headed = groups.some(group => group.section !== 'web');
+  return joinSections([notice && `> ${notice}`, ...groups.map(({ section, indexes }) => joinSections([
+    headed ? `## ${WEB_SECTION_TITLES[section]}` : '',
+    ...indexes.map(index => WEB_SECTION_MARKDOWN[section](output, index)),
+  ]))]);
+}
+
+// One line on how the results were gathered, shared by the text and markdown renderings
+export function deepSearchSummary(output: DeepSearchOutput): string {
+  return `${output.results.length} results from ${output.pages_fetched} page(s), ${output.duplicates_removed} duplicate(s) removed` +
+    (output.more_results_available ? '. More results are available.' : '. No more results available.');
+}
+
+export function deepSearchMarkdown(output: DeepSearchOutput): string {
+  const numbered = output.results.map((result, index) => ({ ...result, title: `${index + 1}. ${result.title}` }));
+  return joinSections([
+    `*${deepSearchSummary(output)}*`,
+    webSearchMarkdown({ ...output, results: numbered }),
+  ]);
+}
+
+export function multiSearchMarkdown(output: MultiSearchOutput): string {
+  const failures = (output.failed_queries || []).map(({ query, error }) => `> Query "${query}" failed: ${error}`).join('\n>\n');
+  if (output.results.length === 0) {
+    return joinSections([failures, "No web results found."]);
+  }
+  return joinSections([
+    failures,
+    ...output.results.map((result, index) => joinSections([
+      `### ${index + 1}. ${link(result.title, result.url)}`,
+      result.description,
+      `*Matched: ${result.matched_queries.map(query => `"${query}"`).join(', ')}*`,
+    ])),
+  ]);
+}
+
+function placeCount(count: number): string {
+  return `${count} ${count === 1 ? 'place' : 'places'}`;
+}
+
+// Says how many places the filters dropped and which ones Brave failed to fully return, if any
+export function localResultsNotice(output: LocalSearchOutput): string | undefined {
+  const notices: string[] = [];
+  if (output.filtered_out) {
+    notices.push(output.places.length === 0
+      ? (output.filtered_out === 1 ? 'The one place found does not match the filters.' : `None of the ${output.filtered_out} places found match the filters.`)
+      : `${output.filtered_out} more ${output.filtered_out === 1 ? 'place was' : 'places were'} found but did not match the filters.`);
+  }
+  if (output.unavailable_details?.length) {
+    notices.push(`Details could not be fetched for ${placeCount(output.unavailable_details.length)} (${output.unavailable_details.join(', ')}).`);
+  }
+  if (output.unavailable_descriptions?.length) {
+    notices.push(`Descriptions could not be fetched for ${placeCount(output.unavailable_descriptions.length)}.`);
+  }
+  return notices.length > 0 ? notices.join(' ') : undefined;
+}
+
+export function localSearchMarkdown(output: LocalSearchOutput): string {
+  const notice = localResultsNotice(output);
+  if (output.places.length === 0) {
+    return output.web_results ? webSearchMarkdown({ results: output.web_results }) : notice ?? "No local results found.";
+  }
+  const places = output.places.map(place => joinSections([
+    `### ${linkText(place.name || 'Unnamed place')}`,
+    fieldList([
+      ['Address', place.address],
+      ['Phone', place.phone],
+      ['Rating', place.rating !== undefined ? `${place.rating} (${place.rating_count ?? 0} reviews)` : undefined],
+      ['Price range', place.price_range],
+      ['Hours', place.opening_hours?.join(', ')],
+      ['Status', place.opening_status?.summary],
+      ['Coordinates', place.coordinates ? `${place.coordinates.latitude}, ${place.coordinates.longitude}` : undefined],
+      ['Distance', place.distance_km !== undefined ? formatDistance(place.distance_km) : undefined],
+      ['ID', `\`${place.id}\``],
+    ]),
+    place.description || '',
+  ]));
+  return [...places, ...(notice ? [`*${notice}*`] : [])].join('\n\n');
+}
+
+export function poiDescriptionsMarkdown(output: PoiDescriptionsOutput): string {
+  if (output.descriptions.length === 0) {
+    return "No descriptions found for the provided IDs.";
+  }
+  return output.descriptions.map(({ id, description }) => `### \`${id}\`\n\n${description}`).join('\n\n');
+}
+
+export function imageSearchMarkdown(output: ImageSearchOutput): string {
+  if (output.results.length === 0) {
+    return "No image results found.";
+  }
+  return output.results.map(result => joinSections([
+    `### ${link(result.title, result.page_url)}`,
+    result.thumbnail_url ? `![${linkText(result.title)}](${result.thumbnail_url})` : '',
+    fieldList([
+      ['Image', result.image_url],
+      ['Dimensions', result.width && result.height ? `${result.width}x${result.height}` : undefined],
+      ['Source', result.source],
+    ]),
+  ])).join('\n\n');
+}
+
+function videoItemMarkdown(result: VideoResultItem): string {
+  return joinSections([
+    `### ${link(result.title, result.url)}`,
+    fieldList([
+      ['Duration', result.duration],
+      ['Creator', result.creator],
+      ['Publisher', result.publisher],
+      ['Views', result.views?.toLocaleString('en-US')],
+      ['Age', result.age],
+    ]),
+  ]);
+}
+
+export function videoSearchMarkdown(output: VideoSearchOutput): string {
+  if (output.results.length === 0) {
+    return "No video results found.";
+  }
+  return output.results.map(videoItemMarkdown).join('\n\n');
+}
+
+function newsItemMarkdown(result: NewsResultItem): string {
+  return joinSections([
+    `### ${result.breaking ? '**BREAKING** ' : ''}${link(result.title, result.url)}`,
+    fieldList([
+      ['Source', result.source],
+      ['Published', result.published ? `${result.published}${result.age ? ` (${result.age})` : ''}` : result.age],
+    ]),
+    result.description || '',
+  ]);
+}
+
+export function newsSearchMarkdown(output: NewsSearchOutput): string {
+  if (output.results.length === 0) {
+    return "No news results found.";
+  }
+  return output.results.map(newsItemMarkdown).join('\n\n');
+}
+
+export function suggestMarkdown(output: SuggestOutput): string {
+  if (output.suggestions.length === 0) {
+    return `No suggestions found for "${output.query}".`;
+  }
+  return output.suggestions.map(suggestion => {
+    const details = [suggestion.title, suggestion.description].filter(Boolean).join(' - ');
+    return `- ${linkText(suggestion.query)}${details ? ` (${details})` : ''}`;
+  }).join('\n');
+}
+
+export function spellcheckMarkdown(output: SpellcheckOutput): string {
+  if (output.corrections.length === 0) {
+    return `No spelling corrections for "${output.query}".`;
+  }
+  return `Did you mean:\n\n${output.corrections.map(correction => `- **${linkText(correction)}**`).join('\n')}`;
+}
+
+export function summaryMarkdown(output: SummaryOutput): string {
+  if (!output.summary) {
+    return `No summary available for "${output.query}".`;
+  }
+  return joinSections([
+    `### ${linkText(output.title || output.query)}`,
+    output.summary,
+    output.citations.length > 0
+      ? `#### Sources\n\n${output.citations.map(citation => `${citation.number}. ${link(citation.title, citation.url)}`).join('\n')}`
+      : '',
+    output.followups ? `#### Follow-up questions\n\n${output.followups.map(question => `- ${question}`).join('\n')}` : '',
+  ]);
+}
+
+// Tells the reader how to get the rest of a page, or that the page itself was cut off
+export function pageContinuationNotice(output: PageOutput): string {
+  return [
+    output.next_cursor ? `More content available. Call again with cursor "${output.next_cursor}" to continue.` : '',
+    output.truncated ? 'The page was larger than the download limit, so its end is missing.' : '',
+  ].filter(Boolean).join(' ');
+}
+
+export function pageMarkdown(output: PageOutput): string {
+  const notice = pageContinuationNotice(output);
+  return joinSections([
+    `### ${link(output.title || output.final_url, output.final_url)}`,
+    `*Characters ${output.start}-${output.end} of ${output.total_chars}*`,
+    output.content || '*No readable content found.*',
+    notice ? `---\n\n*${notice}*` : '',
+  ]);
+}
+
+export function quotaStatusMarkdown(status: QuotaStatusOutput): string {
+  const keyTable = status.keys.length > 1
+    ? [
+      '| Key | Status | Used | Remaining |',
+      '| --- | --- | --- | --- |',
+      ...status.keys.map(key => `| \`${key.key}\` | ${key.healthy ? 'Healthy' : `Cooling down until ${key.unhealthyUntil} (${key.lastErrorStatus})`} | ${key.quota.used} | ${key.quota.monthlyRemaining ?? 'Unknown'} |`),
+    ].join('\n')
+    : '';
+  return joinSections([
+    `### Brave Search API quota (${status.month})`,
+    fieldList([
+      ['Queries used by this server', status.used],
+      ['Monthly limit', status.monthlyLimit ?? 'Unknown'],
+      ['Monthly remaining', status.monthlyRemaining ?? 'Unknown'],
+      ['Resets at', status.monthlyResetAt ?? 'Unknown'],
+      ['Per-second limit', status.perSecondLimit ?? 'Unknown'],
+      ['Soft cap', status.softCap ? `${status.softCap} (${status.softCapRemaining} left)` : 'Disabled'],
+      ['Last updated', status.updatedAt ?? 'Never'],
+    ]),
+    keyTable,
+  ]);
+}
+
+// --- Output Schemas ---
+
+// JSON Schemas for the structured content above, declared as each tool's outputSchema
+
+const WEB_RESULT_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    description: { type: "string" },
+    extra_snippets: { type: "array", items: { type: "string" } },
+    sitelinks: {
+      type: "array",
+      description: "Links into the site",
+      items: { type: "object", properties: { title: { type: "string" }, url: { type: "string" } }, required: ["title", "url"] },
+    },
+  },
+  required: ["title", "url", "description"],
+};
+
+const QUERY_INFO_SCHEMA = {
+  type: "object",
+  properties: {
+    original: { type: "string" },
+    altered: { type: "string", description: "The spellchecked query Brave searched for instead of the original" },
+  },
+  required: ["original"],
+};
+
+const NEWS_RESULT_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    source: { type: "string" },
+    published: { type: "string", description: "ISO timestamp of publication" },
+    age: { type: "string" },
+    description: { type: "string" },
+    breaking: { type: "boolean" },
+    thumbnail_url: { type: "string" },
+  },
+  required: ["title", "url", "breaking"],
+};
+
+const VIDEO_RESULT_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    duration: { type: "string" },
+    creator: { type: "string" },
+    publisher: { type: "string" },
+    views: { type: "number" },
+    age: { type: "string" },
+    thumbnail_url: { type: "string" },
+  },
+  required: ["title", "url"],
+};
+
+export const WEB_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: QUERY_INFO_SCHEMA,
+    results: { type: "array", items: WEB_RESULT_ITEM_SCHEMA },
+    infobox: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          url: { type: "string" },
+          description: { type: "string" },
+          category: { type: "string" },
+          attributes: {
+            type: "array",
+            items: { type: "object", properties: { label: { type: "string" }, value: { type: "string" } }, required: ["label", "value"] },
+          },
+          website_url: { type: "string" },
+        },
+        required: ["title"],
+      },
+    },
+    faq: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          question: { type: "string" },
+          answer: { type: "string" },
+          title: { type: "string", description: "Title of the page the answer comes from" },
+          url: { type: "string" },
+        },
+        required: ["question", "answer", "title", "url"],
+      },
+    },
+    discussions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          url: { type: "string" },
+          description: { type: "string" },
+          forum: { type: "string" },
+          answers: { type: "number" },
+          top_comment: { type: "string" },
+        },
+        required: ["title", "url", "description"],
+      },
+    },
+    news: { type: "array", items: NEWS_RESULT_ITEM_SCHEMA },
+    videos: { type: "array", items: VIDEO_RESULT_ITEM_SCHEMA },
+    ranking: {
+      type: "array",
+      description: "Brave's order for the sections and results above; an entry without index stands for the whole section",
+      items: {
+        type: "object",
+        properties: {
+          section: { type: "string", enum: [...WEB_SECTIONS] },
+          index: { type: "number" },
+        },
+        required: ["section"],
+      },
+    },
+  },
+  required: ["results"],
+};
+
+export const DEEP_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: QUERY_INFO_SCHEMA,
+    results: { type: "array", items: WEB_RESULT_ITEM_SCHEMA },
+    pages_fetched: { type: "number", description: "Pages requested from Brave, each costing one query" },
+    duplicates_removed: { type: "number" },
+    more_results_available: { type: "boolean" },
+  },
+  required: ["results", "pages_fetched", "duplicates_removed", "more_results_available"],
+};
+
+export const MULTI_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    queries: { type: "array", items: { type: "string" } },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          ...WEB_RESULT_ITEM_SCHEMA.properties,
+          score: { type: "number", description: "Reciprocal rank fusion score across the queries" },
+          matched_queries: { type: "array", items: { type: "string" } },
+        },
+        required: [...WEB_RESULT_ITEM_SCHEMA.required, "score", "matched_queries"],
+      },
+    },
+    failed_queries: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { query: { type: "string" }, error: { type: "string" } },
+        required: ["query", "error"],
+      },
+    },
+  },
+  required: ["queries", "results"],
+};
+
+export const LOCAL_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    places: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Brave POI id, usable with brave_poi_details and brave_poi_descriptions" },
+          name: { type: "string" },
+          address: { type: "string" },
+          phone: { type: "string" },
+          rating: { type: "number" },
+          rating_count: { type: "number" },
+          price_range: { type: "string" },
+          opening_hours: { type: "array", items: { type: "string" } },
+          opening_status: {
+            type: "object",
+            description: "Open now or not, from the opening hours in the place's local time",
+            properties: {
+              open_now: { type: "boolean", description: "Unset when the hours don't cover today" },
+              closes_at: { type: "string", description: "ISO time the place next closes, if open" },
+              opens_at: { type: "string", description: "ISO time the place next opens, if closed" },
+              summary: { type: "string", description: "E.g. \"Open now, closes at 17:00\"" },
+            },
+            required: ["summary"],
+          },
+          coordinates: {
+            type: "object",
+            properties: { latitude: { type: "number" }, longitude: { type: "number" } },
+            required: ["latitude", "longitude"],
+          },
+          distance_km: { type: "number", description: "Great-circle distance from the origin in kilometres" },
+          description: { type: "string" },
+        },
+        required: ["id", "name"],
+      },
+    },
+    filtered_out: { type: "number", description: "Places found but dropped by the filters" },
+    unavailable_details: { type: "array", items: { type: "string" }, description: "Ids of places left out because their details could not be fetched" },
+    unavailable_descriptions: { type: "array", items: { type: "string" }, description: "Ids of places whose description could not be fetched" },
+    web_results: {
+      type: "array",
+      description: "Web results returned instead when no local places were found",
+      items: WEB_RESULT_ITEM_SCHEMA,
+    },
+  },
+  required: ["places"],
+};
+
+export const POI_DESCRIPTIONS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    descriptions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { id: { type: "string" }, description: { type: "string" } },
+        required: ["id", "description"],
+      },
+    },
+  },
+  required: ["descriptions"],
+};
+
+export const IMAGE_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          page_url: { type: "string" },
+          image_url: { type: "string" },
+          thumbnail_url: { type: "string" },
+          width: { type: "number" },
+          height: { type: "number" },
+          source: { type: "string" },
+        },
+        required: ["title", "page_url"],
+      },
+    },
+  },
+  required: ["results"],
+};
+
+export const VIDEO_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    results: { type: "array", items: VIDEO_RESULT_ITEM_SCHEMA },
+  },
+  required: ["results"],
+};
+
+export const NEWS_SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    results: { type: "array", items: NEWS_RESULT_ITEM_SCHEMA },
+  },
+  required: ["results"],
+};
+
+export const SUGGEST_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: { type: "string" },
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          is_entity: { type: "boolean" },
+          title: { type: "string" },
+          description: { type: "string" },
+          image_url: { type: "string" },
+        },
+        required: ["query", "is_entity"],
+      },
+    },
+  },
+  required: ["query", "suggestions"],
+};
+
+export const SPELLCHECK_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: { type: "string" },
+    corrections: { type: "array", items: { type: "string" }, description: "Corrected spellings of the query; empty when it is spelled correctly" },
+  },
+  required: ["query", "corrections"],
+};
+
+export const SUMMARY_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: { type: "string" },
+    title: { type: "string" },
+    summary: { type: "string", description: "Summary text with [n] markers referring to citations; empty when no summary is available" },
+    citations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          number: { type: "number" },
+          title: { type: "string" },
+          url: { type: "string" },
+        },
+        required: ["number", "title", "url"],
+      },
+    },
+    followups: { type: "array", items: { type: "string" } },
+  },
+  required: ["query", "summary", "citations"],
+};
+
+export const PAGE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    url: { type: "string" },
+    final_url: { type: "string", description: "URL the page was fetched from after redirects" },
+    title: { type: "string" },
+    content: { type: "string", description: "Markdown of this chunk of the page's main content" },
+    start: { type: "number" },
+    end: { type: "number" },
+    total_chars: { type: "number" },
+    next_cursor: { type: "string", description: "Cursor for the next chunk; absent when this is the last one" },
+    truncated: { type: "boolean", description: "Whether the page exceeded the download size limit" },
+  },
+  required: ["url", "final_url", "content", "start", "end", "total_chars", "truncated"],
+};
+
+export const QUOTA_STATUS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    month: { type: "string" },
+    used: { type: "number" },
+    monthlyLimit: { type: "number" },
+    monthlyRemaining: { type: "number" },
+    monthlyResetAt: { type: "string" },
+    perSecondLimit: { type: "number" },
+    softCap: { type: "number" },
+    softCapRemaining: { type: "number" },
+    updatedAt: { type: "string" },
+    keys: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Masked API key" },
+          healthy: { type: "boolean" },
+          unhealthyUntil: { type: "string" },
+          lastErrorStatus: { type: "number" },
+          quota: { type: "object" },
+        },
+        required: ["key", "healthy", "quota"],
+      },
+    },
+  },
+  required: ["month", "used", "keys"],
+};
@@ -0,0 +1,373 @@
+import dns from 'node:dns/promises';
+import net, { LookupFunction } from 'node:net';
+import { Agent, fetch as undiciFetch } from 'undici';
+import { ResponseCache } from './cache.js';
+import { parseHtml, htmlToMarkdown } from './html.js';
+import { extractReadableContent } from './readability.js';
+import { ALLOW_ALL, DISALLOW_ALL, RobotsRules, isPathAllowed, parseRobotsTxt } from './robots.js';
+
+// --- Page Fetching ---
+
+export interface PageFetcherOptions {
+  userAgent: string; // Sent with every request and matched against robots.txt groups
+  maxBytes: number; // Bodies are cut off beyond this size
+  timeoutMs: number; // For the whole fetch, redirects and robots.txt included
+  allowedDomains?: string[]; // When non-empty, only these domains and their subdomains may be fetched
+  deniedDomains?: string[]; // Never fetched, even when also allowed
+  allowPrivateNetworks?: boolean; // Whether hosts resolving to loopback, private or link-local addresses may be fetched
+  maxRedirects?: number; // Default 5
+  robotsTtlMs?: number; // How long a site's robots.txt is trusted (default 1 hour)
+  cacheMaxEntries?: number; // Fetched pages kept for paging through them with a cursor (default 50, 0 disables)
+  cacheTtlMs?: number; // Default 10 minutes
+  fetch?: typeof fetch; // Injectable for tests; replaces the connection-level private network check
+  lookup?: (hostname: string) => Promise<string[]>; // Resolves a host to its addresses, injectable for tests
+  now?: () => number; // Clock, injectable for tests
+}
+
+export interface FetchedPage {
+  url: string; // As requested
+  finalUrl: string; // After redirects
+  title?: string;
+  content: string; // Markdown for HTML pages, the body as-is for other text
+  contentType: string;
+  truncated: boolean; // Whether the body was longer than maxBytes
+}
+
+export type PageFetchFailure = 'invalid_url' | 'blocked' | 'robots' | 'timeout' | 'http' | 'unsupported' | 'network';
+
+export class PageFetchError extends Error {
+  constructor(message: string, public reason: PageFetchFailure, public status?: number) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_ROBOTS_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_MAX_REDIRECTS = 5; // RFC 9309 asks crawlers to follow at least five
+const ROBOTS_MAX_BYTES = 512 * 1024; // RFC 9309 asks crawlers to read at least 500 KiB
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript'];
+
+async function defaultLookup(hostname: string): Promise<string[]> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  return addresses.map(entry => entry.address);
+}
+
+// Loopback, private, link-local, carrier-grade NAT and unspecified addresses, for both IP versions.
+// BlockList compares bytes, so any spelling of an address matches, and it checks IPv4-mapped IPv6
+// addresses (::ffff:7f00:1 is 127.0.0.1) against the IPv4 ranges. A ::ffff:0:0/96 rule would
+// match every IPv4 address for the same reason.
+const PRIVATE_ADDRESSES = new net.BlockList();
+([['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const)
+  .forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const)
+  .forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+function isPrivateAddress(address: string): boolean {
+  const version = net.isIP(address);
+  // Anything that isn't a plain address can't be checked, so it is treated as private
+  return version === 0 || PRIVATE_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+// fetch wraps errors from connecting in a TypeError; this finds a refusal from the private network check
+function blockedConnection(error: unknown): PageFetchError | undefined {
+  const cause = (error as { cause?: unknown } | undefined)?.cause;
+  return cause instanceof PageFetchError ? cause : undefined;
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*?\./, '');
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+function mediaType(contentType: string | null): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+// Picks the charset from the Content-Type header or a <meta> tag near the start, defaulting to UTF-8
+function decodeBody(bytes: Uint8Array, contentType: string | null): string {
+  const fromHeader = /charset=["']?([\w-]+)/i.exec(contentType || '')?.[1];
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  const fromMeta = /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1];
+  try {
+    return new TextDecoder(fromHeader || fromMeta || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes); // Unknown charset label
+  }
+}
+
+// Reads at most maxBytes of the body, cancelling the rest of the download
+async function readBody(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { bytes: bytes.subarray(0, maxBytes), truncated: bytes.length > maxBytes };
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+    if (size > maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return { bytes: bytes.subarray(0, maxBytes), truncated };
+}
+
+/**
+ * Fetches web pages for reading: checks the domain lists, refuses private addresses, obeys
+ * robots.txt and follows redirects itself so every hop gets the same checks. HTML is reduced to
+ * its main content and converted to markdown. Pages are cached briefly so that reading one in
+ * chunks fetches it only once.
+ */
+export class PageFetcher {
+  private readonly fetch: typeof fetch;
+  private readonly lookup: (hostname: string) => Promise<string[]>;
+  private readonly now: () => number;
+  private readonly robots = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+  private readonly pages: ResponseCache;
+
+  constructor(private readonly options: PageFetcherOptions) {
+    this.lookup = options.lookup ?? defaultLookup;
+    this.fetch = options.fetch ?? this.createFetch();
+    this.now = options.now ?? Date.now;
+    this.pages = new ResponseCache({
+      maxEntries: options.cacheMaxEntries ?? 50,
+      defaultTtlMs: options.cacheTtlMs ?? 10 * 60 * 1000,
+      now: this.now,
+    });
+  }
+
+  // Checking a host's addresses before fetching isn't enough: the fetch would resolve the name again,
+  // and a rebinding DNS server can answer with a private address the second time. So connections
+  // are made only to addresses that passed the check, resolved once, at connect time.
+  private createFetch(): typeof fetch {
+    if (this.options.allowPrivateNetworks) {
+      return (input, init) => fetch(input, init);
+    }
+    const lookup: LookupFunction = (hostname, options, callback) => {
+      this.lookup(hostname).then(addresses => {
+        const usable = addresses.filter(address => net.isIP(address));
+        if (usable.length === 0 || usable.some(isPrivateAddress)) {
+          throw new PageFetchError(`${hostname} resolves to a private network address`, 'blocked');
+        }
+        const entries = usable.map(address => ({ address, family: net.isIP(address) }));
+        if (options.all) {
+          callback(null, entries);
+        } else {
+          callback(null, entries[0].address, entries[0].family);
+        }
+      }).catch(error => callback(error, '', 0));
+    };
+    const dispatcher = new Agent({ connect: { lookup } });
+    return ((input: string | URL, init?: RequestInit) => undiciFetch(input, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1])) as unknown as typeof fetch;
+  }
+
+  async fetchPage(url: string, noCache: boolean = false): Promise<FetchedPage> {
+    if (!noCache) {
+      const cached = this.pages.get<FetchedPage>(url);
+      if (cached) return cached;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    try {
+      const page = await this.fetchFollowingRedirects(url, controller.signal);
+      this.pages.set(url, 'page', page);
+      return page;
+    } catch (error) {
+      if (error instanceof PageFetchError) throw error;
+      const blocked = blockedConnection(error);
+      if (blocked) throw blocked;
+      if (controller.signal.aborted) {
+        throw new PageFetchError(`Timed out after ${this.options.timeoutMs}ms fetching ${url}`, 'timeout');
+      }
+      throw new PageFetchError(`Network error fetching ${url}: ${error instanceof Error ? error.message : String(error)}`, 'network');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async fetchFollowingRedirects(url: string, signal: AbortSignal): Promise<FetchedPage> {
+    const maxRedirects = this.options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    let current = this.parseUrl(url);
+
+    for (let redirects = 0; ; redirects++) {
+      await this.checkAllowed(current, signal);
+      const response = await this.fetch(current, {
+        headers: { 'User-Agent': this.options.userAgent, 'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5' },
+        redirect: 'manual',
+        signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= maxRedirects) {
+          throw new PageFetchError(`Too many redirects fetching ${url}`, 'http', response.status);
+        }
+        current = this.parseUrl(new URL(location, current).toString());
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new PageFetchError(`HTTP ${response.status} fetching ${current.toString()}`, 'http', response.status);
+      }
+      return this.readPage(url, current, response);
+    }
+  }
+
+  private parseUrl(url: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new PageFetchError(`Not a valid URL: ${url}`, 'invalid_url');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new PageFetchError(`Only http and https URLs can be fetched: ${url}`, 'invalid_url');
+    }
+    return parsed;
+  }
+
+  private async checkAllowed(url: URL, signal: AbortSignal): Promise<void> {
+    await this.checkHost(url);
+    const robots = await this.robotsFor(url, signal);
+    if (!isPathAllowed(robots, `${url.pathname}${url.search}`)) {
+      throw new PageFetchError(`robots.txt of ${url.host} does not allow fetching ${url.pathname}`, 'robots');
+    }
+  }
+
+  // The domain lists and the private network check, without robots.txt
+  private async checkHost(url: URL): Promise<void> {
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if ((this.options.deniedDomains ?? []).some(domain => matchesDomain(hostname, domain))) {
+      throw new PageFetchError(`Fetching from ${hostname} is denied by the server configuration`, 'blocked');
+    }
+    const allowed = this.options.allowedDomains ?? [];
+    if (allowed.length > 0 && !allowed.some(domain => matchesDomain(hostname, domain))) {
+      throw new PageFetchError(`${hostname} is not in the list of allowed domains`, 'blocked');
+    }
+    if (!this.options.allowPrivateNetworks) {
+      const addresses = net.isIP(hostname) ? [hostname] : await this.lookup(hostname);
+      if (addresses.some(isPrivateAddress)) {
+        throw new PageFetchError(`${hostname} resolves to a private network address`, 'blocked');
+      }
+    }
+  }
+
+  // Follows up to five redirects, as RFC 9309 allows, checking each hop like a page fetch
+  private async fetchRobotsTxt(url: URL, signal: AbortSignal): Promise<Response> {
+    let current = new URL('/robots.txt', url.origin);
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.fetch(current, {
+        headers: { 'User-Agent': this.options.userAgent },
+        redirect: 'manual',
+        signal,
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (redirects >= ROBOTS_MAX_REDIRECTS) {
+        throw new PageFetchError(`Too many redirects fetching ${url.origin}/robots.txt`, 'http', response.status);
+      }
+      current = this.parseUrl(new URL(location, current).toString());
+      await this.checkHost(current);
+    }
+  }
+
+  // Unreadable robots.txt files are handled per RFC 9309: a 4xx means no rules, anything else means
+  // stay out. That includes redirects to hosts that may not be fetched.
+  private async robotsFor(url: URL, signal: AbortSignal): Promise<RobotsRules> {
+    const cached = this.robots.get(url.origin);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.rules;
+    }
+
+    let rules: RobotsRules;
+    try {
+      const response = await this.fetchRobotsTxt(url, signal);
+      if (response.ok) {
+        const { bytes } = await readBody(response, ROBOTS_MAX_BYTES);
+        rules = parseRobotsTxt(new TextDecoder('utf-8').decode(bytes), this.options.userAgent);
+      } else {
+        await response.body?.cancel();
+        rules = response.status >= 400 && response.status < 500 ? ALLOW_ALL : DISALLOW_ALL;
+      }
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const blocked = blockedConnection(error);
+      if (blocked) throw blocked;
+      rules = DISALLOW_ALL;
+    }
+    this.robots.set(url.origin, { rules, expiresAt: this.now() + (this.options.robotsTtlMs ?? DEFAULT_ROBOTS_TTL_MS) });
+    return rules;
+  }
+
+  private async readPage(url: string, finalUrl: URL, response: Response): Promise<FetchedPage> {
+    const contentType = response.headers.get('content-type');
+    const type = mediaType(contentType);
+    const isHtml = !type || HTML_TYPES.includes(type);
+    if (!isHtml && !type.startsWith('text/') && !TEXT_TYPES.includes(type)) {
+      await response.body?.cancel();
+      throw new PageFetchError(`Cannot extract text from ${type} content at ${finalUrl.toString()}`, 'unsupported');
+    }
+
+    const { bytes, truncated } = await readBody(response, this.options.maxBytes);
+    const body = decodeBody(bytes, contentType);
+    const page = { url, finalUrl: finalUrl.toString(), contentType: type || 'text/html', truncated };
+    if (!isHtml) {
+      return { ...page, content: body.trim() };
+    }
+    const { title, content } = extractReadableContent(parseHtml(body));
+    return { ...page, title, content: htmlToMarkdown(content, finalUrl.toString()) };
+  }
+}
+
+// --- Chunking ---
+
+export interface PageChunk {
+  content: string;
+  start: number; // Offset of the first character in the whole content
+  end: number; // Offset just past the last character
+  nextCursor?: string; // Present while content remains
+}
+
+/**
+ * Cuts up to `maxChars` characters out of `content` starting at the offset `cursor` holds,
+ * ending at a paragraph, line or word break when one falls in the second half of the chunk.
+ */
+export function takeChunk(content: string, maxChars: number, cursor?: string): PageChunk {
+  const start = Math.min(Math.max(0, Number(cursor) || 0), content.length);
+  let end = Math.min(content.length, start + maxChars);
+  if (end < content.length) {
+    const window = content.slice(start, end);
+    const minEnd = Math.floor(window.length / 2);
+    const separator = ['\n\n', '\n', ' '].find(candidate => window.lastIndexOf(candidate) > minEnd);
+    if (separator) {
+      end = start + window.lastIndexOf(separator) + separator.length;
+    }
+  }
+  return {
+    content: content.slice(start, end).trim(),
+    start,
+    end,
+    nextCursor: end < content.length ? String(end) : undefined,
+  };
+}
@@ -0,0 +1,124 @@
+import type { PlaceItem } from './output.js';
+
+// --- Place Export ---
+
+export const EXPORT_FORMATS = ['geojson', 'kml', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportedPlaces {
+  format: ExportFormat;
+  mimeType: string;
+  content: string;
+  missing_coordinates: Array<{ id: string; name: string }>; // Exported without a location
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+};
+
+// The place fields every format carries, in column order
+function placeProperties(place: PlaceItem): Record<string, string | number | undefined> {
+  return {
+    id: place.id,
+    name: place.name,
+    address: place.address,
+    phone: place.phone,
+    rating: place.rating,
+    rating_count: place.rating_count,
+    price_range: place.price_range,
+    opening_hours: place.opening_hours?.join('; '),
+    open_now: place.opening_status?.summary,
+    distance_km: place.distance_km,
+    description: place.description,
+  };
+}
+
+function withoutEmpty<T extends object>(object: T): Partial<T> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined && value !== '')) as Partial<T>;
+}
+
+// Places without coordinates become features with a null geometry, which RFC 7946 allows
+function toGeoJson(places: PlaceItem[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: places.map(place => ({
+      type: 'Feature',
+      id: place.id,
+      geometry: place.coordinates ? { type: 'Point', coordinates: [place.coordinates.longitude, place.coordinates.latitude] } : null,
+      properties: withoutEmpty(placeProperties(place)),
+    })),
+  }, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[char]!);
+}
+
+// Placemarks without coordinates are kept, just without a Point
+function toKml(places: PlaceItem[]): string {
+  const placemarks = places.map(place => {
+    const { name, description, ...data } = withoutEmpty(placeProperties(place));
+    return [
+      `    <Placemark id="${escapeXml(place.id)}">`,
+      `      <name>${escapeXml(String(name ?? ''))}</name>`,
+      ...(description ? [`      <description>${escapeXml(String(description))}</description>`] : []),
+      '      <ExtendedData>',
+      ...Object.entries(data).map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`),
+      '      </ExtendedData>',
+      ...(place.coordinates ? [`      <Point><coordinates>${place.coordinates.longitude},${place.coordinates.latitude}</coordinates></Point>`] : []),
+      '    </Placemark>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Places without coordinates get empty latitude and longitude cells
+function csvRow(place: PlaceItem): Record<string, string | number | undefined> {
+  const { id, name, ...rest } = placeProperties(place);
+  return { id, name, latitude: place.coordinates?.latitude, longitude: place.coordinates?.longitude, ...rest };
+}
+
+function toCsv(places: PlaceItem[]): string {
+  const header = Object.keys(csvRow({ id: '', name: '' }));
+  const rows = places.map(place => Object.values(csvRow(place)));
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const EXPORTERS: Record<ExportFormat, (places: PlaceItem[]) => string> = {
+  geojson: toGeoJson,
+  kml: toKml,
+  csv: toCsv,
+};
+
+/** Exports places for mapping tools. No place is dropped; those without coordinates are listed. */
+export function exportPlaces(places: PlaceItem[], format: ExportFormat): ExportedPlaces {
+  return {
+    format,
+    mimeType: MIME_TYPES[format],
+    content: EXPORTERS[format](places),
+    missing_coordinates: places.filter(place => !place.coordinates).map(({ id, name }) => ({ id, name })),
+  };
+}
+
+// Says which places were exported without a location, if any
+export function missingCoordinatesNotice(exported: ExportedPlaces): string | undefined {
+  const missing = exported.missing_coordinates;
+  if (missing.length === 0) return undefined;
+  const list = missing.map(place => `${place.name || 'Unnamed place'} (${place.id})`).join(', ');
+  return `${missing.length} of the exported places ${missing.length === 1 ? 'has' : 'have'} no coordinates and cannot be placed on a map: ${list}`;
+}
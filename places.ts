@@ -0,0 +1,84 @@
+import type { PlaceItem } from './output.js';
+
+// --- Local Result Filtering ---
+
+export const PLACE_SORT_ORDERS = ['relevance', 'distance', 'rating', 'review_count'] as const;
+export type PlaceSortOrder = typeof PLACE_SORT_ORDERS[number];
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PlaceFilterOptions {
+  origin?: Coordinates; // Distances are measured from here
+  sort_by?: PlaceSortOrder; // Default relevance, Brave's own order
+  min_rating?: number;
+  max_price_range?: number; // Number of currency symbols, "$$" = 2
+  open_now?: boolean; // Judged by each place's opening_status
+}
+
+export interface FilteredPlaces {
+  places: PlaceItem[];
+  filtered_out: number; // Places dropped by the filters, including those missing the data to check
+}
+
+const EARTH_RADIUS_KM = 6371.0088; // Mean radius
+
+/** Great-circle distance in kilometres, by the haversine formula. */
+export function haversineDistanceKm(from: Coordinates, to: Coordinates): number {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(to.latitude - from.latitude);
+  const dLon = radians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Price level of a range like "$$" or "€€€"; undefined for anything else. */
+export function priceLevel(priceRange: string | undefined): number | undefined {
+  const match = /^(\D)\1*$/.exec(priceRange?.trim() ?? '');
+  return match ? match[0].length : undefined;
+}
+
+// Places missing the value to sort by go last; ties keep Brave's order, as Array.sort is stable
+function compareDescending(a: number | undefined, b: number | undefined): number {
+  return (b ?? -Infinity) - (a ?? -Infinity);
+}
+
+const SORTERS: Record<PlaceSortOrder, ((a: PlaceItem, b: PlaceItem) => number) | undefined> = {
+  relevance: undefined,
+  distance: (a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity),
+  rating: (a, b) => compareDescending(a.rating, b.rating),
+  review_count: (a, b) => compareDescending(a.rating_count, b.rating_count),
+};
+
+/**
+ * Adds distances from the origin, drops places that don't pass the filters and sorts the rest.
+ * A place that lacks the data a filter needs (no rating, unreadable hours) is dropped rather
+ * than guessed about.
+ */
+export function filterAndSortPlaces(places: PlaceItem[], options: PlaceFilterOptions = {}): FilteredPlaces {
+  const { origin, min_rating, max_price_range, open_now } = options;
+
+  const measured = places.map(place => origin && place.coordinates
+    ? { ...place, distance_km: Math.round(haversineDistanceKm(origin, place.coordinates) * 100) / 100 }
+    : place);
+  const kept = measured.filter(place => {
+    if (min_rating !== undefined && !(place.rating !== undefined && place.rating >= min_rating)) return false;
+    if (max_price_range !== undefined) {
+      const level = priceLevel(place.price_range);
+      if (level === undefined || level > max_price_range) return false;
+    }
+    // Readable hours are needed, but places whose hours don't cover today are kept as they may well be open
+    if (open_now && (!place.opening_status || place.opening_status.open_now === false)) return false;
+    return true;
+  });
+
+  const sorter = SORTERS[options.sort_by ?? 'relevance'];
+  return { places: sorter ? [...kept].sort(sorter) : kept, filtered_out: places.length - kept.length };
+}
+
+/** Human-readable distance, "850 m" or "3.2 km". */
+export function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
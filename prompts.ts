@@ -0,0 +1,146 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import {
+  WEB_SEARCH_TOOL,
+  MULTI_SEARCH_TOOL,
+  LOCAL_SEARCH_TOOL,
+  BRAVE_POI_DETAILS_TOOL,
+  NEWS_SEARCH_TOOL,
+  SUMMARIZE_TOOL,
+  FETCH_PAGE_TOOL
+} from './tools.js';
+
+// --- Prompt Templates ---
+
+// Prompts are picked from the client UI by people who don't know the tools, so each one spells
+// out which brave_* tools to call and in what order. All prompt arguments arrive as strings.
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptTemplate {
+  prompt: Prompt;
+  render: (args: PromptArgs) => string;
+}
+
+// Plain words for the freshness codes, so users don't have to know "pw" means past week
+const RECENCY_FRESHNESS: Record<string, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+
+function readRecency(args: PromptArgs): string | undefined {
+  const recency = args.recency?.trim().toLowerCase();
+  if (!recency) return undefined;
+  const freshness = RECENCY_FRESHNESS[recency];
+  if (!freshness) {
+    throw new Error(`Invalid recency "${args.recency}". Use one of: ${Object.keys(RECENCY_FRESHNESS).join(', ')}.`);
+  }
+  return freshness;
+}
+
+const RESEARCH_TOPIC_PROMPT: PromptTemplate = {
+  prompt: {
+    name: "research_topic",
+    title: "Research a topic",
+    description: "Research a topic with web and news searches and write a cited overview",
+    arguments: [
+      { name: "topic", description: "What to research", required: true },
+      { name: "focus", description: "Aspect to concentrate on, e.g. \"costs\" or \"recent regulation\"" },
+      { name: "recency", description: "Only use news from the past day, week, month or year" },
+    ],
+  },
+  render: args => {
+    const freshness = readRecency(args);
+    return [
+      `Research this topic and write an overview: ${args.topic}`,
+      ...(args.focus ? [`Concentrate on: ${args.focus}`] : []),
+      '',
+      'Work through these steps:',
+      `1. Call ${WEB_SEARCH_TOOL.name} with a clear query for the topic to find background and authoritative sources.`,
+      `2. Call ${NEWS_SEARCH_TOOL.name} for recent developments${freshness ? ` with freshness "${freshness}"` : ''}.`,
+      `3. If a result looks central but its snippet is too thin, read it with ${FETCH_PAGE_TOOL.name}.`,
+      `4. Optionally call ${SUMMARIZE_TOOL.name} for a quick cross-check of the main facts.`,
+      '',
+      'Then write the overview:',
+      '- Start with a short summary, then cover the main points, then recent developments.',
+      '- Cite every factual statement with a numbered reference like [1], and list the sources with their URLs at the end.',
+      '- Point out where sources disagree or where information may be out of date.',
+      '- Only state what the sources support; say so when something could not be found.',
+    ].join('\n');
+  },
+};
+
+const FIND_LOCAL_BUSINESS_PROMPT: PromptTemplate = {
+  prompt: {
+    name: "find_local_business",
+    title: "Find a local business",
+    description: "Find local businesses and compare their ratings, opening hours and prices",
+    arguments: [
+      { name: "what", description: "Kind of business, e.g. \"vegan restaurant\" or \"bike repair\"", required: true },
+      { name: "location", description: "City, neighborhood or address to search near", required: true },
+      { name: "preferences", description: "What matters most, e.g. \"open late, cheap, good reviews\"" },
+    ],
+  },
+  render: args => [
+    `Find ${args.what} near ${args.location} and help me choose one.`,
+    ...(args.preferences ? [`What matters most to me: ${args.preferences}`] : []),
+    '',
+    'Work through these steps:',
+    `1. Call ${LOCAL_SEARCH_TOOL.name} with the query "${args.what} in ${args.location}".`,
+    `2. If some places are missing hours, ratings or prices, call ${BRAVE_POI_DETAILS_TOOL.name} with their ids.`,
+    `3. If local search returns no places, fall back to ${WEB_SEARCH_TOOL.name} and look for listings and review sites.`,
+    '',
+    'Then compare the places in a table with: name, rating and number of reviews, price range, opening hours, address and phone.',
+    'Recommend the best two or three for my preferences and say why. Mention any that are closed now or lack reviews.',
+    'Do not make up ratings, hours or prices that the results do not contain; leave them blank instead.',
+  ].join('\n'),
+};
+
+const FACT_CHECK_CLAIM_PROMPT: PromptTemplate = {
+  prompt: {
+    name: "fact_check_claim",
+    title: "Fact-check a claim",
+    description: "Check a claim against several independent sources and weigh the evidence",
+    arguments: [
+      { name: "claim", description: "The statement to check", required: true },
+      { name: "context", description: "Where the claim came from or what it refers to" },
+    ],
+  },
+  render: args => [
+    `Fact-check this claim: "${args.claim}"`,
+    ...(args.context ? [`Context: ${args.context}`] : []),
+    '',
+    'Work through these steps:',
+    `1. Call ${MULTI_SEARCH_TOOL.name} with three to five differently worded queries: the claim itself, a neutral question about it, and queries that would find evidence against it or a fact-check of it.`,
+    `2. Call ${NEWS_SEARCH_TOOL.name} if the claim is about recent events.`,
+    `3. Read the most important primary sources with ${FETCH_PAGE_TOOL.name} rather than relying on snippets.`,
+    '',
+    'Then give your verdict:',
+    '- Rate the claim as true, mostly true, mixed, mostly false, false or unverifiable.',
+    '- Contrast the sources that support the claim with those that contradict it, and note how independent and reliable each one is.',
+    '- Cite every source with a numbered reference like [1] and list the URLs at the end.',
+    '- Say clearly when the evidence is thin or the sources only repeat each other.',
+  ].join('\n'),
+};
+
+const PROMPT_TEMPLATES = [RESEARCH_TOPIC_PROMPT, FIND_LOCAL_BUSINESS_PROMPT, FACT_CHECK_CLAIM_PROMPT];
+
+export const ALL_PROMPTS: Prompt[] = PROMPT_TEMPLATES.map(template => template.prompt);
+
+/**
+ * Expands a prompt into the messages sent to the model. Throws for unknown prompts and for
+ * missing or invalid arguments.
+ */
+export function getPromptMessages(name: string, args: PromptArgs = {}): GetPromptResult {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.prompt.name === name);
+  if (!template) {
+    throw new Error(`Unknown prompt requested: ${name}`);
+  }
+  const missing = (template.prompt.arguments ?? [])
+    .filter(argument => argument.required && !args[argument.name]?.trim())
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments for prompt "${name}": ${missing.join(', ')}`);
+  }
+  const trimmed = Object.fromEntries(Object.entries(args).map(([key, value]) => [key, value?.trim()]));
+  return {
+    description: template.prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: template.render(trimmed) } }],
+  };
+}
@@ -0,0 +1,162 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// --- Quota Tracking ---
+
+export interface QuotaTrackerOptions {
+  filePath?: string; // JSON file the monthly usage is persisted to, undefined keeps it in memory only
+  softCap?: number; // Refuse new requests once this many have been used in the month, 0 or undefined disables
+  now?: () => number; // Clock, injectable for tests
+}
+
+export interface QuotaStatus {
+  month: string; // UTC month the counters apply to, e.g. "2024-05"
+  used: number; // Requests this server has made successfully this month
+  monthlyLimit?: number; // From X-RateLimit-Limit
+  monthlyRemaining?: number; // From X-RateLimit-Remaining
+  monthlyResetAt?: string; // ISO time the monthly window resets, from X-RateLimit-Reset
+  perSecondLimit?: number;
+  softCap?: number;
+  softCapRemaining?: number; // Queries left before the soft cap refuses requests
+  updatedAt?: string; // Last time Brave reported rate-limit headers
+}
+
+// Persisted subset of the status; the soft cap always comes from configuration
+type StoredQuota = Omit<QuotaStatus, 'softCap' | 'softCapRemaining'>;
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Minimal view of the fetch Headers object, so mocked responses without headers are accepted
+export interface HeaderSource {
+  get(name: string): string | null;
+}
+
+function monthKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+// Brave sends one comma-separated value per policy window, per-second first and per-month last
+function parseHeaderValues(value: string | null): number[] {
+  if (!value) return [];
+  return value.split(',').map(part => Number(part.trim())).filter(n => !isNaN(n));
+}
+
+export class QuotaTracker {
+  private readonly now: () => number;
+  private state?: StoredQuota;
+  private warnedAboutFile = false;
+
+  constructor(private readonly options: QuotaTrackerOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Records a completed request and the rate-limit headers Brave sent with it. */
+  recordResponse(headers: HeaderSource | undefined, succeeded: boolean): void {
+    const state = this.current();
+    if (succeeded) {
+      state.used++;
+    }
+
+    const limits = parseHeaderValues(headers?.get('X-RateLimit-Limit') ?? null);
+    const remaining = parseHeaderValues(headers?.get('X-RateLimit-Remaining') ?? null);
+    const resets = parseHeaderValues(headers?.get('X-RateLimit-Reset') ?? null);
+    if (limits.length > 1) {
+      state.perSecondLimit = limits[0];
+    }
+    if (limits.length > 0) {
+      state.monthlyLimit = limits[limits.length - 1];
+    }
+    if (remaining.length > 0) {
+      state.monthlyRemaining = remaining[remaining.length - 1];
+    }
+    if (resets.length > 0) {
+      state.monthlyResetAt = new Date(this.now() + resets[resets.length - 1] * 1000).toISOString();
+    }
+    if (limits.length > 0 || remaining.length > 0 || resets.length > 0) {
+      state.updatedAt = new Date(this.now()).toISOString();
+    }
+
+    this.save();
+  }
+
+  /** Throws QuotaExceededError if the configured soft cap has been reached. */
+  checkSoftCap(): void {
+    const softCap = this.options.softCap ?? 0;
+    if (softCap <= 0) return;
+
+    const used = this.effectiveUsage();
+    if (used >= softCap) {
+      const status = this.status();
+      const resets = status.monthlyResetAt ? ` Quota resets at ${status.monthlyResetAt}.` : '';
+      throw new QuotaExceededError(
+        `Monthly quota soft cap reached: ${used} of ${softCap} allowed queries used this month.${resets} ` +
+        `Raise BRAVE_QUOTA_SOFT_CAP to continue.`
+      );
+    }
+  }
+
+  status(): QuotaStatus {
+    const softCap = this.options.softCap || undefined;
+    return {
+      ...this.current(),
+      softCap,
+      softCapRemaining: softCap ? Math.max(0, softCap - this.effectiveUsage()) : undefined,
+    };
+  }
+
+  // Brave's own count also includes requests made by other clients sharing the key
+  private effectiveUsage(): number {
+    const state = this.current();
+    const reported = state.monthlyLimit !== undefined && state.monthlyRemaining !== undefined
+      ? state.monthlyLimit - state.monthlyRemaining
+      : 0;
+    return Math.max(state.used, reported);
+  }
+
+  // Returns the state for the current month, loading it from disk on first use
+  private current(): StoredQuota {
+    const month = monthKey(this.now());
+    if (!this.state) {
+      this.state = this.load();
+    }
+    if (this.state.month !== month) {
+      this.state = { month, used: 0 };
+    }
+    return this.state;
+  }
+
+  private load(): StoredQuota {
+    const month = monthKey(this.now());
+    if (!this.options.filePath || !fs.existsSync(this.options.filePath)) {
+      return { month, used: 0 };
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.options.filePath, 'utf8')) as StoredQuota;
+      if (typeof stored.month === 'string' && typeof stored.used === 'number') {
+        return stored;
+      }
+    } catch (error) {
+      console.error(`Could not read quota file ${this.options.filePath}, starting from zero:`, error);
+    }
+    return { month, used: 0 };
+  }
+
+  private save(): void {
+    if (!this.options.filePath || !this.state) return;
+    try {
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      fs.writeFileSync(this.options.filePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      // Losing persistence should never fail a search, so only complain once
+      if (!this.warnedAboutFile) {
+        console.error(`Could not write quota file ${this.options.filePath}:`, error);
+        this.warnedAboutFile = true;
+      }
+    }
+  }
+}
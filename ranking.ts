@@ -0,0 +1,53 @@
+// --- Reciprocal Rank Fusion ---
+
+// The constant from Cormack et al.; damps the advantage of top ranks so agreement between lists counts more
+export const RRF_K = 60;
+
+export interface RankedList<T> {
+  source: string; // What produced the list, e.g. the query
+  items: T[]; // Best first
+}
+
+export interface FusedItem<T> {
+  item: T; // The occurrence with the best rank
+  score: number;
+  sources: string[]; // Lists the item appeared in, in the order given
+}
+
+/**
+ * Merges ranked lists by reciprocal rank fusion: an item scores 1 / (k + rank) for every list it
+ * appears in, with ranks starting at 1. Items with the same key are one item; within a list only
+ * their best rank counts. Ties keep the order in which items were first seen. The key function also
+ * gets the item's list and position, for items that have nothing of their own to be keyed by.
+ */
+export function reciprocalRankFusion<T>(lists: RankedList<T>[], key: (item: T, source: string, index: number) => string, k: number = RRF_K): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T> & { bestRank: number }>();
+
+  lists.forEach(({ source, items }) => {
+    const counted = new Set<string>();
+    items.forEach((item, index) => {
+      const id = key(item, source, index);
+      if (counted.has(id)) {
+        return;
+      }
+      counted.add(id);
+
+      const rank = index + 1;
+      const existing = fused.get(id);
+      if (!existing) {
+        fused.set(id, { item, score: 1 / (k + rank), sources: [source], bestRank: rank });
+        return;
+      }
+      existing.score += 1 / (k + rank);
+      existing.sources.push(source);
+      if (rank < existing.bestRank) {
+        existing.item = item;
+        existing.bestRank = rank;
+      }
+    });
+  });
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score) // Stable, so ties stay in first-seen order
+    .map(({ item, score, sources }) => ({ item, score, sources }));
+}
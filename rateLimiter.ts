@@ -0,0 +1,178 @@
+// --- Token Bucket Rate Limiter ---
+
+export interface RateLimiterOptions {
+  perSecond: number; // Global requests per second across all endpoints
+  perEndpointPerSecond?: number; // Requests per second for any single endpoint (defaults to perSecond)
+  perMonth?: number; // Requests per calendar month (UTC), 0 or undefined disables the limit
+  maxWaitMs: number; // Longest a request may sit in the queue before it is rejected
+  now?: () => number; // Clock, injectable for tests
+  sleep?: (ms: number) => Promise<void>; // Timer, injectable for tests
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QueuedRequest {
+  endpoint: string;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Returns the UTC month a timestamp falls in, e.g. "2024-05"
+function monthKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+export class RateLimiter {
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly globalBucket: TokenBucket;
+  private readonly endpointBuckets = new Map<string, TokenBucket>();
+  private readonly queue: QueuedRequest[] = [];
+  private draining = false;
+  private currentMonth: string;
+  private monthlyCount = 0;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.globalBucket = this.createBucket(options.perSecond);
+    this.currentMonth = monthKey(this.now());
+  }
+
+  /**
+   * Waits until a request to the given endpoint is allowed to go out.
+   * Requests are granted strictly in the order they were queued.
+   */
+  acquire(endpoint: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ endpoint, enqueuedAt: this.now(), resolve, reject });
+      void this.drain();
+    });
+  }
+
+  /** Number of requests granted in the current calendar month. */
+  get monthlyUsage(): number {
+    this.rollMonth();
+    return this.monthlyCount;
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.queue.length > 0) {
+        this.expireStaleRequests();
+        const next = this.queue[0];
+        if (!next) break;
+
+        this.rollMonth();
+        const perMonth = this.options.perMonth ?? 0;
+        if (perMonth > 0 && this.monthlyCount >= perMonth) {
+          this.queue.shift();
+          next.reject(new RateLimitError(`Rate limit exceeded: monthly limit of ${perMonth} requests reached`));
+          continue;
+        }
+
+        const wait = this.timeUntilAvailable(next.endpoint);
+        if (wait <= 0) {
+          this.consume(next.endpoint);
+          this.queue.shift();
+          next.resolve();
+          continue;
+        }
+
+        if (this.now() + wait - next.enqueuedAt > this.options.maxWaitMs) {
+          this.queue.shift();
+          next.reject(new RateLimitError(
+            `Rate limit exceeded: request would wait longer than ${this.options.maxWaitMs}ms`,
+            wait
+          ));
+          continue;
+        }
+
+        await this.sleep(wait);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  // Requests further back in the queue can time out while earlier ones are still waiting
+  private expireStaleRequests(): void {
+    const now = this.now();
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      const request = this.queue[i];
+      if (now - request.enqueuedAt > this.options.maxWaitMs) {
+        this.queue.splice(i, 1);
+        request.reject(new RateLimitError(`Rate limit exceeded: request waited longer than ${this.options.maxWaitMs}ms`));
+      }
+    }
+  }
+
+  private rollMonth(): void {
+    const month = monthKey(this.now());
+    if (month !== this.currentMonth) {
+      this.currentMonth = month;
+      this.monthlyCount = 0;
+    }
+  }
+
+  private get endpointRate(): number {
+    return this.options.perEndpointPerSecond ?? this.options.perSecond;
+  }
+
+  private createBucket(rate: number): TokenBucket {
+    // Allow at least one request in flight even for fractional rates such as 0.5/second
+    return { tokens: Math.max(1, rate), updatedAt: this.now() };
+  }
+
+  private refill(bucket: TokenBucket, rate: number): void {
+    const now = this.now();
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(Math.max(1, rate), bucket.tokens + elapsedSeconds * rate);
+    bucket.updatedAt = now;
+  }
+
+  private endpointBucket(endpoint: string): TokenBucket {
+    let bucket = this.endpointBuckets.get(endpoint);
+    if (!bucket) {
+      bucket = this.createBucket(this.endpointRate);
+      this.endpointBuckets.set(endpoint, bucket);
+    }
+    return bucket;
+  }
+
+  private timeUntilAvailable(endpoint: string): number {
+    const waitFor = (bucket: TokenBucket, rate: number) => {
+      this.refill(bucket, rate);
+      return bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) / rate) * 1000);
+    };
+    return Math.max(
+      waitFor(this.globalBucket, this.options.perSecond),
+      waitFor(this.endpointBucket(endpoint), this.endpointRate)
+    );
+  }
+
+  private consume(endpoint: string): void {
+    this.globalBucket.tokens -= 1;
+    this.endpointBucket(endpoint).tokens -= 1;
+    this.monthlyCount++;
+  }
+}
@@ -0,0 +1,112 @@
+import { HtmlElement, HtmlNode, findAll, findFirst, textContent } from './html.js';
+
+// --- Main Content Extraction ---
+
+export interface ReadableContent {
+  title?: string;
+  content: HtmlElement; // The element holding the main content, with boilerplate removed
+}
+
+// Page furniture that is never part of the main content
+const BOILERPLATE_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'menu', 'dialog', 'script', 'style', 'noscript', 'iframe']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'menu', 'search']);
+
+// Class and id hints, as used by Readability-style extractors
+const NEGATIVE_HINT = /comment|sidebar|nav|menu|share|social|\bads?\b|advert|promo|cookie|banner|related|subscribe|newsletter|popup|modal|breadcrumb|footer|masthead/i;
+const POSITIVE_HINT = /article|content|main|post|entry|body|text|story/i;
+
+// A landmark element (<article>, <main>) with less text than this is probably a teaser, not the page
+const MIN_LANDMARK_CHARS = 250;
+
+function normalizedText(node: HtmlNode): string {
+  return textContent(node).replace(/\s+/g, ' ').trim();
+}
+
+function isBoilerplate(element: HtmlElement): boolean {
+  if (BOILERPLATE_TAGS.has(element.tag) || BOILERPLATE_ROLES.has(element.attrs.role)) {
+    return true;
+  }
+  if ('hidden' in element.attrs || element.attrs['aria-hidden'] === 'true' || /display\s*:\s*none/i.test(element.attrs.style || '')) {
+    return true;
+  }
+  const hints = `${element.attrs.class || ''} ${element.attrs.id || ''}`;
+  return NEGATIVE_HINT.test(hints) && !POSITIVE_HINT.test(hints);
+}
+
+// Returns a copy of the tree without boilerplate elements
+function stripBoilerplate(element: HtmlElement): HtmlElement {
+  return {
+    ...element,
+    children: element.children
+      .filter(child => child.type === 'text' || !isBoilerplate(child))
+      .map(child => (child.type === 'text' ? child : stripBoilerplate(child))),
+  };
+}
+
+// Share of an element's text that sits inside links; navigation blocks are mostly links
+function linkDensity(element: HtmlElement): number {
+  const length = normalizedText(element).length;
+  if (length === 0) return 0;
+  const linkLength = findAll(element, child => child.tag === 'a').reduce((sum, link) => sum + normalizedText(link).length, 0);
+  return Math.min(1, linkLength / length);
+}
+
+function findTitle(doc: HtmlElement): string | undefined {
+  const ogTitle = findAll(doc, element => element.tag === 'meta' && element.attrs.property === 'og:title')[0]?.attrs.content?.trim();
+  const title = findFirst(doc, 'title');
+  const h1 = findFirst(doc, 'h1');
+  return ogTitle || (title && normalizedText(title)) || (h1 && normalizedText(h1)) || undefined;
+}
+
+// Scores the parents of paragraphs by how much prose they hold and picks the best one
+function findBestCandidate(body: HtmlElement): HtmlElement | undefined {
+  const parents = new Map<HtmlElement, HtmlElement>();
+  const mapParents = (element: HtmlElement) => {
+    element.children.forEach(child => {
+      if (child.type === 'element') {
+        parents.set(child, element);
+        mapParents(child);
+      }
+    });
+  };
+  mapParents(body);
+
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (element: HtmlElement | undefined, score: number) => {
+    if (element) scores.set(element, (scores.get(element) ?? 0) + score);
+  };
+  findAll(body, element => element.tag === 'p' || element.tag === 'pre' || element.tag === 'td').forEach(paragraph => {
+    const text = normalizedText(paragraph);
+    if (text.length < 25) return;
+    const commas = text.split(',').length - 1;
+    const score = 1 + commas + Math.min(3, Math.floor(text.length / 100));
+    const parent = parents.get(paragraph);
+    addScore(parent, score);
+    addScore(parent && parents.get(parent), score / 2);
+  });
+
+  let best: HtmlElement | undefined;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+}
+
+/**
+ * Finds the main content of a page the way reader modes do: navigation, headers, footers,
+ * sidebars and hidden elements are dropped, then the <article>/<main> landmark is used if it
+ * holds enough text, else the element with the most prose. Falls back to the whole body.
+ */
+export function extractReadableContent(doc: HtmlElement): ReadableContent {
+  const title = findTitle(doc);
+  const body = stripBoilerplate(findFirst(doc, 'body') ?? doc);
+
+  const landmark = findAll(body, element => element.tag === 'article' || element.tag === 'main' || element.attrs.role === 'main')
+    .find(element => normalizedText(element).length >= MIN_LANDMARK_CHARS);
+  return { title, content: landmark ?? findBestCandidate(body) ?? body };
+}
@@ -0,0 +1,55 @@
+// --- Retry Policy ---
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  baseDelayMs: number; // Backoff ceiling for the first retry, doubled on each further retry
+  maxDelayMs: number; // Upper bound for a single computed backoff delay
+  budgetMs: number; // Total time that may be spent waiting between attempts
+  sleep?: (ms: number) => Promise<void>; // Timer, injectable for tests
+  random?: () => number; // Jitter source, injectable for tests
+}
+
+// 429 and 5xx responses are worth retrying, other 4xx errors will fail the same way again
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ * Returns the delay in milliseconds, or undefined if the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Parses Brave's X-RateLimit-Reset header ("1, 1419704": seconds until each policy window resets).
+ * When X-RateLimit-Remaining is given, only windows that are used up are considered.
+ * Returns the delay in milliseconds, or undefined if nothing usable was found.
+ */
+export function parseRateLimitReset(reset: string | null | undefined, remaining?: string | null): number | undefined {
+  if (!reset) return undefined;
+  const resets = reset.split(',').map(part => Number(part.trim()));
+  const remainders = remaining ? remaining.split(',').map(part => Number(part.trim())) : [];
+
+  const exhausted = resets.filter((seconds, i) => !isNaN(seconds) && remainders[i] === 0);
+  const candidates = exhausted.length > 0 ? exhausted : resets.filter(seconds => !isNaN(seconds));
+  if (candidates.length === 0) return undefined;
+
+  // If any window is used up we have to wait for the longest of them, otherwise the next reset is enough
+  const seconds = exhausted.length > 0 ? Math.max(...candidates) : Math.min(...candidates);
+  return Math.ceil(seconds * 1000);
+}
+
+/** Exponential backoff with full jitter for the given retry (1 = first retry). */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const random = policy.random ?? Math.random;
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(random() * ceiling);
+}
@@ -0,0 +1,85 @@
+// --- robots.txt (RFC 9309) ---
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string; // May contain '*' wildcards and a trailing '$' anchor
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+}
+
+// What a site's robots.txt means when it can't be read, per RFC 9309 section 2.3.1
+export const ALLOW_ALL: RobotsRules = { rules: [] };
+export const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }] };
+
+// The product token robots.txt groups match against: "MyBot/1.0 (+https://...)" -> "mybot"
+export function robotsToken(userAgent: string): string {
+  return (userAgent.trim().split(/[\s/]/)[0] || '*').toLowerCase();
+}
+
+/**
+ * Parses robots.txt and keeps the rules that apply to `userAgent`: those of the groups naming
+ * its product token, or of the '*' groups if none does. Consecutive user-agent lines share a
+ * group; unknown fields such as Sitemap and Crawl-delay are ignored.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = robotsToken(userAgent);
+  const matched: RobotsRule[] = [];
+  const wildcard: RobotsRule[] = [];
+  let matchedAny = false;
+
+  let agents: string[] = [];
+  let inRules = false; // Whether the current group has had a rule yet; a user-agent line after that starts a new group
+  text.split(/\r\n|\r|\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+      if (value.toLowerCase() === token) matchedAny = true;
+      return;
+    }
+    if (field !== 'allow' && field !== 'disallow') return;
+    inRules = true;
+    if (!value) return; // "Disallow:" with no path allows everything
+    const rule = { allow: field === 'allow', path: value };
+    if (agents.includes(token)) matched.push(rule);
+    if (agents.includes('*')) wildcard.push(rule);
+  });
+
+  return { rules: matchedAny ? matched : wildcard };
+}
+
+function ruleMatchLength(rule: RobotsRule, path: string): number {
+  const anchored = rule.path.endsWith('$');
+  const pattern = (anchored ? rule.path.slice(0, -1) : rule.path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path) ? rule.path.length : -1;
+}
+
+/**
+ * Whether `path` (with its query string) may be fetched: the longest matching rule wins and
+ * Allow wins a tie. Paths no rule matches are allowed.
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  let best: RobotsRule | undefined;
+  let bestLength = -1;
+  robots.rules.forEach(rule => {
+    const length = ruleMatchLength(rule, path);
+    if (length > bestLength || (length === bestLength && length >= 0 && rule.allow)) {
+      best = rule;
+      bestLength = length;
+    }
+  });
+  return best ? best.allow : true;
+}
@@ -0,0 +1,97 @@
+import crypto from 'node:crypto';
+import type { BraveLocation } from './apiClient.js';
+
+// --- Search History ---
+
+export interface SearchStoreOptions {
+  maxSearches: number; // Oldest searches are forgotten beyond this many, 0 disables the history
+  maxPois: number; // Same for POIs
+  now?: () => number; // Clock, injectable for tests
+  generateId?: () => string; // Injectable for tests
+}
+
+export interface StoredSearch {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>; // As called, without output_format and no_cache
+  created_at: string; // ISO time
+  response: unknown; // Brave's raw response(s) the tool result was built from
+}
+
+export interface StoredPoi {
+  id: string;
+  name?: string;
+  details?: BraveLocation; // Brave's raw POI record
+  description?: string;
+  updated_at: string; // ISO time
+}
+
+// Arguments that only change how a result is delivered, not what was searched for
+const DELIVERY_ARGUMENTS = ['output_format', 'no_cache'];
+
+// Keeps at most `max` entries in a Map, dropping the least recently added or updated
+function setBounded<T>(map: Map<string, T>, key: string, value: T, max: number): void {
+  map.delete(key);
+  map.set(key, value);
+  while (map.size > max) {
+    map.delete(map.keys().next().value as string);
+  }
+}
+
+/**
+ * Remembers recent searches and the POIs they turned up, in memory, so clients can read
+ * them again as brave://search/{id} and brave://poi/{id} resources without another query.
+ */
+export class SearchStore {
+  private readonly now: () => number;
+  private readonly generateId: () => string;
+  private readonly searches = new Map<string, StoredSearch>();
+  private readonly pois = new Map<string, StoredPoi>();
+
+  constructor(private readonly options: SearchStoreOptions) {
+    this.now = options.now ?? Date.now;
+    this.generateId = options.generateId ?? (() => crypto.randomBytes(6).toString('hex'));
+  }
+
+  get maxSearches(): number {
+    return this.options.maxSearches;
+  }
+
+  recordSearch(tool: string, args: Record<string, unknown> | undefined, response: unknown): StoredSearch | undefined {
+    if (this.options.maxSearches <= 0) return undefined;
+    const search: StoredSearch = {
+      id: this.generateId(),
+      tool,
+      arguments: Object.fromEntries(Object.entries(args ?? {}).filter(([name]) => !DELIVERY_ARGUMENTS.includes(name))),
+      created_at: new Date(this.now()).toISOString(),
+      response,
+    };
+    setBounded(this.searches, search.id, search, this.options.maxSearches);
+    return search;
+  }
+
+  getSearch(id: string): StoredSearch | undefined {
+    return this.searches.get(id);
+  }
+
+  /** Newest first. */
+  listSearches(): StoredSearch[] {
+    return [...this.searches.values()].reverse();
+  }
+
+  // Details and descriptions usually arrive in separate calls, so each updates what is already known
+  recordPois(details: BraveLocation[] = [], descriptions: Record<string, string> = {}): void {
+    if (this.options.maxPois <= 0) return;
+    const updatedAt = new Date(this.now()).toISOString();
+    const update = (id: string, changes: Partial<StoredPoi>) => {
+      const existing = this.pois.get(id);
+      setBounded(this.pois, id, { ...existing, ...changes, id, updated_at: updatedAt }, this.options.maxPois);
+    };
+    details.filter(poi => poi?.id).forEach(poi => update(poi.id, { name: poi.name, details: poi }));
+    Object.entries(descriptions).forEach(([id, description]) => update(id, { description }));
+  }
+
+  getPoi(id: string): StoredPoi | undefined {
+    return this.pois.get(id);
+  }
+}
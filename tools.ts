@@ -1,36 +1,324 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  WEB_SEARCH_OUTPUT_SCHEMA,
+  DEEP_SEARCH_OUTPUT_SCHEMA,
+  MULTI_SEARCH_OUTPUT_SCHEMA,
+  LOCAL_SEARCH_OUTPUT_SCHEMA,
+  POI_DESCRIPTIONS_OUTPUT_SCHEMA,
+  IMAGE_SEARCH_OUTPUT_SCHEMA,
+  VIDEO_SEARCH_OUTPUT_SCHEMA,
+  NEWS_SEARCH_OUTPUT_SCHEMA,
+  SUMMARY_OUTPUT_SCHEMA,
+  SUGGEST_OUTPUT_SCHEMA,
+  SPELLCHECK_OUTPUT_SCHEMA,
+  PAGE_OUTPUT_SCHEMA,
+  QUOTA_STATUS_OUTPUT_SCHEMA
+} from './output.js';
+import { JsonSchema, ValidationIssue, validateAgainstSchema } from './validation.js';
+import { Coordinates, PLACE_SORT_ORDERS, PlaceSortOrder } from './places.js';
+import { EXPORT_FORMATS, ExportFormat } from './placeExport.js';
+
+// --- Brave Parameter Values ---
+
+// Country codes accepted by Brave's `country` parameter ('ALL' disables country targeting)
+export const BRAVE_COUNTRIES = [
+  "ALL", "AR", "AU", "AT", "BE", "BR", "CA", "CL", "DK", "FI", "FR", "DE", "HK", "IN", "ID", "IT", "JP", "KR",
+  "MY", "MX", "NL", "NZ", "NO", "CN", "PL", "PT", "PH", "RU", "SA", "ZA", "ES", "SE", "CH", "TW", "TR", "GB", "US",
+];
+
+// Language codes accepted by Brave's `search_lang` parameter
+export const BRAVE_SEARCH_LANGUAGES = [
+  "ar", "eu", "bn", "bg", "ca", "zh-hans", "zh-hant", "hr", "cs", "da", "nl", "en", "en-gb", "et", "fi", "fr", "gl",
+  "de", "gu", "he", "hi", "hu", "is", "it", "jp", "kn", "ko", "lv", "lt", "ms", "ml", "mr", "nb", "pl", "pt-br",
+  "pt-pt", "pa", "ro", "ru", "sr", "sk", "sl", "es", "sv", "ta", "te", "th", "tr", "uk", "vi",
+];
+
+// Relative freshness windows (past day/week/month/year) or an explicit YYYY-MM-DDtoYYYY-MM-DD range
+export const FRESHNESS_PATTERN = "^(pd|pw|pm|py|\\d{4}-\\d{2}-\\d{2}to\\d{4}-\\d{2}-\\d{2})$";
+
+// Interface language codes accepted by Brave's `ui_lang` parameter
+export const BRAVE_UI_LANGUAGES = [
+  "es-AR", "en-AU", "de-AT", "nl-BE", "fr-BE", "pt-BR", "en-CA", "fr-CA", "es-CL", "da-DK", "fi-FI", "fr-FR",
+  "de-DE", "zh-HK", "en-IN", "en-ID", "it-IT", "ja-JP", "ko-KR", "en-MY", "es-MX", "nl-NL", "en-NZ", "no-NO",
+  "zh-CN", "pl-PL", "en-PH", "ru-RU", "en-ZA", "es-ES", "sv-SE", "fr-CH", "de-CH", "zh-TW", "tr-TR", "en-GB",
+  "en-US", "es-US",
+];
+
+export const BRAVE_SAFESEARCH_LEVELS = ["off", "moderate", "strict"];
+
+export const BRAVE_UNITS = ["metric", "imperial"];
+
+// Response sections that can be requested through `result_filter`
+export const BRAVE_RESULT_FILTERS = [
+  "discussions", "faq", "infobox", "news", "query", "summarizer", "videos", "web", "locations",
+];
+
+// Sections of a web search response that can be shown next to the web results
+export const BRAVE_WEB_INCLUDE_SECTIONS = ["infobox", "faq", "discussions", "news", "videos"];
+
+export function isValidFreshness(value: string): boolean {
+  if (!new RegExp(FRESHNESS_PATTERN).test(value)) {
+    return false;
+  }
+  if (!value.includes('to')) {
+    return true;
+  }
+  // Custom ranges must contain real dates in chronological order
+  const [start, end] = value.split('to').map(date => Date.parse(`${date}T00:00:00Z`));
+  return !isNaN(start) && !isNaN(end) && start <= end;
+}
+
+// IANA time zone names such as 'Europe/Berlin', as far as this Node.js build knows them
+export function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formats named by `format` in the input schemas, beyond what their patterns can check
+const ARGUMENT_FORMATS: Record<string, (value: string) => boolean> = {
+  freshness: isValidFreshness,
+  timezone: isValidTimezone,
+};
 
 // --- Tool Definitions ---
 
+// Brave rejects queries longer than this
+const QUERY_LIMITS = {
+  minLength: 1,
+  maxLength: 400,
+  maxWords: 50,
+};
+
+// Shared by every tool that calls the Brave API
+const NO_CACHE_PROPERTY = {
+  type: "boolean",
+  description: "Skip cached responses and fetch fresh results (default false)",
+};
+
+// Shared by the tools that return places
+const EXPORT_FORMAT_PROPERTY = {
+  type: "string",
+  description: "Return the places as a map file instead of the text result: 'geojson' (FeatureCollection), 'kml' or 'csv'. Places without coordinates are kept and listed.",
+  enum: EXPORT_FORMATS,
+};
+
+// Shared by every tool
+const OUTPUT_FORMAT_PROPERTY = {
+  type: "string",
+  description: "Format of the text result: 'text' (default), 'json' or 'markdown'. Structured content is always returned as well.",
+  enum: OUTPUT_FORMATS,
+  default: "text",
+};
+
 export const WEB_SEARCH_TOOL: Tool = {
   name: "brave_web_search",
   description:
-    "Performs a web search using the Brave Search API, ideal for general queries, news, articles, and online content. " +
-    "Use this for broad information gathering, recent events, or when you need diverse web sources. " +
-    "Supports pagination, content filtering, and freshness controls. " +
+    "Performs a web search using the Brave Search API, ideal for general queries, articles, and online content. " +
+    "Use this for broad information gathering or when you need diverse web sources; prefer brave_news_search for news and recent events. " +
+    "Supports pagination, country and language targeting, safe search, freshness controls and result type filtering. " +
+    "Reports when Brave auto-corrected the spelling of the query. " +
+    "Use include to also get the infobox, FAQ, forum discussions, news and videos Brave shows for the query. " +
     "Maximum 20 results per request, with offset for pagination. ",
   inputSchema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Search query (max 400 chars, 50 words)"
+        description: "Search query (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
       },
       count: {
-        type: "number",
+        type: "integer",
         description: "Number of results (1-20, default 10)",
-        default: 10
+        default: 10,
+        minimum: 1,
+        maximum: 20,
       },
       offset: {
-        type: "number",
+        type: "integer",
         description: "Pagination offset (0-9, default 0)", // Corrected max based on API docs
         default: 0,
         minimum: 0,
         maximum: 9,
       },
+      country: {
+        type: "string",
+        description: "Two-letter country code the results should come from (e.g. 'US', 'DE'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the results (e.g. 'en', 'fr', 'zh-hans')",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      ui_lang: {
+        type: "string",
+        description: "Language and region used for response metadata (e.g. 'en-US', 'fr-CA')",
+        enum: BRAVE_UI_LANGUAGES,
+      },
+      safesearch: {
+        type: "string",
+        description: "Adult content filter: 'off', 'moderate' (default) or 'strict'",
+        enum: BRAVE_SAFESEARCH_LEVELS,
+      },
+      freshness: {
+        type: "string",
+        description: "Only return pages discovered in the past day ('pd'), week ('pw'), month ('pm'), year ('py') or a custom range ('2024-01-01to2024-01-31')",
+        pattern: FRESHNESS_PATTERN,
+        format: "freshness",
+      },
+      units: {
+        type: "string",
+        description: "Measurement units used in results: 'metric' or 'imperial'",
+        enum: BRAVE_UNITS,
+      },
+      spellcheck: {
+        type: "boolean",
+        description: "Whether Brave may spellcheck and correct the query (default true)",
+      },
+      text_decorations: {
+        type: "boolean",
+        description: "Whether snippets may contain highlighting markup (default true)",
+      },
+      extra_snippets: {
+        type: "boolean",
+        description: "Return up to 5 additional excerpts per result (default false)",
+      },
+      result_filter: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: BRAVE_RESULT_FILTERS,
+        },
+        description: "Response sections to include (default ['web'])",
+      },
+      include: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: BRAVE_WEB_INCLUDE_SECTIONS,
+        },
+        description: "Extra sections to return with the web results, shown in Brave's ranking order: 'infobox', 'faq', 'discussions', 'news', 'videos'",
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: WEB_SEARCH_OUTPUT_SCHEMA,
+};
+
+export const DEEP_SEARCH_TOOL: Tool = {
+  name: "brave_deep_search",
+  description:
+    "Gathers many web results for one query by paging through Brave's results automatically, " +
+    "removing duplicate URLs and returning a single ranked list. " +
+    "Use this for literature surveys and other research that needs more than the 20 results brave_web_search returns; " +
+    "each page of 20 results costs one query, up to 10 pages. Stops early when Brave has no more results.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Search query (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      total: {
+        type: "integer",
+        description: "Number of results to gather (1-200, default 50)",
+        default: 50,
+        minimum: 1,
+        maximum: 200,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code the results should come from (e.g. 'US', 'DE'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the results (e.g. 'en', 'fr', 'zh-hans')",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      safesearch: {
+        type: "string",
+        description: "Adult content filter: 'off', 'moderate' (default) or 'strict'",
+        enum: BRAVE_SAFESEARCH_LEVELS,
+      },
+      freshness: {
+        type: "string",
+        description: "Only return pages discovered in the past day ('pd'), week ('pw'), month ('pm'), year ('py') or a custom range ('2024-01-01to2024-01-31')",
+        pattern: FRESHNESS_PATTERN,
+        format: "freshness",
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ["query"],
   },
+  outputSchema: DEEP_SEARCH_OUTPUT_SCHEMA,
+};
+
+export const MULTI_SEARCH_TOOL: Tool = {
+  name: "brave_multi_search",
+  description:
+    "Runs several variations of a query as web searches in one call and merges the results into a single ranked list " +
+    "using reciprocal rank fusion. Results found by several queries rank higher; duplicate URLs are merged, " +
+    "and each result lists the queries that found it. " +
+    "Use this instead of several brave_web_search calls when rephrasing a question to improve recall. Each query costs one API query.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      queries: {
+        type: "array",
+        items: {
+          type: "string",
+          ...QUERY_LIMITS,
+        },
+        description: "Queries to run (1-10, each max 400 chars, 50 words)",
+        minItems: 1,
+        maxItems: 10,
+      },
+      count: {
+        type: "integer",
+        description: "Results per query (1-20, default 10)",
+        default: 10,
+        minimum: 1,
+        maximum: 20,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code the results should come from (e.g. 'US', 'DE'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the results (e.g. 'en', 'fr', 'zh-hans')",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      safesearch: {
+        type: "string",
+        description: "Adult content filter: 'off', 'moderate' (default) or 'strict'",
+        enum: BRAVE_SAFESEARCH_LEVELS,
+      },
+      freshness: {
+        type: "string",
+        description: "Only return pages discovered in the past day ('pd'), week ('pw'), month ('pm'), year ('py') or a custom range ('2024-01-01to2024-01-31')",
+        pattern: FRESHNESS_PATTERN,
+        format: "freshness",
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["queries"],
+  },
+  outputSchema: MULTI_SEARCH_OUTPUT_SCHEMA,
 };
 
 export const LOCAL_SEARCH_TOOL: Tool = {
@@ -43,24 +331,110 @@ export const LOCAL_SEARCH_TOOL: Tool = {
     "- Ratings and review counts\n" +
     "- Phone numbers and opening hours\n" +
     "Use this when the query implies 'near me' or mentions specific locations. " +
+    "For 'near me' queries, pass the user's location (coordinates or city, state and country); " +
+    "otherwise Brave guesses it from the server's IP address. " +
+    "Can keep only places open now, above a rating or below a price level, and sort by distance, rating or review count; " +
+    "distances are computed for you when a location or origin is given. " +
     "Automatically falls back to web search if no local results are found.",
   inputSchema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Local search query (e.g. 'pizza near Central Park')"
+        description: "Local search query (e.g. 'pizza near Central Park')",
+        ...QUERY_LIMITS,
       },
       count: {
-        type: "number",
+        type: "integer",
         description: "Number of results (1-20, default 5)",
         default: 5,
         minimum: 1,
         maximum: 20,
       },
+      latitude: {
+        type: "number",
+        description: "Latitude of the user's location (-90 to 90); requires longitude",
+        minimum: -90,
+        maximum: 90,
+      },
+      longitude: {
+        type: "number",
+        description: "Longitude of the user's location (-180 to 180); requires latitude",
+        minimum: -180,
+        maximum: 180,
+      },
+      city: {
+        type: "string",
+        description: "City the user is in (e.g. 'Austin')",
+        minLength: 1,
+        maxLength: 100,
+      },
+      state: {
+        type: "string",
+        description: "State or region the user is in, as a code (e.g. 'TX') or a name",
+        minLength: 1,
+        maxLength: 100,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code of the user's location (e.g. 'US'); also targets results to that country where Brave supports it",
+        pattern: "^[A-Za-z]{2}$",
+      },
+      postal_code: {
+        type: "string",
+        description: "Postal code of the user's location (e.g. '78701')",
+        minLength: 1,
+        maxLength: 20,
+      },
+      timezone: {
+        type: "string",
+        description: "IANA time zone of the user (e.g. 'America/Chicago')",
+        format: "timezone",
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the results (e.g. 'en', 'es'); defaults to the server's BRAVE_LOCAL_SEARCH_LANG",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      origin: {
+        type: "object",
+        description: "Point to measure distances from; defaults to latitude/longitude. Each place then shows its distance.",
+        properties: {
+          latitude: { type: "number", minimum: -90, maximum: 90 },
+          longitude: { type: "number", minimum: -180, maximum: 180 },
+        },
+        required: ["latitude", "longitude"],
+      },
+      sort_by: {
+        type: "string",
+        description: "Order of the places: 'relevance' (Brave's order, default), 'distance' (nearest first, needs a location), 'rating' or 'review_count' (highest first)",
+        enum: PLACE_SORT_ORDERS,
+        default: "relevance",
+      },
+      min_rating: {
+        type: "number",
+        description: "Only places rated at least this (0-5); unrated places are left out",
+        minimum: 0,
+        maximum: 5,
+      },
+      max_price_range: {
+        type: "integer",
+        description: "Only places at most this expensive, counted in currency symbols (1 = '$' ... 4 = '$$$$'); places without a price range are left out",
+        minimum: 1,
+        maximum: 4,
+      },
+      open_now: {
+        type: "boolean",
+        description: "Only places open right now, judged in the given timezone; places without readable hours are left out, places whose hours skip today are kept",
+      },
+      export_format: EXPORT_FORMAT_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
     },
-    required: ["query"]
-  }
+    required: ["query"],
+    dependentRequired: { latitude: ["longitude"], longitude: ["latitude"] },
+  },
+  outputSchema: LOCAL_SEARCH_OUTPUT_SCHEMA,
 };
 
 export const BRAVE_POI_DETAILS_TOOL: Tool = {
@@ -73,13 +447,19 @@ export const BRAVE_POI_DETAILS_TOOL: Tool = {
       ids: {
         type: "array",
         items: {
-          type: "string"
+          type: "string",
+          minLength: 1,
         },
-        description: "An array of Brave Place IDs for which to fetch details."
-      }
+        description: "An array of Brave Place IDs for which to fetch details.",
+        minItems: 1,
+      },
+      export_format: EXPORT_FORMAT_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ["ids"]
-  }
+  },
+  outputSchema: LOCAL_SEARCH_OUTPUT_SCHEMA,
 };
 
 export const BRAVE_POI_DESCRIPTIONS_TOOL: Tool = {
@@ -92,80 +472,488 @@ export const BRAVE_POI_DESCRIPTIONS_TOOL: Tool = {
       ids: {
         type: "array",
         items: {
-          type: "string"
+          type: "string",
+          minLength: 1,
         },
-        description: "An array of Brave Place IDs for which to fetch descriptions."
-      }
+        description: "An array of Brave Place IDs for which to fetch descriptions.",
+        minItems: 1,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ["ids"]
-  }
+  },
+  outputSchema: POI_DESCRIPTIONS_OUTPUT_SCHEMA,
+};
+
+export const IMAGE_SEARCH_TOOL: Tool = {
+  name: "brave_image_search",
+  description:
+    "Searches for images using the Brave Image Search API. " +
+    "Use this when the user needs pictures, photos, diagrams or other visual content rather than web pages. " +
+    "Returns the image title, the page it appears on, the direct image URL, a thumbnail, dimensions and the source domain. " +
+    "Maximum 100 results per request.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Image search query (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      count: {
+        type: "integer",
+        description: "Number of results (1-100, default 10)",
+        default: 10,
+        minimum: 1,
+        maximum: 100,
+      },
+      safesearch: {
+        type: "string",
+        description: "Adult content filter: 'strict' (default) or 'off'",
+        enum: ["off", "strict"],
+        default: "strict",
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: IMAGE_SEARCH_OUTPUT_SCHEMA,
+};
+
+export const VIDEO_SEARCH_TOOL: Tool = {
+  name: "brave_video_search",
+  description:
+    "Searches for videos using the Brave Video Search API. " +
+    "Use this for tutorials, talks, lectures, reviews and other video content that web results tend to bury. " +
+    "Returns the title, URL, duration, creator/publisher, view count, age and thumbnail of each video. " +
+    "Maximum 20 results per request, with offset for pagination.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Video search query (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      count: {
+        type: "integer",
+        description: "Number of results (1-20, default 10)",
+        default: 10,
+        minimum: 1,
+        maximum: 20,
+      },
+      offset: {
+        type: "integer",
+        description: "Pagination offset (0-9, default 0)",
+        default: 0,
+        minimum: 0,
+        maximum: 9,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: VIDEO_SEARCH_OUTPUT_SCHEMA,
+};
+
+export const NEWS_SEARCH_TOOL: Tool = {
+  name: "brave_news_search",
+  description:
+    "Searches recent news articles using the Brave News Search API. " +
+    "Use this for current events, breaking stories and time-sensitive topics. " +
+    "Supports freshness filtering (past day/week/month/year or a custom date range) as well as country and language targeting. " +
+    "Returns the source, age, publication date, breaking flag and thumbnail of each article, newest first. " +
+    "Maximum 50 results per request, with offset for pagination.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "News search query (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      count: {
+        type: "integer",
+        description: "Number of results (1-50, default 10)",
+        default: 10,
+        minimum: 1,
+        maximum: 50,
+      },
+      offset: {
+        type: "integer",
+        description: "Pagination offset (0-9, default 0)",
+        default: 0,
+        minimum: 0,
+        maximum: 9,
+      },
+      freshness: {
+        type: "string",
+        description: "Only return articles from the past day ('pd'), week ('pw'), month ('pm'), year ('py') or a custom range ('2024-01-01to2024-01-31')",
+        pattern: FRESHNESS_PATTERN,
+        format: "freshness",
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code to source news from (e.g. 'US', 'GB'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the articles (e.g. 'en', 'de', 'pt-br')",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: NEWS_SEARCH_OUTPUT_SCHEMA,
+};
+
+export const SUMMARIZE_TOOL: Tool = {
+  name: "brave_summarize",
+  description:
+    "Answers a question with an AI-generated summary from the Brave Summarizer, built from the top web results. " +
+    "Returns the summary with numbered citations [1], [2], ... pointing to the source pages, plus suggested follow-up questions. " +
+    "Use this when you want a direct answer rather than a list of links; use brave_web_search to browse the results themselves. " +
+    "Requires a Brave Search API plan that includes the Summarizer.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Question or topic to summarize (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code the sources should come from (e.g. 'US', 'DE'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      search_lang: {
+        type: "string",
+        description: "Language of the sources (e.g. 'en', 'fr', 'zh-hans')",
+        enum: BRAVE_SEARCH_LANGUAGES,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: SUMMARY_OUTPUT_SCHEMA,
+};
+
+export const SUGGEST_TOOL: Tool = {
+  name: "brave_suggest",
+  description:
+    "Returns query autocompletions from Brave Autosuggest for a partial or vague query, " +
+    "with titles, descriptions and images for suggestions that name a known entity. " +
+    "Use this to refine a query before spending a full search on it. " +
+    "Requires a Brave Search API plan that includes Autosuggest.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Partial query to complete (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      count: {
+        type: "integer",
+        description: "Number of suggestions (1-20, default 5)",
+        default: 5,
+        minimum: 1,
+        maximum: 20,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code to tailor suggestions to (e.g. 'US', 'DE'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      rich: {
+        type: "boolean",
+        description: "Include entity titles, descriptions and images (default true)",
+        default: true,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: SUGGEST_OUTPUT_SCHEMA,
 };
 
-export const ALL_TOOLS = [WEB_SEARCH_TOOL, LOCAL_SEARCH_TOOL, BRAVE_POI_DETAILS_TOOL, BRAVE_POI_DESCRIPTIONS_TOOL];
+export const SPELLCHECK_TOOL: Tool = {
+  name: "brave_spellcheck",
+  description:
+    "Checks the spelling of a query with Brave Spellcheck and returns corrected versions, if any. " +
+    "Use this to fix a misspelled query before searching. " +
+    "Requires a Brave Search API plan that includes Spellcheck.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Query to check (max 400 chars, 50 words)",
+        ...QUERY_LIMITS,
+      },
+      country: {
+        type: "string",
+        description: "Two-letter country code whose spelling conventions to use (e.g. 'US', 'GB'), or 'ALL'",
+        enum: BRAVE_COUNTRIES,
+      },
+      no_cache: NO_CACHE_PROPERTY,
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: SPELLCHECK_OUTPUT_SCHEMA,
+};
+
+export const FETCH_PAGE_TOOL: Tool = {
+  name: "brave_fetch_page",
+  description:
+    "Fetches a web page, typically a URL from search results, and returns its main readable content as markdown, " +
+    "with navigation, ads and other page furniture removed. Plain-text pages are returned as they are. " +
+    "Long pages are returned in chunks of max_chars characters; pass the returned next_cursor to read the next chunk. " +
+    "Respects robots.txt. Does not consume any Brave API quota.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "http or https URL of the page to read",
+        pattern: "^https?://\\S+$",
+      },
+      max_chars: {
+        type: "integer",
+        description: "Maximum characters of content to return (100-100000, default 20000)",
+        default: 20000,
+        minimum: 100,
+        maximum: 100000,
+      },
+      cursor: {
+        type: "string",
+        description: "next_cursor from a previous call for the same URL, to continue where it stopped",
+        pattern: "^\\d+$",
+      },
+      no_cache: {
+        type: "boolean",
+        description: "Fetch the page again instead of reusing a copy fetched in the last few minutes (default false)",
+      },
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ["url"],
+  },
+  outputSchema: PAGE_OUTPUT_SCHEMA,
+};
+
+export const QUOTA_STATUS_TOOL: Tool = {
+  name: "brave_quota_status",
+  description:
+    "Reports Brave Search API usage for the current month: queries used, the monthly limit and remaining queries " +
+    "reported by Brave, when the quota resets, and the configured soft cap. " +
+    "Does not consume any quota. Check this before running many searches.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      output_format: OUTPUT_FORMAT_PROPERTY,
+    },
+  },
+  outputSchema: QUOTA_STATUS_OUTPUT_SCHEMA,
+};
+
+export const ALL_TOOLS = [WEB_SEARCH_TOOL, DEEP_SEARCH_TOOL, MULTI_SEARCH_TOOL, LOCAL_SEARCH_TOOL, BRAVE_POI_DETAILS_TOOL, BRAVE_POI_DESCRIPTIONS_TOOL, IMAGE_SEARCH_TOOL, VIDEO_SEARCH_TOOL, NEWS_SEARCH_TOOL, SUMMARIZE_TOOL, SUGGEST_TOOL, SPELLCHECK_TOOL, FETCH_PAGE_TOOL, QUOTA_STATUS_TOOL];
 
 // --- Type Guards for Tool Arguments ---
 
-export interface BraveWebSearchArgs {
+// Arguments shared by every tool
+export interface BraveOutputArgs {
+  output_format?: OutputFormat;
+}
+
+// Arguments shared by every tool that calls the Brave API
+export interface BraveCacheableArgs extends BraveOutputArgs {
+  no_cache?: boolean;
+}
+
+export interface BraveWebSearchArgs extends BraveCacheableArgs {
   query: string;
   count?: number;
   offset?: number;
+  country?: string;
+  search_lang?: string;
+  ui_lang?: string;
+  safesearch?: 'off' | 'moderate' | 'strict';
+  freshness?: string;
+  units?: 'metric' | 'imperial';
+  spellcheck?: boolean;
+  text_decorations?: boolean;
+  extra_snippets?: boolean;
+  result_filter?: Array<'discussions' | 'faq' | 'infobox' | 'news' | 'query' | 'summarizer' | 'videos' | 'web' | 'locations'>;
+  include?: Array<'infobox' | 'faq' | 'discussions' | 'news' | 'videos'>;
 }
 
-export interface BraveLocalSearchArgs {
+export interface BraveDeepSearchArgs extends BraveCacheableArgs {
   query: string;
+  total?: number;
+  country?: string;
+  search_lang?: string;
+  safesearch?: 'off' | 'moderate' | 'strict';
+  freshness?: string;
+}
+
+export interface BraveMultiSearchArgs extends BraveCacheableArgs {
+  queries: string[];
   count?: number;
+  country?: string;
+  search_lang?: string;
+  safesearch?: 'off' | 'moderate' | 'strict';
+  freshness?: string;
 }
 
-export interface BravePoiDetailsArgs {
+export interface BraveLocalSearchArgs extends BraveCacheableArgs {
+  query: string;
+  count?: number;
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  state?: string;
+  country?: string;
+  postal_code?: string;
+  timezone?: string;
+  search_lang?: string;
+  origin?: Coordinates;
+  sort_by?: PlaceSortOrder;
+  min_rating?: number;
+  max_price_range?: number;
+  open_now?: boolean;
+  export_format?: ExportFormat;
+}
+
+export interface BraveImageSearchArgs extends BraveCacheableArgs {
+  query: string;
+  count?: number;
+  safesearch?: 'off' | 'strict';
+}
+
+export interface BraveVideoSearchArgs extends BraveCacheableArgs {
+  query: string;
+  count?: number;
+  offset?: number;
+}
+
+export interface BraveNewsSearchArgs extends BraveCacheableArgs {
+  query: string;
+  count?: number;
+  offset?: number;
+  freshness?: string;
+  country?: string;
+  search_lang?: string;
+}
+
+export interface BraveSummarizeArgs extends BraveCacheableArgs {
+  query: string;
+  country?: string;
+  search_lang?: string;
+}
+
+export interface BraveSuggestArgs extends BraveCacheableArgs {
+  query: string;
+  count?: number;
+  country?: string;
+  rich?: boolean;
+}
+
+export interface BraveSpellcheckArgs extends BraveCacheableArgs {
+  query: string;
+  country?: string;
+}
+
+export interface BraveFetchPageArgs extends BraveCacheableArgs {
+  url: string;
+  max_chars?: number;
+  cursor?: string;
+}
+
+export interface BravePoiDetailsArgs extends BraveCacheableArgs {
   ids: string[];
+  export_format?: ExportFormat;
 }
 
-export interface BravePoiDescriptionsArgs {
+export interface BravePoiDescriptionsArgs extends BraveCacheableArgs {
   ids: string[];
 }
 
+// Checks arguments against a tool's inputSchema and lists every problem; missing arguments count as {} for tools without required fields
+export function validateToolArgs(tool: Tool, args: unknown): ValidationIssue[] {
+  const schema = tool.inputSchema as JsonSchema;
+  if (args === undefined && (schema.required?.length ?? 0) > 0) {
+    return [{ field: '', message: 'Tool arguments are required' }];
+  }
+  return validateAgainstSchema(schema, args ?? {}, { formats: ARGUMENT_FORMATS });
+}
+
+function hasValidArgs(tool: Tool, args: unknown): boolean {
+  return validateToolArgs(tool, args).length === 0;
+}
+
 export function isBraveWebSearchArgs(args: unknown): args is BraveWebSearchArgs {
-  // Check required fields first, then optional fields with proper grouping
-  return (
-    typeof args === "object" &&
-    args !== null &&
-    "query" in args &&
-    typeof (args as BraveWebSearchArgs).query === "string" &&
-    // Ensure count is either undefined or a number
-    ((args as BraveWebSearchArgs).count === undefined || typeof (args as BraveWebSearchArgs).count === 'number') &&
-    // Ensure offset is either undefined or a number
-    ((args as BraveWebSearchArgs).offset === undefined || typeof (args as BraveWebSearchArgs).offset === 'number')
-  );
+  return hasValidArgs(WEB_SEARCH_TOOL, args);
+}
+
+export function isBraveDeepSearchArgs(args: unknown): args is BraveDeepSearchArgs {
+  return hasValidArgs(DEEP_SEARCH_TOOL, args);
+}
+
+export function isBraveMultiSearchArgs(args: unknown): args is BraveMultiSearchArgs {
+  return hasValidArgs(MULTI_SEARCH_TOOL, args);
 }
 
 export function isBraveLocalSearchArgs(args: unknown): args is BraveLocalSearchArgs {
-  // Check required fields first, then optional fields with proper grouping
-  return (
-    typeof args === "object" &&
-    args !== null &&
-    "query" in args &&
-    typeof (args as BraveLocalSearchArgs).query === "string" &&
-    // Ensure count is either undefined or a number
-    ((args as BraveLocalSearchArgs).count === undefined || typeof (args as BraveLocalSearchArgs).count === 'number')
-  );
+  return hasValidArgs(LOCAL_SEARCH_TOOL, args);
 }
 
 export function isBravePoiDetailsArgs(args: unknown): args is BravePoiDetailsArgs {
-  return (
-    typeof args === "object" &&
-    args !== null &&
-    "ids" in args &&
-    Array.isArray((args as BravePoiDetailsArgs).ids) &&
-    (args as BravePoiDetailsArgs).ids.every(id => typeof id === 'string')
-  );
+  return hasValidArgs(BRAVE_POI_DETAILS_TOOL, args);
 }
 
 export function isBravePoiDescriptionsArgs(args: unknown): args is BravePoiDescriptionsArgs {
-  return (
-    typeof args === "object" &&
-    args !== null &&
-    "ids" in args &&
-    Array.isArray((args as BravePoiDescriptionsArgs).ids) &&
-    (args as BravePoiDescriptionsArgs).ids.every(id => typeof id === 'string')
-  );
-}
\ No newline at end of file
+  return hasValidArgs(BRAVE_POI_DESCRIPTIONS_TOOL, args);
+}
+
+export function isBraveImageSearchArgs(args: unknown): args is BraveImageSearchArgs {
+  return hasValidArgs(IMAGE_SEARCH_TOOL, args);
+}
+
+export function isBraveVideoSearchArgs(args: unknown): args is BraveVideoSearchArgs {
+  return hasValidArgs(VIDEO_SEARCH_TOOL, args);
+}
+
+export function isBraveNewsSearchArgs(args: unknown): args is BraveNewsSearchArgs {
+  return hasValidArgs(NEWS_SEARCH_TOOL, args);
+}
+
+export function isBraveSummarizeArgs(args: unknown): args is BraveSummarizeArgs {
+  return hasValidArgs(SUMMARIZE_TOOL, args);
+}
+
+export function isBraveSuggestArgs(args: unknown): args is BraveSuggestArgs {
+  return hasValidArgs(SUGGEST_TOOL, args);
+}
+
+export function isBraveSpellcheckArgs(args: unknown): args is BraveSpellcheckArgs {
+  return hasValidArgs(SPELLCHECK_TOOL, args);
+}
+
+export function isBraveFetchPageArgs(args: unknown): args is BraveFetchPageArgs {
+  return hasValidArgs(FETCH_PAGE_TOOL, args);
+}
+
+export function isBraveQuotaStatusArgs(args: unknown): args is BraveOutputArgs {
+  // The tool has no required arguments, so clients may omit them entirely
+  return hasValidArgs(QUOTA_STATUS_TOOL, args);
+}
@@ -0,0 +1,32 @@
+// --- URL Canonicalization ---
+
+// Query parameters that only track where a click came from and never change the page
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'ref_src']);
+
+function isTrackingParam(name: string): boolean {
+  return name.startsWith('utm_') || TRACKING_PARAMS.has(name);
+}
+
+/**
+ * Reduces a URL to a key that is the same for every spelling of the same page, for spotting
+ * duplicates across result lists. The scheme, "www.", default ports, fragments, tracking
+ * parameters and trailing slashes are dropped, and the remaining parameters are sorted.
+ * Strings that are not absolute URLs are returned trimmed.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : ''; // URL already leaves out the scheme's default port
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name.toLowerCase()))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  return `${host}${port}${path}${query}`;
+}
@@ -0,0 +1,144 @@
+// --- Schema Validation ---
+
+/**
+ * The part of JSON Schema the tool input schemas use. `maxWords` is our own keyword for
+ * Brave's query word limit; clients that don't know it ignore it.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  maxWords?: number;
+  pattern?: string;
+  format?: string; // Checked with the matching function in ValidationOptions.formats, if any
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  dependentRequired?: Record<string, readonly string[]>; // Properties that must come along when the key is given
+  [keyword: string]: unknown; // default, examples and other annotations
+}
+
+export interface ValidationIssue {
+  field: string; // Path to the value, e.g. "count" or "ids[2]"; empty for the arguments as a whole
+  message: string;
+}
+
+export interface ValidationOptions {
+  formats?: Record<string, (value: string) => boolean>;
+}
+
+export class ToolArgumentError extends Error {
+  constructor(public tool: string, public issues: ValidationIssue[]) {
+    super(`Invalid arguments for tool "${tool}":\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return `- ${issue.field ? `${issue.field}: ` : ''}${issue.message}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'number') return String(value); // JSON would turn NaN into null
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+const TYPE_NAMES: Record<NonNullable<JsonSchema['type']>, string> = {
+  object: 'an object', array: 'an array', string: 'a string', number: 'a number', integer: 'a whole number', boolean: 'true or false',
+};
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Checks a value against a schema and returns every problem found, with the path to the
+ * offending field. Properties the schema doesn't mention are allowed.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, options: ValidationOptions = {}, field: string = ''): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ field, message }];
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    return issue(`must be ${TYPE_NAMES[schema.type]}, got ${describeValue(value)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.length <= 10 ? `one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` : 'a supported value';
+    return issue(`must be ${allowed}, got ${describeValue(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return issue(`must be at least ${schema.minimum}, got ${value}`);
+    if (schema.maximum !== undefined && value > schema.maximum) return issue(`must be at most ${schema.maximum}, got ${value}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      return issue(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return issue(`must be at most ${schema.maxLength} characters, got ${value.length}`);
+    }
+    if (schema.maxWords !== undefined && countWords(value) > schema.maxWords) {
+      return issue(`must be at most ${schema.maxWords} words, got ${countWords(value)}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return issue(`has an invalid format, got ${describeValue(value)}`);
+    }
+    const checkFormat = schema.format ? options.formats?.[schema.format] : undefined;
+    if (checkFormat && !checkFormat(value)) {
+      return issue(`is not a valid ${schema.format}, got ${describeValue(value)}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return issue(schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return issue(`must have at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    const items = schema.items;
+    return items ? value.flatMap((item, index) => validateAgainstSchema(items, item, options, `${field}[${index}]`)) : [];
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const path = (name: string) => (field ? `${field}.${name}` : name);
+    const missing = (schema.required ?? [])
+      .filter(name => object[name] === undefined)
+      .map(name => ({ field: path(name), message: 'is required' }));
+    const missingDependents = Object.entries(schema.dependentRequired ?? {})
+      .filter(([name]) => object[name] !== undefined)
+      .flatMap(([name, dependents]) => dependents
+        .filter(dependent => object[dependent] === undefined)
+        .map(dependent => ({ field: path(dependent), message: `is required when ${name} is given` })));
+    const invalid = Object.entries(schema.properties ?? {})
+      .filter(([name]) => object[name] !== undefined)
+      .flatMap(([name, property]) => validateAgainstSchema(property, object[name], options, path(name)));
+    return [...missing, ...missingDependents, ...invalid];
+  }
+  return [];
+}